@@ -0,0 +1,21 @@
+'use client';
+
+import { useParams, useSearchParams } from 'next/navigation';
+import { AdjudicationWorkbench } from '@/components/annotation-components/adjudication-workbench';
+
+export default function AdjudicationPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const datasetId = params.datasetId as string;
+  const rowParam = searchParams.get('row');
+
+  // Reviewers settle overlapping rows where annotators disagreed
+  return (
+    <div className="h-screen">
+      <AdjudicationWorkbench
+        datasetId={datasetId}
+        initialRowIndex={rowParam !== null && rowParam !== '' ? Number(rowParam) : undefined}
+      />
+    </div>
+  );
+}
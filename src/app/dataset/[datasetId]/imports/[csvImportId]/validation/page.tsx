@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Sidebar } from '@/components/sidebar';
+import { ImportValidationReport } from '@/components/dataset-components/import-validation-report';
+
+export default function ImportValidationPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+  const datasetId = params.datasetId as string;
+  const csvImportId = params.csvImportId as string;
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen bg-gray-50 items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  // Rows of one CSV import that failed validation, to fix or exclude before completing it
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar forceCollapsed={true} />
+      <main className="flex-1 overflow-auto">
+        <div className="p-6">
+          <ImportValidationReport datasetId={datasetId} csvImportId={csvImportId} />
+        </div>
+      </main>
+    </div>
+  );
+}
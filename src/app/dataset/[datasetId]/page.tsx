@@ -17,6 +17,7 @@ import { DatasetSidebar } from '@/components/dataset-components/dataset-sidebar'
 import { DatasetUploadComponent } from '@/components/upload-components/dataset-upload-component';
 import { FieldConfig } from '@/components/field-config-components/field-config';
 import { DatasetSettings } from '@/components/dataset-components/dataset-settings';
+import { AgreementReport } from '@/components/dataset-components/agreement-report';
 import { Sidebar } from '@/components/sidebar';
 import {
   Database,
@@ -47,7 +48,7 @@ export default function DatasetDetailPage() {
   // Handle tab query parameter
   useEffect(() => {
     const tabParam = searchParams.get('tab');
-    if (tabParam && ['overview', 'upload', 'field-configuration', 'settings'].includes(tabParam)) {
+    if (tabParam && ['overview', 'upload', 'field-configuration', 'agreement', 'settings'].includes(tabParam)) {
       setActiveTab(tabParam);
     }
   }, [searchParams]);
@@ -148,6 +149,9 @@ export default function DatasetDetailPage() {
           />
         );
 
+      case 'agreement':
+        return <AgreementReport datasetId={datasetId} />;
+
       case 'settings':
         return <DatasetSettings datasetId={datasetId} />;
 
@@ -0,0 +1,16 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { DatasetAnnotationWorkbench } from '@/components/annotation-components/dataset-annotation-workbench';
+
+export default function ReviewPage() {
+  const params = useParams();
+  const datasetId = params.datasetId as string;
+
+  // Reviewers walk the completed rows waiting for review
+  return (
+    <div className="h-screen">
+      <DatasetAnnotationWorkbench datasetId={datasetId} mode="review" />
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Label } from '@/components/ui/label';
 import { ArrowLeft, User, Mail, Shield, Save, Eye, EyeOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/components/ui/toast';
+import { KeyboardShortcutsSettings } from '@/components/annotation-components/keyboard-shortcuts-settings';
 import { z } from 'zod';
 
 // Validation schema
@@ -362,6 +363,8 @@ export default function ProfilePage() {
             </div>
           </form>
         </div>
+
+        <KeyboardShortcutsSettings />
       </div>
     </div>
   );
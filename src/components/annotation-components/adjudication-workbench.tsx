@@ -0,0 +1,425 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, ChevronLeft, ChevronRight, Gavel, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import { ResizablePanels } from '@/components/ui/resizable-panels';
+import { MetadataDisplay } from '@/components/annotation-components/metadata-display';
+import { CandidateValue, NewColumnDataPanel } from '@/components/new-column-components/new-column-data-panel';
+import { useAuth } from '@/contexts/AuthContext';
+import { useExportTask } from '@/hooks/use-export-task';
+import { AnnotationConfig, AnnotationField } from '@/lib/api/dataset-annotation-types';
+import { datasetsAPI } from '@/lib/api/datasets';
+import { fieldSelectionAPI } from '@/lib/api/field-config';
+import { OverlapRow, OverlapRowsResponse, RowAssignmentsAPI } from '@/lib/api/row-assignments';
+import {
+  collectFieldRatings,
+  computeFieldAgreement,
+  getAgreementFields,
+  normalizeRatingValue,
+} from '@/lib/agreement';
+import {
+  exportAllColumnsToCSV,
+  exportSelectedColumnsToCSV,
+  formatExportFileName,
+  streamDatasetRows,
+} from '@/lib/dataset-export-helper';
+import { CSV_FILE_TYPE, pickExportFile } from '@/lib/export-stream';
+import { getNewColumnTypes } from '@/lib/field-config';
+import { canReviewRows } from '@/lib/row-status';
+import { cn } from '@/lib/utils';
+
+interface AdjudicationWorkbenchProps {
+  datasetId: string;
+  // Row to open first, e.g. when coming from the agreement report
+  initialRowIndex?: number;
+}
+
+const noop = () => {};
+
+export function AdjudicationWorkbench({ datasetId, initialRowIndex }: AdjudicationWorkbenchProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { isExporting, progress: exportProgress, runExport, cancelExport } = useExportTask();
+  const [datasetName, setDatasetName] = useState('');
+  const [imageAuthConfig, setImageAuthConfig] = useState<{
+    isPrivate: boolean;
+    username?: string;
+    password?: string;
+  } | undefined>(undefined);
+  const [annotationConfig, setAnnotationConfig] = useState<AnnotationConfig | null>(null);
+  const [newColumns, setNewColumns] = useState<any[]>([]);
+  const [overlap, setOverlap] = useState<OverlapRowsResponse | null>(null);
+  const [rowIndices, setRowIndices] = useState<number[]>([]);
+  const [position, setPosition] = useState(0);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [expandedTextFields, setExpandedTextFields] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        if (!canReviewRows(user)) {
+          throw new Error('Only reviewers and admins can adjudicate rows');
+        }
+
+        const [datasetInfo, config, overlapRows] = await Promise.all([
+          datasetsAPI.getById(datasetId),
+          fieldSelectionAPI.getDatasetFieldConfig(datasetId),
+          RowAssignmentsAPI.getOverlapRows(datasetId),
+        ]);
+        setDatasetName(datasetInfo.name);
+        setImageAuthConfig(datasetInfo.imageAuthConfig);
+
+        const normalizedFields = (config?.annotationFields || []).map((f: any) => ({
+          ...f,
+          isAnnotationField: f.isAnnotationField === false ? false : true,
+          isNewColumn: Boolean(f.isNewColumn),
+          isPrimaryKey: Boolean(f.isPrimaryKey),
+          isRequired: Boolean(f.isRequired),
+        }));
+        setAnnotationConfig({
+          _id: config?._id || '',
+          csvImportId: '',
+          userId: user?._id,
+          annotationFields: normalizedFields,
+          annotationLabels: config?.annotationLabels || [],
+          rowAnnotations: [],
+          totalRows: overlapRows.rows.length,
+          completedRows: 0,
+          status: 'active',
+          createdAt: config?.createdAt || new Date().toISOString(),
+          updatedAt: config?.updatedAt || new Date().toISOString(),
+        });
+        setNewColumns(config?.newColumns || []);
+        setOverlap(overlapRows);
+
+        // Rows to adjudicate: any disagreement, plus rows already decided so they can be revisited
+        const disagreeing = new Set<number>();
+        getAgreementFields(config).forEach((field) => {
+          computeFieldAgreement(field.fieldName, field.columnType, collectFieldRatings(field.fieldName, overlapRows.rows))
+            .disagreeingRows.forEach((rowIndex) => disagreeing.add(rowIndex));
+        });
+        const indices = overlapRows.rows
+          .filter((row) => disagreeing.has(row.rowIndex) || row.adjudicated)
+          .map((row) => row.rowIndex)
+          .sort((a, b) => a - b);
+        setRowIndices(indices);
+
+        const requested = initialRowIndex !== undefined ? indices.indexOf(initialRowIndex) : -1;
+        const firstOpen = indices.findIndex(
+          (rowIndex) => !overlapRows.rows.find((row) => row.rowIndex === rowIndex)?.adjudicated
+        );
+        setPosition(requested >= 0 ? requested : Math.max(firstOpen, 0));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load adjudication data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [datasetId, initialRowIndex, user]);
+
+  const currentRow: OverlapRow | undefined = useMemo(
+    () => overlap?.rows.find((row) => row.rowIndex === rowIndices[position]),
+    [overlap, rowIndices, position]
+  );
+
+  const annotatedFields = useMemo(
+    () => annotationConfig?.annotationFields.filter((field) => field.isAnnotationField) || [],
+    [annotationConfig]
+  );
+
+  const metadataFields = useMemo<AnnotationField[]>(
+    () => annotationConfig?.annotationFields.filter(
+      (field) => !field.isAnnotationField && !field.isNewColumn && field.isVisible !== false
+    ) || [],
+    [annotationConfig]
+  );
+
+  const annotatorName = useCallback((userId: string) => {
+    const annotator = overlap?.annotators.find((item) => item.userId === userId);
+    if (!annotator) return userId;
+    return [annotator.firstName, annotator.lastName].filter(Boolean).join(' ') || annotator.email;
+  }, [overlap]);
+
+  const columnTypes = useMemo(
+    () => getNewColumnTypes({ annotationFields: annotatedFields, newColumns }),
+    [annotatedFields, newColumns]
+  );
+
+  // Start from the previous decision, otherwise from the value annotators agree on.
+  // Fields with neither stay unset, so saving does not record an empty decision
+  // for fields the adjudicator never touched.
+  useEffect(() => {
+    if (!currentRow) return;
+
+    const initialValues: Record<string, string> = {};
+    annotatedFields.forEach((field) => {
+      const adjudicated = currentRow.adjudicated?.[field.fieldName];
+      if (adjudicated !== undefined) {
+        initialValues[field.fieldName] = adjudicated;
+        return;
+      }
+      const columnType = columnTypes.get(field.fieldName) || 'text';
+      const given = currentRow.annotations
+        .filter((annotation) => annotation.completed)
+        .map((annotation) => annotation.values[field.fieldName] || '');
+      const distinct = new Set(given.map((value) => normalizeRatingValue(value, columnType)));
+      if (given.length > 0 && distinct.size === 1) {
+        initialValues[field.fieldName] = given[0];
+      }
+    });
+    setValues(initialValues);
+  }, [currentRow, annotatedFields, columnTypes]);
+
+  const candidateValues = useMemo(() => {
+    const candidates: Record<string, CandidateValue[]> = {};
+    if (!currentRow) return candidates;
+
+    annotatedFields.forEach((field) => {
+      candidates[field.fieldName] = currentRow.annotations
+        .filter((annotation) => annotation.completed)
+        .map((annotation) => ({
+          label: annotatorName(annotation.userId),
+          value: annotation.values[field.fieldName] || '',
+        }));
+    });
+    return candidates;
+  }, [currentRow, annotatedFields, annotatorName]);
+
+  const handleSave = async () => {
+    if (!currentRow) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await RowAssignmentsAPI.adjudicateRow(datasetId, currentRow.rowIndex, values);
+      setOverlap((current) => current && {
+        ...current,
+        rows: current.rows.map((row) => (row.rowIndex === updated.rowIndex ? updated : row)),
+      });
+      showToast({
+        type: 'success',
+        title: 'Row Adjudicated',
+        description: `Final values saved for row ${currentRow.rowIndex}.`,
+      });
+
+      // Move on to the next row still waiting for a decision
+      const nextOpen = rowIndices.findIndex(
+        (rowIndex, index) =>
+          index > position && !overlap?.rows.find((row) => row.rowIndex === rowIndex)?.adjudicated
+      );
+      if (nextOpen >= 0) {
+        setPosition(nextOpen);
+      } else if (position < rowIndices.length - 1) {
+        setPosition(position + 1);
+      }
+    } catch (err: any) {
+      showToast({
+        type: 'error',
+        title: 'Adjudication Failed',
+        description: err.response?.data?.message || 'Failed to save the final values.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Called from a click, so the save picker opens before anything is awaited
+  const handleExport = async (exportAll: boolean) => {
+    if (!annotationConfig) return;
+
+    const fileName = formatExportFileName(exportAll ? 'all_columns' : 'selected_columns', datasetName, 'csv');
+    const fileTarget = await pickExportFile(fileName, CSV_FILE_TYPE);
+    if (!fileTarget) return;
+
+    await runExport(async (taskOptions) => {
+      const exportConfig = {
+        annotationFields: annotationConfig.annotationFields.map((field) => ({
+          ...field,
+          isNewColumn: field.isNewColumn ?? false,
+        })),
+      };
+      const rows = streamDatasetRows(datasetId, taskOptions.signal);
+      const options = {
+        ...taskOptions,
+        fileTarget,
+        cleanHtml: true,
+        showSuccess: true,
+        onSuccess: (message: string) => {
+          showToast({ type: 'success', title: 'Export Complete', description: message });
+        },
+        onError: (message: string) => {
+          showToast({ type: 'error', title: 'Export Failed', description: message });
+        },
+      };
+      if (exportAll) {
+        await exportAllColumnsToCSV(rows, exportConfig, datasetId, options);
+      } else {
+        await exportSelectedColumnsToCSV(rows, exportConfig, datasetId, options);
+      }
+    });
+  };
+
+  const toggleTextExpansion = (fieldName: string) => {
+    setExpandedTextFields((prev) => {
+      const next = new Set(prev);
+      if (next.has(fieldName)) {
+        next.delete(fieldName);
+      } else {
+        next.add(fieldName);
+      }
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+          <p className="text-gray-600">Loading adjudication data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="h-8 w-8 text-red-500 mx-auto mb-4" />
+          <p className="text-red-600" data-testid="adjudication-error-message">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentRow) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <Gavel className="h-8 w-8 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 mb-4" data-testid="adjudication-empty">
+            No disagreements to adjudicate.
+          </p>
+          <Button variant="outline" onClick={() => router.push(`/dataset/${datasetId}?tab=agreement`)}>
+            Back to Agreement
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const adjudicatedCount = rowIndices.filter(
+    (rowIndex) => overlap?.rows.find((row) => row.rowIndex === rowIndex)?.adjudicated
+  ).length;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      <div className="flex-1 overflow-hidden" data-testid="adjudication-main-content">
+        <ResizablePanels
+          leftPanel={
+            <MetadataDisplay
+              metadata={currentRow.data}
+              orderedMetadataFields={metadataFields}
+              draggedField={null}
+              editingField={null}
+              expandedTextFields={expandedTextFields}
+              datasetName={`${datasetName} · Adjudication`}
+              datasetId={datasetId}
+              rowIndex={currentRow.rowIndex}
+              imageAuthConfig={imageAuthConfig}
+              annotationLabels={annotationConfig?.annotationLabels}
+              onMetadataChange={noop}
+              onDragStart={noop}
+              onDragOver={noop}
+              onDrop={noop}
+              onEditField={noop}
+              onSaveField={noop}
+              onSaveIndividualField={noop}
+              onCancelEdit={noop}
+              onToggleTextExpansion={toggleTextExpansion}
+              onNavigateBack={() => router.push(`/dataset/${datasetId}?tab=agreement`)}
+              readOnly
+            />
+          }
+          rightPanel={
+            <NewColumnDataPanel
+              annotationConfig={annotationConfig}
+              newColumnData={values}
+              newColumns={newColumns}
+              onNewColumnChange={(fieldName, value) =>
+                setValues((current) => ({ ...current, [fieldName]: value }))
+              }
+              onSaveAllNewColumnData={handleSave}
+              onExportSelectedColumns={() => handleExport(false)}
+              onExportAllColumns={() => handleExport(true)}
+              isExporting={isExporting}
+              exportProgress={exportProgress}
+              onCancelExport={cancelExport}
+              isSaving={isSaving}
+              datasetId={datasetId}
+              rowIndex={currentRow.rowIndex}
+              imageAuthConfig={imageAuthConfig}
+              candidateValues={candidateValues}
+              title="Adjudication"
+              description="Pick an annotator's value or enter the final one"
+              saveLabel="Save Final Values"
+            />
+          }
+          defaultLeftWidth={50}
+          minLeftWidth={25}
+          maxLeftWidth={75}
+        />
+      </div>
+
+      {/* Row navigation */}
+      <div className="flex items-center justify-between px-4 py-3 bg-white border-t border-gray-200">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPosition((current) => current - 1)}
+          disabled={position === 0}
+          data-testid="adjudication-previous-button"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <div className="flex items-center gap-3 text-sm text-gray-700">
+          <span data-testid="adjudication-position">
+            Row {currentRow.rowIndex} · {position + 1} of {rowIndices.length}
+          </span>
+          <span
+            className={cn(
+              'text-xs px-1.5 py-0.5 rounded',
+              currentRow.adjudicated ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+            )}
+          >
+            {currentRow.adjudicated ? 'Adjudicated' : 'Disputed'}
+          </span>
+          <span className="text-gray-500">{adjudicatedCount} adjudicated</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPosition((current) => current + 1)}
+          disabled={position >= rowIndices.length - 1}
+          data-testid="adjudication-next-button"
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   AlertCircle,
@@ -10,25 +10,74 @@ import {
   CheckCircle,
   Clock,
   FileText,
+  Inbox,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   DatasetMergedRowsAPI,
-  DatasetMergedRowsData,
+  RowQueryFilter,
+  RowWithCSVInfo,
 } from '@/lib/api/dataset-merged-rows';
 import {
   AnnotationConfig,
   AnnotationField,
 } from '@/lib/api/dataset-annotation-types';
 import { fieldSelectionAPI } from '@/lib/api/field-config';
+import { AnnotationsAPI } from '@/lib/api/annotations';
+import { RestoreRowValueResponse, RowChangeEvent } from '@/lib/api/row-history';
+import { MyAssignment, RowAssignmentsAPI } from '@/lib/api/row-assignments';
+import { ReviewDecision, ReviewQueueCounts, RowReviewsAPI } from '@/lib/api/row-reviews';
 import { datasetsAPI } from '@/lib/api/datasets';
 import { RowFooter, NewColumnDataPanel } from '@/components/new-column-components';
 import { MetadataDisplay } from './metadata-display';
+import { RowFilterBar } from './row-filter-bar';
+import { RowHistoryPanel } from './row-history-panel';
+import { RowReviewPanel } from './row-review-panel';
 import { useToast } from '@/components/ui/toast';
-import { exportSelectedColumnsToCSV, exportAllColumnsToCSV } from '@/lib/dataset-export-helper';
+import {
+  exportSelectedColumnsToCSV,
+  exportAllColumnsToCSV,
+  formatExportFileName,
+  streamDatasetRows,
+} from '@/lib/dataset-export-helper';
+import { CSV_FILE_TYPE, ExportFileTarget, JSONL_FILE_TYPE, pickExportFile } from '@/lib/export-stream';
+import { exportCocoJson, exportPascalVocZip } from '@/lib/image-annotation-export';
+import { exportSelectedColumnsToXlsx } from '@/lib/xlsx-export';
+import { exportToJsonl, getTemplateFields, JsonlTemplate } from '@/lib/jsonl-export';
+import { JsonlExportDialog } from '@/components/dataset-components/jsonl-export-dialog';
+import { ExportDialog, PendingExport } from '@/components/dataset-components/export-dialog';
+import { ExportPresetsDialog } from '@/components/dataset-components/export-presets-dialog';
+import { ExportRowFilter, getFilterColumns } from '@/lib/export-filter';
+import { exportWithPreset, getPresetSaveFile, PRESET_FORMAT_LABELS, validatePresetColumns } from '@/lib/export-presets';
+import { ExportPreset } from '@/lib/api/export-presets';
+import { ExportOption } from '@/components/ui/export-dropdown';
 import { DragDropHelper, DragDropParams } from '@/lib/drag-drop-helper';
 import { CompletionModal } from '@/components/ui/completion-modal';
 import { ResizablePanels } from '@/components/ui/resizable-panels';
+import { KeyboardShortcutsModal } from '@/components/ui/keyboard-shortcuts-modal';
+import { CustomShortcut, useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useExportTask } from '@/hooks/use-export-task';
+import { useExportPresets } from '@/hooks/use-export-presets';
+import { DatasetRowWindow } from '@/lib/dataset-row-window';
+import {
+  annotationHistory,
+  HistoryDirection,
+  HistoryEntry,
+} from '@/lib/annotation-history';
+import { hasNativeUndo, isTypingTarget, rememberFocusedField } from '@/lib/keyboard-shortcuts';
+import { RowStatus, canReviewRows, getRowStatus } from '@/lib/row-status';
+import {
+  DEFAULT_ROW_FILTER,
+  isRowFilterActive,
+  matchesRowFilter,
+  RowFilter,
+  toRowQuery,
+} from '@/lib/row-filter';
+import {
+  annotationSaveQueue,
+  PendingRowPatch,
+  SaveOutcome,
+} from '@/lib/annotation-save-queue';
 
 interface Task {
   id: string;
@@ -36,7 +85,7 @@ interface Task {
   fileName: string;
   fileType: 'text' | 'image' | 'audio';
   filePath: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'needs_review';
+  status: RowStatus;
   assignedTo?: string;
   metadata?: Record<string, any>;
   csvInfo?: {
@@ -44,37 +93,74 @@ interface Task {
     fileName: string;
     originalCsvRowIndex: number;
   };
-  createdAt: Date;
-  updatedAt: Date;
 }
 
 interface NewColumnData {
   [fieldName: string]: string;
 }
 
+// Rows fetched per page by the sliding row window
+const ROW_PAGE_SIZE = 50;
+
+const rowToTask = (row: RowWithCSVInfo, datasetId: string): Task => ({
+  id: `row-${row.rowIndex}`,
+  rowIndex: row.rowIndex,
+  fileName: `Row ${row.rowIndex}`,
+  fileType: 'text', // Default to text, will be determined by annotation fields
+  filePath: `/dataset/${datasetId}/row/${row.rowIndex}`,
+  status: getRowStatus(row),
+  assignedTo: row.assignedTo,
+  metadata: row.data || {},
+  csvInfo: row.csvInfo || undefined,
+});
+
+// Text fields outside the annotation panels (e.g. the filter search box) always keep native undo;
+// panel fields keep it while they hold edits of their own
+const prefersNativeUndo = (event: KeyboardEvent) =>
+  hasNativeUndo(event.target) ||
+  (isTypingTarget(event.target) &&
+    !(event.target as HTMLElement).closest('[data-testid="annotation-workbench-main-content"]'));
+
+// Annotation field holding keyboard focus, read when a shortcut fires so a stale highlight never receives the option
+const getFocusedFieldName = (): string | null =>
+  document.activeElement?.closest<HTMLElement>('[data-shortcut-field-name]')?.dataset.shortcutFieldName ?? null;
 
 interface DatasetAnnotationWorkbenchProps {
   datasetId: string;
+  // Review mode walks the rows waiting for review and lets reviewers approve or reject them
+  mode?: 'annotate' | 'review';
 }
 
 export function DatasetAnnotationWorkbench({
   datasetId,
+  mode = 'annotate',
 }: DatasetAnnotationWorkbenchProps) {
   const { user } = useAuth();
   const { showToast } = useToast();
   const router = useRouter();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [rowWindow, setRowWindow] = useState<DatasetRowWindow | null>(null);
+  const [windowVersion, setWindowVersion] = useState(0);
+  const [totalRows, setTotalRows] = useState(0);
+  const [completedCount, setCompletedCount] = useState(0);
+  const [isLoadingRow, setIsLoadingRow] = useState(false);
+  const [queuedSaves, setQueuedSaves] = useState<PendingRowPatch[]>([]);
+  // Latest server updatedAt per row from our own synced saves, used as the conflict baseline
+  const knownUpdatedAtRef = useRef<Map<number, string>>(new Map());
   const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
   const [metadata, setMetadata] = useState<Record<string, any>>({});
   const [newColumnData, setNewColumnData] = useState<NewColumnData>({});
   const [, setLastSavedTime] = useState<Date | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const { isExporting, progress: exportProgress, runExport, cancelExport } = useExportTask();
+  const [showJsonlDialog, setShowJsonlDialog] = useState(false);
+  const { presets: exportPresets, savePreset, deletePreset } = useExportPresets(datasetId);
+  const [showPresetsDialog, setShowPresetsDialog] = useState(false);
+  const [pendingExport, setPendingExport] = useState<PendingExport | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [annotationConfig, setAnnotationConfig] =
     useState<AnnotationConfig | null>(null);
   const [datasetNewColumns, setDatasetNewColumns] = useState<any[]>([]);
-  const [datasetData, setDatasetData] = useState<DatasetMergedRowsData | null>(null);
   const [orderedMetadataFields, setOrderedMetadataFields] = useState<AnnotationField[]>([]);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [expandedTextFields, setExpandedTextFields] = useState<Set<string>>(new Set());
@@ -88,6 +174,21 @@ export function DatasetAnnotationWorkbench({
     completionTime: string;
   } | null>(null);
   const [datasetName, setDatasetName] = useState<string>('');
+  // Annotation field targeted by option/label shortcuts
+  const [activeFieldName, setActiveFieldName] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [rowFilter, setRowFilter] = useState<RowFilter>(DEFAULT_ROW_FILTER);
+  // Matching/completed counts for the active filter, null while loading
+  const [filterCounts, setFilterCounts] = useState<{
+    matchingRows: number;
+    completedRows: number;
+  } | null>(null);
+  const [isSearchingRows, setIsSearchingRows] = useState(false);
+  // Set when the dataset's rows are split among annotators and the workbench shows our queue
+  const [assignedQueue, setAssignedQueue] = useState<MyAssignment | null>(null);
+  // Review mode: rows per review state, from the server since the queue shrinks as rows are reviewed
+  const [reviewCounts, setReviewCounts] = useState<ReviewQueueCounts | null>(null);
+  const [, setHistoryVersion] = useState(0);
   const [imageAuthConfig, setImageAuthConfig] = useState<{
     isPrivate: boolean;
     username?: string;
@@ -117,9 +218,35 @@ export function DatasetAnnotationWorkbench({
         setDatasetName(datasetInfo.name);
         setImageAuthConfig(datasetInfo.imageAuthConfig);
 
-        // Load dataset merged rows data
-        const mergedData = await DatasetMergedRowsAPI.getDatasetData(datasetId);
-        setDatasetData(mergedData);
+        if (mode === 'review' && !canReviewRows(user)) {
+          throw new Error('Only reviewers and admins can review rows');
+        }
+
+        // Annotators only see the rows assigned to them once an admin has split the dataset
+        const assignment = mode === 'review' || user?.role === 'admin'
+          ? null
+          : await RowAssignmentsAPI.getMyAssignment(datasetId).catch(() => null);
+        const queue = assignment?.hasAssignments ? assignment : null;
+        setAssignedQueue(queue);
+
+        // Load the first page of rows; further pages are fetched on demand
+        const rowWindow = new DatasetRowWindow(datasetId, {
+          pageSize: ROW_PAGE_SIZE,
+          fetchRows: mode === 'review'
+            ? (page, limit) => RowReviewsAPI.getReviewQueue(datasetId, page, limit)
+            : queue
+            ? (page, limit) => RowAssignmentsAPI.getMyRows(datasetId, page, limit)
+            : undefined,
+          fetchRow: mode !== 'review' && queue
+            ? (rowIndex) => RowAssignmentsAPI.getMyRow(datasetId, rowIndex)
+            : undefined,
+          scope: mode === 'review'
+            ? { reviewQueue: true }
+            : queue
+            ? { assignedTo: user?._id }
+            : undefined,
+        });
+        const rowCount = await rowWindow.init();
 
         // Load annotation config using datasetId
         try {
@@ -144,7 +271,7 @@ export function DatasetAnnotationWorkbench({
               annotationFields: normalizedFields,
               annotationLabels: config.annotationLabels || [],
               rowAnnotations: [],
-              totalRows: mergedData.totalRows,
+              totalRows: rowCount,
               completedRows: 0,
               status: 'active',
               createdAt: config.createdAt || new Date().toISOString(),
@@ -163,7 +290,7 @@ export function DatasetAnnotationWorkbench({
             userId: user?._id,
             annotationFields: [],
             rowAnnotations: [],
-            totalRows: mergedData.totalRows,
+            totalRows: rowCount,
             completedRows: 0,
             status: 'PENDING',
             createdAt: new Date().toISOString(),
@@ -172,96 +299,52 @@ export function DatasetAnnotationWorkbench({
           setAnnotationConfig(defaultConfig);
         }
 
-        let taskData: Task[] = [];
-
-        if (mergedData.mergedRows && Array.isArray(mergedData.mergedRows)) {
-          taskData = mergedData.mergedRows.map((row: any) => ({
-            id: `row-${row.rowIndex}`,
-            rowIndex: row.rowIndex,
-            fileName: `Row ${row.rowIndex}`, // Display as 1-based for user friendliness
-            fileType: 'text', // Default to text, will be determined by annotation fields
-            filePath: `/dataset/${datasetId}/row/${row.rowIndex}`,
-            status: row.completed ? 'completed' : 'pending',
-            metadata: row.data || {},
-            csvInfo: row.csvInfo || null,
-            createdAt: new Date(mergedData.createdAt),
-            updatedAt: new Date(mergedData.lastUpdatedAt),
-          }));
-        } else {
-          // If no mergedRows, create tasks based on totalRows
-          taskData = Array.from({ length: mergedData.totalRows }, (_, index) => ({
-            id: `row-${index + 1}`,
-            rowIndex: index + 1, // Start from 1
-            fileName: `Row ${index + 1}`, // Display as 1-based for user friendliness
-            fileType: 'text',
-            filePath: `/dataset/${datasetId}/row/${index + 1}`,
-            status: 'pending',
-            metadata: {},
-            csvInfo: undefined,
-            createdAt: new Date(mergedData.createdAt),
-            updatedAt: new Date(mergedData.lastUpdatedAt),
-          }));
-        }
-
-        // Initialize metadata with actual merged row data
-        if (
-          taskData.length > 0 &&
-          mergedData.mergedRows &&
-          mergedData.mergedRows.length > 0
-        ) {
-          const firstRowData = mergedData.mergedRows[0].data;
-          setMetadata(firstRowData);
-        }
-
-        setTasks(taskData);
-
-        // Load progress and apply completion status
+        // Load progress and resume position
+        let startIndex = 0;
         try {
-          const progress = await DatasetMergedRowsAPI.getDetailedProgress(datasetId);
-
-          // Apply completion status to tasks
-          const updatedTasks = taskData.map(task => {
-            const rowStatus = progress.rowStatuses.find((rs: { rowIndex: number; completed: boolean }) => rs.rowIndex === task.rowIndex);
-            return {
-              ...task,
-              status: rowStatus?.completed ? 'completed' as const : 'pending' as const
-            };
-          });
-          setTasks(updatedTasks);
-
-          // Set current task index to resume position
-          if (progress.lastViewedRow > 0 && progress.lastViewedRow < taskData.length) {
-            setCurrentTaskIndex(progress.lastViewedRow);
+          let resumeIndex = 0;
+          if (mode === 'review') {
+            const counts = await RowReviewsAPI.getReviewCounts(datasetId);
+            setReviewCounts(counts);
+            setCompletedCount(counts.approved + counts.rejected);
+          } else if (queue) {
+            // Queue positions differ from dataset positions, so the saved resume row does not apply
+            setCompletedCount(queue.completedRows);
           } else {
+            const [progress, resumeProgress] = await Promise.all([
+              DatasetMergedRowsAPI.getAnnotationProgress(datasetId),
+              DatasetMergedRowsAPI.getResumeProgress(datasetId),
+            ]);
+            setCompletedCount(progress.completedRows);
+            if (resumeProgress.lastViewedRow > 0 && resumeProgress.lastViewedRow < rowCount) {
+              resumeIndex = resumeProgress.lastViewedRow;
+            }
+          }
+
+          if (resumeIndex > 0) {
+            startIndex = resumeIndex;
+          } else if (mode === 'annotate') {
             // Find first incomplete row
-            const firstIncompleteIndex = updatedTasks.findIndex(task => task.status !== 'completed');
+            const firstRow = rowWindow.peek(0);
+            const firstIncompleteIndex = firstRow && !firstRow.completed
+              ? 0
+              : await rowWindow.findMatchingPosition(0, 'next', { status: 'incomplete' });
             if (firstIncompleteIndex >= 0) {
-              setCurrentTaskIndex(firstIncompleteIndex);
+              startIndex = firstIncompleteIndex;
             }
           }
         } catch {
           showToast({
             type: 'info',
             title: 'Progress Loading Info',
-            description: 'Could not load progress data. Starting from first incomplete row.',
+            description: 'Could not load progress data. Starting from first row.',
           });
         }
 
-        // Initialize new column data for annotation fields
-        if (annotationConfig && annotationConfig.annotationFields.length > 0) {
-          const annotationFields = annotationConfig.annotationFields.filter(
-            (field) => (field.isNewColumn || field.isAnnotationField) && field.isVisible !== false
-          );
-          // Initialize new column data, preserving any existing values
-          setNewColumnData(prevNewColumnData => {
-            const initialNewColumnData: NewColumnData = {};
-            annotationFields.forEach((field) => {
-              // Preserve existing values or initialize with empty string
-              initialNewColumnData[field.fieldName] = prevNewColumnData[field.fieldName] || '';
-            });
-            return initialNewColumnData;
-          });
-        }
+        await rowWindow.getRow(startIndex);
+        setRowWindow(rowWindow);
+        setTotalRows(rowCount);
+        setCurrentTaskIndex(startIndex);
       } catch (err) {
         setError(
           `Failed to load dataset annotation data: ${
@@ -276,9 +359,146 @@ export function DatasetAnnotationWorkbench({
     if (datasetId) {
       loadData();
     }
-  }, [datasetId, user?._id]);
+  }, [datasetId, mode, user?._id, user?.role]);
+
+  // Re-render when the row window loads pages or updates rows
+  useEffect(() => {
+    if (!rowWindow) return;
+    return rowWindow.subscribe(() => setWindowVersion((version) => version + 1));
+  }, [rowWindow]);
+
+  // Load the current row (and prefetch its neighbours) whenever the position changes
+  useEffect(() => {
+    if (!rowWindow || totalRows === 0) return;
+
+    let isStale = false;
+    setIsLoadingRow(!rowWindow.peek(currentTaskIndex));
+    rowWindow
+      .getRow(currentTaskIndex)
+      .catch(() => {
+        if (isStale) return;
+        showToast({
+          type: 'error',
+          title: 'Row Loading Error',
+          description: 'Failed to load row data. Please try again.',
+        });
+      })
+      .finally(() => {
+        if (!isStale) setIsLoadingRow(false);
+      });
+
+    return () => {
+      isStale = true;
+    };
+  }, [rowWindow, currentTaskIndex, totalRows]);
+
+  // The row object only changes identity when it is (re)loaded or updated locally
+  const currentRow = rowWindow?.peek(currentTaskIndex);
+  const currentTask = useMemo(
+    () => (currentRow ? rowToTask(currentRow, datasetId) : undefined),
+    [currentRow, datasetId],
+  );
+
+  const getTaskAt = useCallback(
+    (index: number): Task | undefined => {
+      const row = rowWindow?.peek(index);
+      return row ? rowToTask(row, datasetId) : undefined;
+    },
+    [rowWindow, datasetId, windowVersion],
+  );
+
+  const getBaseUpdatedAt = useCallback(
+    (rowIndex: number) =>
+      knownUpdatedAtRef.current.get(rowIndex) ??
+      (currentRow?.rowIndex === rowIndex ? currentRow.updatedAt : undefined),
+    [currentRow],
+  );
+
+  const showSaveQueueToast = useCallback((outcome: SaveOutcome, subject: string) => {
+    if (outcome.status === 'queued') {
+      showToast({
+        type: 'info',
+        title: 'Saved Offline',
+        description: `${subject} will be synced when the connection returns.`,
+      });
+    } else if (outcome.status === 'conflict') {
+      showToast({
+        type: 'error',
+        title: 'Save Conflict',
+        description: `${subject} was changed on the server since it was loaded. Resolve the conflict in the footer.`,
+      });
+    } else if (outcome.status === 'failed') {
+      showToast({
+        type: 'error',
+        title: 'Save Failed',
+        description: `Failed to save ${subject}: ${outcome.error}`,
+      });
+    }
+  }, [showToast]);
+
+  // Track queued saves for this dataset and apply saves that sync in the background
+  useEffect(() => {
+    const refreshQueuedSaves = () => setQueuedSaves(annotationSaveQueue.getEntries(datasetId));
+
+    const unsubscribe = annotationSaveQueue.subscribe((event) => {
+      if (event.type === 'synced' && event.entry.datasetId === datasetId && event.response?.updatedAt) {
+        knownUpdatedAtRef.current.set(event.entry.rowIndex, event.response.updatedAt);
+      }
+      refreshQueuedSaves();
+    });
+    annotationSaveQueue.init().then(refreshQueuedSaves);
 
-  const currentTask = tasks[currentTaskIndex];
+    return unsubscribe;
+  }, [datasetId]);
+
+  // Resolve a conflicting or failed save for the current row
+  const handleResolveSaveIssue = useCallback(async (resolution: 'overwrite' | 'discard') => {
+    if (!currentTask) return;
+
+    const unresolved = queuedSaves.filter(
+      (entry) => entry.rowIndex === currentTask.rowIndex && entry.status !== 'pending',
+    );
+    for (const entry of unresolved) {
+      await annotationSaveQueue.resolve(entry.id, resolution);
+    }
+
+    if (resolution === 'discard' && rowWindow) {
+      try {
+        // Reload the annotation panel from the server's version of the row
+        prevTaskRef.current = null;
+        await rowWindow.refreshRow(currentTask.rowIndex);
+      } catch {
+        showToast({
+          type: 'error',
+          title: 'Row Loading Error',
+          description: 'Failed to reload row data. Please try again.',
+        });
+      }
+    }
+  }, [currentTask, queuedSaves, rowWindow, showToast]);
+
+  // Reload the row after an admin restored a value from its history
+  const handleHistoryRestored = useCallback(async (
+    event: RowChangeEvent,
+    response: RestoreRowValueResponse
+  ) => {
+    if (response.updatedAt) {
+      knownUpdatedAtRef.current.set(event.rowIndex, response.updatedAt);
+    }
+    if (!rowWindow) return;
+
+    try {
+      // Reset the annotation panel from the restored row
+      prevTaskRef.current = null;
+      await rowWindow.refreshRow(event.rowIndex);
+    } catch {
+      showToast({
+        type: 'error',
+        title: 'Row Loading Error',
+        description: 'Failed to reload row data. Please try again.',
+      });
+    }
+  }, [rowWindow, showToast]);
 
   // Update metadata when current task changes
   useEffect(() => {
@@ -289,69 +509,233 @@ export function DatasetAnnotationWorkbench({
 
 
 
+  // Annotation config in the shape the export helpers take
+  const exportConfig = useMemo(() => annotationConfig && {
+    annotationFields: annotationConfig.annotationFields.map(field => ({
+      ...field,
+      isNewColumn: field.isNewColumn ?? false
+    })),
+    newColumns: datasetNewColumns
+  }, [annotationConfig, datasetNewColumns]);
+
+  // The workbench only holds a window of rows, so exports and the export
+  // dialog's row count read the dataset page by page
+  const readExportRows = useCallback(
+    (signal?: AbortSignal) => streamDatasetRows(datasetId, signal),
+    [datasetId]
+  );
+
   // Export annotations to CSV - Selected Columns Only
-  const handleExportSelectedColumns = useCallback(async () => {
-    if (!datasetData || !annotationConfig) {
+  const handleExportSelectedColumns = useCallback(async (exportFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => {
+    if (!exportConfig) {
       return;
     }
 
-    await exportSelectedColumnsToCSV(
-      datasetData,
-      {
-        annotationFields: annotationConfig.annotationFields.map(field => ({
-          ...field,
-          isNewColumn: field.isNewColumn ?? false
-        }))
-      },
-      datasetId,
-      {
+    await runExport(async (taskOptions) => {
+      await exportSelectedColumnsToCSV(
+        readExportRows(taskOptions.signal),
+        exportConfig,
+        datasetId,
+        {
+          ...taskOptions,
+          fileTarget,
+          rowFilter: exportFilter,
+          cleanHtml: true,
+          showSuccess: true,
+          onSuccess: (message) => {
+            showToast({
+              type: 'success',
+              title: 'Export Complete',
+              description: message,
+            });
+          },
+          onError: () => {
+            setError('Failed to export selected columns CSV');
+          },
+        }
+      );
+    });
+  }, [exportConfig, showToast, datasetId, runExport, readExportRows]);
+
+  // Export annotations to CSV - All Columns
+  const handleExportAllColumns = useCallback(async (exportFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => {
+    if (!exportConfig) {
+      return;
+    }
+
+    await runExport(async (taskOptions) => {
+      await exportAllColumnsToCSV(
+        readExportRows(taskOptions.signal),
+        exportConfig,
+        datasetId,
+        {
+          ...taskOptions,
+          fileTarget,
+          rowFilter: exportFilter,
+          cleanHtml: true,
+          showSuccess: true,
+          onSuccess: (message) => {
+            showToast({
+              type: 'success',
+              title: 'Export Complete',
+              description: message,
+            });
+          },
+          onError: () => {
+            setError('Failed to export all columns CSV');
+          },
+        }
+      );
+    });
+  }, [exportConfig, showToast, datasetId, runExport, readExportRows]);
+
+  const handleExportXlsx = useCallback(async (exportFilter: ExportRowFilter) => {
+    if (!exportConfig) {
+      return;
+    }
+
+    await runExport(async (taskOptions) => {
+      await exportSelectedColumnsToXlsx(readExportRows(taskOptions.signal), exportConfig, datasetId, {
+        ...taskOptions,
+        rowFilter: exportFilter,
         cleanHtml: true,
-        showSuccess: true,
         onSuccess: (message) => {
-          showToast({
-            type: 'success',
-            title: 'Export Complete',
-            description: message,
-          });
+          showToast({ type: 'success', title: 'Export Complete', description: message });
         },
-        onError: () => {
-          setError('Failed to export selected columns CSV');
+        onError: (message) => {
+          showToast({ type: 'error', title: 'Export Failed', description: message });
         },
-      }
-    );
-  }, [datasetData, annotationConfig, showToast, datasetId]);
+      });
+    });
+  }, [exportConfig, showToast, datasetId, runExport, readExportRows]);
 
-  // Export annotations to CSV - All Columns
-  const handleExportAllColumns = useCallback(async () => {
-    if (!datasetData || !annotationConfig) {
+  // Called from the dialog's click, so the save picker opens before anything is awaited
+  const handleExportJsonl = useCallback((template: JsonlTemplate) => {
+    if (!exportConfig) {
       return;
     }
 
-    await exportAllColumnsToCSV(
-      datasetData,
-      {
-        annotationFields: annotationConfig.annotationFields.map(field => ({
-          ...field,
-          isNewColumn: field.isNewColumn ?? false
-        }))
+    setShowJsonlDialog(false);
+    pickExportFile(formatExportFileName('finetune', datasetName, 'jsonl'), JSONL_FILE_TYPE).then((fileTarget) => {
+      if (!fileTarget) return;
+      runExport(async (taskOptions) => {
+        await exportToJsonl(readExportRows(taskOptions.signal), exportConfig, template, datasetId, {
+          ...taskOptions,
+          fileTarget,
+          cleanHtml: true,
+          onSuccess: (message) => {
+            showToast({ type: 'success', title: 'Export Complete', description: message });
+          },
+          onError: (message) => {
+            showToast({ type: 'error', title: 'Export Failed', description: message });
+          },
+        });
+      });
+    });
+  }, [exportConfig, showToast, datasetId, datasetName, runExport, readExportRows]);
+
+  // Called from a click, so the save picker opens before anything is awaited
+  const handleExportPreset = useCallback((preset: ExportPreset) => {
+    if (!exportConfig) {
+      return;
+    }
+
+    const problem = validatePresetColumns(preset, exportConfig);
+    if (problem) {
+      showToast({ type: 'error', title: 'Export Failed', description: problem });
+      return;
+    }
+
+    const saveFile = getPresetSaveFile(preset, datasetName);
+    const picked: Promise<ExportFileTarget | null | undefined> = saveFile
+      ? pickExportFile(saveFile.name, saveFile.type)
+      : Promise.resolve(undefined);
+
+    picked.then((fileTarget) => {
+      if (fileTarget === null) return;
+      runExport(async (taskOptions) => {
+        await exportWithPreset(readExportRows(taskOptions.signal), exportConfig, preset, datasetId, {
+          ...taskOptions,
+          fileTarget,
+          onSuccess: (message) => {
+            showToast({ type: 'success', title: 'Export Complete', description: `${preset.name}: ${message}` });
+          },
+          onError: (message) => {
+            showToast({ type: 'error', title: 'Export Failed', description: message });
+          },
+        });
+      });
+    });
+  }, [exportConfig, showToast, datasetId, datasetName, runExport, readExportRows]);
+
+  // Excel and JSONL exports, COCO / Pascal VOC when the dataset has image fields,
+  // then saved presets
+  const extraExportOptions = useMemo<ExportOption[]>(() => {
+    if (!annotationConfig) return [];
+
+    const exportOptions = {
+      onSuccess: (message: string) => {
+        showToast({ type: 'success', title: 'Export Complete', description: message });
+      },
+      onError: (message: string) => {
+        showToast({ type: 'error', title: 'Export Failed', description: message });
       },
-      datasetId,
+    };
+    const xlsxOption: ExportOption = {
+      id: 'xlsx',
+      label: 'Export Excel (.xlsx)',
+      description: 'Configured fields with typed cells, image links and a summary sheet',
+      action: () => setPendingExport({ label: 'Excel (.xlsx)', run: handleExportXlsx }),
+    };
+    const jsonlOption: ExportOption = {
+      id: 'jsonl',
+      label: 'Export JSONL (fine-tuning)',
+      description: 'Chat messages or prompt/completion records built from a field template',
+      action: () => setShowJsonlDialog(true),
+    };
+    const imageOptions: ExportOption[] = annotationConfig.annotationFields.some((field) => field.fieldType === 'image')
+      ? [
+          {
+            id: 'coco',
+            label: 'COCO JSON',
+            description: 'Selected images, captions and labelled regions in COCO format',
+            action: () => runExport((taskOptions) => exportCocoJson(datasetId, { ...exportOptions, ...taskOptions })),
+          },
+          {
+            id: 'pascal-voc',
+            label: 'Pascal VOC (zip)',
+            description: 'One VOC XML file per selected or annotated image',
+            action: () => runExport((taskOptions) => exportPascalVocZip(datasetId, { ...exportOptions, ...taskOptions })),
+          },
+        ]
+      : [];
+
+    return [
+      xlsxOption,
+      jsonlOption,
+      ...imageOptions,
+      ...exportPresets.map((preset) => ({
+        id: `preset-${preset._id}`,
+        label: preset.name,
+        description: `Saved preset · ${PRESET_FORMAT_LABELS[preset.format]}${preset.isShared ? ' · shared' : ''}`,
+        action: () => handleExportPreset(preset),
+      })),
       {
-        cleanHtml: true,
-        showSuccess: true,
-        onSuccess: (message) => {
-          showToast({
-            type: 'success',
-            title: 'Export Complete',
-            description: message,
-          });
-        },
-        onError: () => {
-          setError('Failed to export all columns CSV');
-        },
-      }
-    );
-  }, [datasetData, annotationConfig, showToast, datasetId]);
+        id: 'manage-presets',
+        label: 'Manage export presets...',
+        description: 'Save column order, headers, format and row filters for reuse',
+        action: () => setShowPresetsDialog(true),
+      },
+    ];
+  }, [
+    annotationConfig,
+    showToast,
+    datasetId,
+    runExport,
+    handleExportXlsx,
+    exportPresets,
+    handleExportPreset,
+  ]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -364,63 +748,201 @@ export function DatasetAnnotationWorkbench({
   }, []);
 
 
-  const navigateTask = useCallback((direction: 'prev' | 'next') => {
-    let newIndex = currentTaskIndex;
-    
-    if (direction === 'prev' && currentTaskIndex > 0) {
-      newIndex = currentTaskIndex - 1;
-    } else if (direction === 'next' && currentTaskIndex < tasks.length - 1) {
-      newIndex = currentTaskIndex + 1;
+  // Metadata columns searched by the free-text row filter
+  const metadataSearchFields = useMemo(
+    () => orderedMetadataFields.map((field) => field.csvColumnName || field.fieldName),
+    [orderedMetadataFields]
+  );
+
+  // Server-side filter selecting the rows walked in this mode, so counts cover the same rows
+  const rowScope = useMemo<RowQueryFilter>(
+    () => (mode === 'review' ? { reviewQueue: true } : assignedQueue ? { assignedTo: user?._id } : {}),
+    [mode, assignedQueue, user?._id]
+  );
+
+  // Keep filter counts in sync; completion status counts are known locally outside review mode
+  useEffect(() => {
+    if (!isRowFilterActive(rowFilter)) {
+      setFilterCounts(null);
+      return;
     }
-    
-    if (newIndex !== currentTaskIndex) {
-      setCurrentTaskIndex(newIndex);
-      
-      // Update last viewed row in backend
-      if (datasetId) {
-        DatasetMergedRowsAPI.updateAnnotationProgress(
-          datasetId, 
-          newIndex, 
-          tasks.filter(t => t.status === 'completed').length
-        ).catch(() => {
+
+    if (mode !== 'review' && rowFilter.mode === 'incomplete') {
+      setFilterCounts({ matchingRows: totalRows - completedCount, completedRows: 0 });
+      return;
+    }
+    if (mode !== 'review' && rowFilter.mode === 'completed') {
+      setFilterCounts({ matchingRows: completedCount, completedRows: completedCount });
+      return;
+    }
+
+    let isStale = false;
+    setFilterCounts(null);
+    DatasetMergedRowsAPI.countFilteredRows(datasetId, {
+      ...toRowQuery(rowFilter, metadataSearchFields),
+      ...rowScope,
+    })
+      .then((counts) => {
+        if (!isStale) setFilterCounts(counts);
+      })
+      .catch(() => {
+        if (!isStale) {
           showToast({
             type: 'error',
-            title: 'Navigation Error',
-            description: 'Failed to update navigation progress. Please try again.',
+            title: 'Filter Error',
+            description: 'Failed to count rows matching the filter.',
           });
+        }
+      });
+
+    return () => {
+      isStale = true;
+    };
+  }, [rowFilter, datasetId, mode, totalRows, completedCount, metadataSearchFields, rowScope, showToast]);
+
+  // Move to a row position and remember it as the last viewed row
+  const moveToPosition = useCallback((position: number) => {
+    setCurrentTaskIndex(position);
+
+    // Update last viewed row in backend (dataset positions only, not queue positions)
+    if (datasetId && mode === 'annotate' && !assignedQueue) {
+      DatasetMergedRowsAPI.updateAnnotationProgress(
+        datasetId,
+        position,
+        completedCount
+      ).catch(() => {
+        showToast({
+          type: 'error',
+          title: 'Navigation Error',
+          description: 'Failed to update navigation progress. Please try again.',
         });
-      }
+      });
     }
-  }, [currentTaskIndex, tasks, datasetId]);
+  }, [datasetId, mode, completedCount, assignedQueue, showToast]);
 
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.ctrlKey || e.metaKey) {
-        switch (e.key) {
-          case 'ArrowLeft':
-            e.preventDefault();
-            navigateTask('prev');
-            break;
-          case 'ArrowRight':
-            e.preventDefault();
-            navigateTask('next');
-            break;
-        }
+  // Ask the server for the nearest row matching a filter
+  const searchRows = useCallback(async (
+    from: number,
+    direction: 'prev' | 'next',
+    filter: RowQueryFilter
+  ): Promise<number> => {
+    if (!rowWindow) return -1;
+
+    setIsSearchingRows(true);
+    try {
+      return await rowWindow.findMatchingPosition(from, direction, filter);
+    } catch {
+      showToast({
+        type: 'error',
+        title: 'Navigation Error',
+        description: 'Failed to load rows. Please try again.',
+      });
+      return -1;
+    } finally {
+      setIsSearchingRows(false);
+    }
+  }, [rowWindow, showToast]);
+
+  const navigateTask = useCallback(async (direction: 'prev' | 'next') => {
+    if (isRowFilterActive(rowFilter)) {
+      // Skip rows that don't match the active filter
+      const newIndex = await searchRows(
+        currentTaskIndex,
+        direction,
+        toRowQuery(rowFilter, metadataSearchFields)
+      );
+      if (newIndex >= 0) {
+        moveToPosition(newIndex);
+      } else {
+        showToast({
+          type: 'info',
+          title: 'No More Matches',
+          description: `No ${direction === 'next' ? 'later' : 'earlier'} rows match the current filter.`,
+        });
       }
-    };
+      return;
+    }
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [navigateTask]);
+    if (direction === 'prev' && currentTaskIndex > 0) {
+      moveToPosition(currentTaskIndex - 1);
+    } else if (direction === 'next' && currentTaskIndex < totalRows - 1) {
+      moveToPosition(currentTaskIndex + 1);
+    }
+  }, [currentTaskIndex, totalRows, rowFilter, metadataSearchFields, searchRows, moveToPosition, showToast]);
+
+  // Jump to the next incomplete row, wrapping around to the start of the dataset
+  const jumpToNextIncomplete = useCallback(async () => {
+    const incomplete: RowQueryFilter = { status: 'incomplete' };
 
-  const jumpToRow = (rowIndex: number) => {
-    // Find the task with the matching rowIndex
-    const taskIndex = tasks.findIndex(task => task.rowIndex === rowIndex);
-    if (taskIndex >= 0) {
-      setCurrentTaskIndex(taskIndex);
+    let newIndex = await searchRows(currentTaskIndex, 'next', incomplete);
+    if (newIndex < 0) {
+      newIndex = await searchRows(-1, 'next', incomplete);
     }
-  };
+
+    if (newIndex >= 0 && newIndex !== currentTaskIndex) {
+      moveToPosition(newIndex);
+    } else {
+      showToast({
+        type: 'info',
+        title: 'No Incomplete Rows',
+        description: newIndex === currentTaskIndex
+          ? 'This is the only incomplete row.'
+          : 'All rows are completed.',
+      });
+    }
+  }, [currentTaskIndex, searchRows, moveToPosition, showToast]);
+
+  // Apply a new filter, moving off the current row if it no longer matches
+  const handleRowFilterChange = useCallback(async (filter: RowFilter) => {
+    setRowFilter(filter);
+    if (!rowWindow || !isRowFilterActive(filter)) return;
+
+    const currentRow = rowWindow.peek(currentTaskIndex);
+    if (currentRow && matchesRowFilter(currentRow, filter, metadataSearchFields)) return;
+
+    const query = toRowQuery(filter, metadataSearchFields);
+    let newIndex = await searchRows(currentTaskIndex, 'next', query);
+    if (newIndex < 0) {
+      newIndex = await searchRows(currentTaskIndex, 'prev', query);
+    }
+
+    if (newIndex >= 0) {
+      moveToPosition(newIndex);
+    } else {
+      showToast({
+        type: 'info',
+        title: 'No Matching Rows',
+        description: 'No rows match the current filter.',
+      });
+    }
+  }, [rowWindow, currentTaskIndex, metadataSearchFields, searchRows, moveToPosition, showToast]);
+
+  // Jump to a row by its rowIndex, looking it up on the server when it is outside the window
+  const jumpToRow = useCallback(async (rowIndex: number) => {
+    if (!rowWindow) return;
+
+    setIsSearchingRows(true);
+    try {
+      const position = await rowWindow.findPositionByRowIndex(rowIndex);
+      if (position >= 0) {
+        moveToPosition(position);
+      } else {
+        showToast({
+          type: 'info',
+          title: 'Row Not Found',
+          description: `Row ${rowIndex} is not in this dataset.`,
+        });
+      }
+    } catch {
+      showToast({
+        type: 'error',
+        title: 'Navigation Error',
+        description: 'Failed to load rows. Please try again.',
+      });
+    } finally {
+      setIsSearchingRows(false);
+    }
+  }, [rowWindow, moveToPosition, showToast]);
 
   // Drag and drop handlers for metadata field reordering
   const handleDragStart = (e: React.DragEvent, fieldName: string) => {
@@ -550,47 +1072,44 @@ export function DatasetAnnotationWorkbench({
     try {
       const fieldData = { [fieldName]: fieldValue };
 
-      const response = await DatasetMergedRowsAPI.patchRowData(
+      const outcome = await annotationSaveQueue.enqueue({
         datasetId,
-        currentTask.rowIndex,
-        fieldData
-      );
-
-      if (response.success && response.data) {
-        // Update local dataset data
-        if (datasetData && datasetData.mergedRows) {
-          const updatedRow = datasetData.mergedRows.find(row => row.rowIndex === currentTask.rowIndex);
-          if (updatedRow) {
-            updatedRow.data[fieldName] = fieldValue;
-            updatedRow.processed = true;
-            setDatasetData({ ...datasetData });
-          }
-        }
+        rowIndex: currentTask.rowIndex,
+        data: fieldData,
+        baseValues: { [fieldName]: currentRow?.data?.[fieldName] },
+        baseUpdatedAt: getBaseUpdatedAt(currentTask.rowIndex),
+        assigned: Boolean(assignedQueue),
+      });
 
-        // Update current task metadata to immediately reflect the changes
-        const updatedTask = {
-          ...currentTask,
-          metadata: {
-            ...currentTask.metadata,
-            [fieldName]: fieldValue
-          },
-          updatedAt: new Date(),
-        };
+      annotationHistory.record({
+        kind: 'metadata',
+        datasetId,
+        rowIndex: currentTask.rowIndex,
+        fieldName,
+        before: String(currentRow?.data?.[fieldName] ?? ''),
+        after: fieldValue,
+        persisted: true,
+      });
 
-        // Update the tasks array
-        setTasks(prev => prev.map(task => 
-          task.id === currentTask.id ? updatedTask : task
-        ));
+      // Update the cached row so the current task immediately reflects the changes,
+      // even while the edit is still waiting in the save queue
+      rowWindow?.updateRow(currentTask.rowIndex, {
+        data: fieldData,
+        processed: true,
+      });
 
-        // Don't update newColumnData during individual saves
-        // This preserves any unsaved changes in the right panel
+      // Don't update newColumnData during individual saves
+      // This preserves any unsaved changes in the right panel
 
+      if (outcome.status === 'synced') {
         setLastSavedTime(new Date());
         showToast({
           type: 'success',
           title: 'Field Saved',
           description: `Field "${fieldName}" saved successfully!`,
         });
+      } else {
+        showSaveQueueToast(outcome, `Field "${fieldName}"`);
       }
 
     } catch (error: unknown) {
@@ -602,7 +1121,7 @@ export function DatasetAnnotationWorkbench({
     } finally {
       setIsSaving(false);
     }
-  }, [datasetId, currentTask, datasetData, showToast]);
+  }, [datasetId, currentTask, currentRow, rowWindow, showToast, assignedQueue, getBaseUpdatedAt, showSaveQueueToast]);
 
   const handleCancelEdit = () => {
     setEditingField(null);
@@ -659,54 +1178,84 @@ export function DatasetAnnotationWorkbench({
 
     setIsSaving(true);
     try {
-      let response = null;
+      let outcome: SaveOutcome | null = null;
       
       // Only save data if there's actual data to save
       if (hasActualData) {
-        response = await DatasetMergedRowsAPI.patchRowData(
+        outcome = await annotationSaveQueue.enqueue({
           datasetId,
-          currentTask.rowIndex,
-          dataToSave
-        );
+          rowIndex: currentTask.rowIndex,
+          data: dataToSave,
+          baseValues: Object.fromEntries(
+            Object.keys(dataToSave).map((fieldName) => [fieldName, currentRow?.data?.[fieldName]]),
+          ),
+          baseUpdatedAt: getBaseUpdatedAt(currentTask.rowIndex),
+          assigned: Boolean(assignedQueue),
+          // The queue marks the row completed once the data reaches the server
+          markCompleted: mode !== 'review',
+        });
 
-        if (response.success && response.data) {
-          // Update local dataset data
-          if (datasetData && datasetData.mergedRows) {
-            const updatedRow = datasetData.mergedRows.find(row => row.rowIndex === currentTask.rowIndex);
-            if (updatedRow) {
-              Object.entries(dataToSave).forEach(([fieldName, value]) => {
-                updatedRow.data[fieldName] = value;
-              });
-              updatedRow.processed = true;
-              setDatasetData({ ...datasetData });
-            }
-          }
+        // Keep the values locally, even while they wait in the save queue
+        rowWindow?.updateRow(currentTask.rowIndex, {
+          data: dataToSave,
+          processed: true,
+        });
+
+        if (outcome.status === 'conflict' || outcome.status === 'failed') {
+          showSaveQueueToast(outcome, `Row ${currentTask.rowIndex}`);
+          return;
         }
+
+        // Undoing these edits from now on has to be re-issued to the server
+        annotationHistory.markPersisted(datasetId, currentTask.rowIndex, 'newColumn');
+      }
+      const response = outcome?.status === 'synced' ? outcome.response : null;
+
+      if (mode === 'review') {
+        // Reviewer corrections keep the row in review; approving or rejecting moves on
+        setPendingChanges({});
+        if (outcome?.status === 'queued') {
+          showSaveQueueToast(outcome, `Row ${currentTask.rowIndex}`);
+        } else {
+          showToast({
+            type: 'success',
+            title: 'Changes Saved',
+            description: `Row ${currentTask.rowIndex} was updated.`,
+          });
+        }
+        return;
       }
 
       // Always mark row as completed (regardless of whether data was saved)
-      const updatedTask = {
-        ...currentTask,
-        metadata: {
-          ...currentTask.metadata,
-          ...dataToSave
-        },
-        status: 'completed' as const,
-        updatedAt: new Date(),
-      };
+      const wasCompleted = Boolean(currentRow?.completed);
+      const nextCompletedCount = wasCompleted ? completedCount : completedCount + 1;
+      rowWindow?.updateRow(currentTask.rowIndex, { completed: true });
+      setCompletedCount(nextCompletedCount);
 
-      // Update the tasks array
-      setTasks(prev => prev.map(task => 
-        task.id === currentTask.id ? updatedTask : task
-      ));
+      setPendingChanges({});
+
+      if (outcome?.status === 'queued') {
+        // Offline: skip the completion check and keep annotating
+        const isLastRow = currentTaskIndex >= totalRows - 1;
+        showSaveQueueToast(outcome, `Row ${currentTask.rowIndex}`);
+        if (!isLastRow) {
+          setTimeout(() => {
+            navigateTask('next');
+          }, 1000);
+        }
+        return;
+      }
 
-      // Mark row as completed in backend
+      // Mark row as completed in backend (saved data was already marked by the save queue)
       try {
-        await DatasetMergedRowsAPI.markRowCompleted(datasetId, currentTask.rowIndex);
+        if (!outcome) {
+          await DatasetMergedRowsAPI.markRowCompleted(datasetId, currentTask.rowIndex);
+        }
         
-        // Update progress tracking
-        const completedCount = tasks.filter(t => t.status === 'completed' || t.rowIndex === currentTask.rowIndex).length;
-        await DatasetMergedRowsAPI.updateAnnotationProgress(datasetId, currentTask.rowIndex, completedCount);
+        // Update progress tracking (queue progress is derived from the rows on the server)
+        if (!assignedQueue) {
+          await DatasetMergedRowsAPI.updateAnnotationProgress(datasetId, currentTaskIndex, nextCompletedCount);
+        }
       } catch {
         showToast({
           type: 'info',
@@ -716,11 +1265,17 @@ export function DatasetAnnotationWorkbench({
       }
 
       setLastSavedTime(new Date());
-      setPendingChanges({});
       
       // Check if ALL rows are completed using API
       try {
-        const completionStatus = await DatasetMergedRowsAPI.checkAllRowsCompleted(datasetId);
+        // An annotator's queue is done once every assigned row is completed
+        const completionStatus = assignedQueue
+          ? {
+              allCompleted: nextCompletedCount >= totalRows,
+              completedCount: nextCompletedCount,
+              totalCount: totalRows,
+            }
+          : await DatasetMergedRowsAPI.checkAllRowsCompleted(datasetId);
         
         if (completionStatus.allCompleted) {
           // Show completion modal instead of toast
@@ -739,7 +1294,7 @@ export function DatasetAnnotationWorkbench({
           setShowCompletionModal(true);
         } else {
           // Show regular success toast and navigate to next row
-          const isLastRow = currentTaskIndex >= tasks.length - 1;
+          const isLastRow = currentTaskIndex >= totalRows - 1;
         
         if (hasActualData && response?.success) {
           const fieldCount = response.updatedFields || 0;
@@ -767,7 +1322,7 @@ export function DatasetAnnotationWorkbench({
         }
       } catch {
         // Fallback to regular flow if API call fails
-        const isLastRow = currentTaskIndex >= tasks.length - 1;
+        const isLastRow = currentTaskIndex >= totalRows - 1;
         
         if (hasActualData && response?.success) {
           const fieldCount = response.updatedFields || 0;
@@ -803,10 +1358,23 @@ export function DatasetAnnotationWorkbench({
     } finally {
       setIsSaving(false);
     }
-  }, [datasetId, currentTask, datasetData, newColumnData, annotationConfig, showToast, editingField, metadata, handleSaveIndividualField, currentTaskIndex, navigateTask, tasks]);
+  }, [datasetId, currentTask, currentRow, rowWindow, newColumnData, annotationConfig, showToast, editingField, metadata, handleSaveIndividualField, currentTaskIndex, navigateTask, totalRows, completedCount, mode, assignedQueue, getBaseUpdatedAt, showSaveQueueToast]);
 
   // New column data handlers - no auto-save, only manual save
   const handleNewColumnChange = useCallback((fieldName: string, value: string) => {
+    if (currentTask) {
+      annotationHistory.record({
+        kind: 'newColumn',
+        datasetId,
+        rowIndex: currentTask.rowIndex,
+        fieldName,
+        before: newColumnData[fieldName] || '',
+        after: value,
+        persisted: false,
+        coalesceKey: `newColumn:${fieldName}`,
+      });
+    }
+
     setNewColumnData(prev => ({
       ...prev,
       [fieldName]: value,
@@ -816,7 +1384,78 @@ export function DatasetAnnotationWorkbench({
       ...prev,
       [fieldName]: value,
     }));
-  }, []);
+  }, [datasetId, currentTask, newColumnData]);
+
+  // Re-render undo/redo controls when the history changes
+  useEffect(() => {
+    annotationHistory.clear();
+    return annotationHistory.subscribe((event) => {
+      if (event.type === 'changed') setHistoryVersion((version) => version + 1);
+    });
+  }, [datasetId]);
+
+  // Apply an undo/redo step; saved edits are re-issued so the server stays consistent
+  const applyHistoryEntry = useCallback(async (entry: HistoryEntry, direction: HistoryDirection) => {
+    if (entry.kind === 'imageMetadata') {
+      // ImageThumbnails updates its local state from the history 'applied' event
+      if (entry.persisted) {
+        await AnnotationsAPI.saveImageMetadata({
+          datasetId: entry.datasetId,
+          rowIndex: entry.rowIndex,
+          fieldName: entry.fieldName,
+          ...(direction === 'undo' ? entry.before : entry.after),
+          isAiGenerated: false,
+        });
+      }
+      return;
+    }
+
+    const value = direction === 'undo' ? entry.before : entry.after;
+    const replacedValue = direction === 'undo' ? entry.after : entry.before;
+
+    if (entry.persisted) {
+      const outcome = await annotationSaveQueue.enqueue({
+        datasetId: entry.datasetId,
+        rowIndex: entry.rowIndex,
+        data: { [entry.fieldName]: value },
+        baseValues: { [entry.fieldName]: replacedValue },
+        baseUpdatedAt: getBaseUpdatedAt(entry.rowIndex),
+        assigned: Boolean(assignedQueue),
+      });
+      // Conflicting or failed saves stay in the queue for the user to resolve
+      if (outcome.status !== 'synced') {
+        showSaveQueueToast(outcome, `Field "${entry.fieldName}"`);
+      }
+      rowWindow?.updateRow(entry.rowIndex, { data: { [entry.fieldName]: value } });
+    }
+
+    if (entry.kind === 'newColumn') {
+      setNewColumnData(prev => ({ ...prev, [entry.fieldName]: value }));
+    } else {
+      setMetadata(prev => ({ ...prev, [entry.fieldName]: value }));
+    }
+  }, [rowWindow, assignedQueue, getBaseUpdatedAt, showSaveQueueToast]);
+
+  const handleHistoryStep = useCallback(async (direction: HistoryDirection) => {
+    if (!currentTask) return;
+
+    try {
+      if (direction === 'undo') {
+        await annotationHistory.undo(datasetId, currentTask.rowIndex, applyHistoryEntry);
+      } else {
+        await annotationHistory.redo(datasetId, currentTask.rowIndex, applyHistoryEntry);
+      }
+    } catch (error: unknown) {
+      showToast({
+        type: 'error',
+        title: direction === 'undo' ? 'Undo Failed' : 'Redo Failed',
+        description: error instanceof Error ? error.message : 'Failed to update the server. Please try again.',
+      });
+    } finally {
+      // The focused field now shows the restored value; native undo starts over from it
+      requestAnimationFrame(() => rememberFocusedField(document.activeElement));
+    }
+  }, [datasetId, currentTask, applyHistoryEntry, showToast]);
 
   // Navigation handler
   const handleNavigateBack = useCallback(() => {
@@ -839,30 +1478,29 @@ export function DatasetAnnotationWorkbench({
 
   // Mark row as completed with backend persistence
   const handleMarkAsCompleted = useCallback(async (rowIndex: number) => {
-    if (!datasetId) return;
+    if (!datasetId || !rowWindow) return;
+
+    const position = await rowWindow.findPositionByRowIndex(rowIndex);
+    const row = position >= 0 ? rowWindow.peek(position) : undefined;
+    if (!row || row.completed) return;
     
     try {
       // Update local state immediately
-      setTasks(prev => prev.map(task => 
-        task.rowIndex === rowIndex 
-          ? { ...task, status: 'completed' as const, updatedAt: new Date() }
-          : task
-      ));
+      rowWindow.updateRow(rowIndex, { completed: true });
+      setCompletedCount(prev => prev + 1);
       
       // Save to backend
       await DatasetMergedRowsAPI.markRowCompleted(datasetId, rowIndex);
       
       // Update progress tracking
-      const completedCount = tasks.filter(t => t.status === 'completed' || t.rowIndex === rowIndex).length;
-      await DatasetMergedRowsAPI.updateAnnotationProgress(datasetId, rowIndex, completedCount);
+      if (!assignedQueue) {
+        await DatasetMergedRowsAPI.updateAnnotationProgress(datasetId, position, completedCount + 1);
+      }
       
     } catch {
       // Revert local state on error
-      setTasks(prev => prev.map(task => 
-        task.rowIndex === rowIndex 
-          ? { ...task, status: 'pending' as const }
-          : task
-      ));
+      rowWindow.updateRow(rowIndex, { completed: false });
+      setCompletedCount(prev => prev - 1);
       
       showToast({
         type: 'error',
@@ -870,12 +1508,149 @@ export function DatasetAnnotationWorkbench({
         description: 'Failed to save completion status. Please try again.',
       });
     }
-  }, [datasetId, tasks, showToast]);
+  }, [datasetId, rowWindow, completedCount, assignedQueue, showToast]);
+
+  // The reviewed row leaves the queue and later rows move up a position, so reload
+  // the queue and the review counts from the server; the same position then holds the next row
+  const handleRowReviewed = useCallback(async (decision: ReviewDecision, row: RowWithCSVInfo) => {
+    showToast({
+      type: 'success',
+      title: decision === 'approved' ? 'Row Approved' : 'Row Rejected',
+      description: decision === 'approved'
+        ? `Row ${row.rowIndex} was approved.`
+        : `Row ${row.rowIndex} was sent back to its annotator.`,
+    });
+    if (!rowWindow) return;
+
+    try {
+      const [queueSize, counts] = await Promise.all([
+        rowWindow.reload(),
+        RowReviewsAPI.getReviewCounts(datasetId),
+      ]);
+      setReviewCounts(counts);
+      setCompletedCount(counts.approved + counts.rejected);
+      setTotalRows(queueSize);
+      setCurrentTaskIndex(Math.max(0, Math.min(currentTaskIndex, queueSize - 1)));
+    } catch {
+      showToast({
+        type: 'error',
+        title: 'Review Queue Error',
+        description: 'Failed to reload the review queue. Please refresh the page.',
+      });
+    }
+  }, [rowWindow, datasetId, currentTaskIndex, showToast]);
 
-  const annotatedTasks = tasks.filter(
-    (task) => task.status === 'completed',
-  );
 
+  // Options of a select-like new column, in the order they are displayed
+  const getFieldOptions = useCallback((fieldName: string): string[] | null => {
+    const field = annotationConfig?.annotationFields.find((f) => f.fieldName === fieldName);
+    const newColumn = field?.newColumnId
+      ? datasetNewColumns.find((col) => col.id === field.newColumnId)
+      : undefined;
+    if (!newColumn) return null;
+
+    if (newColumn.columnType === 'selectrange' && newColumn.validation) {
+      const min = newColumn.validation.min || 0;
+      const max = newColumn.validation.max || 10;
+      return Array.from({ length: max - min + 1 }, (_, i) => String(min + i));
+    }
+    if (newColumn.columnType === 'select' || newColumn.columnType === 'multiselect') {
+      return newColumn.options || [];
+    }
+    return null;
+  }, [annotationConfig, datasetNewColumns]);
+
+  // Pick an option for a field; multiselect fields toggle it instead
+  const applyFieldOption = useCallback((fieldName: string, option: string) => {
+    const field = annotationConfig?.annotationFields.find((f) => f.fieldName === fieldName);
+    const newColumn = datasetNewColumns.find((col) => col.id === field?.newColumnId);
+
+    if (newColumn?.columnType === 'multiselect') {
+      const current = newColumnData[fieldName] || '';
+      const selected = current.split(',').map((v) => v.trim()).filter((v) => v);
+      const updated = selected.includes(option)
+        ? selected.filter((v) => v !== option)
+        : [...selected, option];
+      handleNewColumnChange(fieldName, updated.join(', '));
+    } else {
+      handleNewColumnChange(fieldName, option);
+    }
+  }, [annotationConfig, datasetNewColumns, newColumnData, handleNewColumnChange]);
+
+  // Annotation label hotkeys apply the label to the active field when it offers that option
+  const labelShortcuts = useMemo<CustomShortcut[]>(() => {
+    const labels: { name: string; hotkey?: string }[] = annotationConfig?.annotationLabels || [];
+    return labels
+      .filter((label) => label.name && label.hotkey)
+      .map((label) => ({
+        id: `label-${label.name}`,
+        keys: label.hotkey!,
+        label: label.name,
+        description: 'Apply label to the focused field',
+        onTrigger: () => {
+          const fieldName = getFocusedFieldName();
+          if (!fieldName) return false;
+          const option = getFieldOptions(fieldName)?.find(
+            (o) => o.toLowerCase() === label.name.toLowerCase()
+          );
+          if (!option) return false;
+          applyFieldOption(fieldName, option);
+        },
+      }));
+  }, [annotationConfig, getFieldOptions, applyFieldOption]);
+
+  const shortcutBindings = useKeyboardShortcuts(
+    {
+      prevRow: () => {
+        navigateTask('prev');
+      },
+      nextRow: () => {
+        navigateTask('next');
+      },
+      nextIncomplete: () => {
+        jumpToNextIncomplete();
+      },
+      saveAndContinue: () => {
+        if (!isSaving) saveAllNewColumnData();
+      },
+      markComplete: () => {
+        // Reviewers approve or reject rows instead of completing them
+        if (mode === 'review') return false;
+        if (currentTask) handleMarkAsCompleted(currentTask.rowIndex);
+      },
+      focusField: ({ number }) => {
+        const fieldElement = document.querySelector<HTMLElement>(
+          `[data-shortcut-field-index="${number}"]`
+        );
+        if (!fieldElement) return false;
+
+        const input = fieldElement.querySelector<HTMLElement>(
+          'textarea, input, button, [role="radio"], [tabindex="0"]'
+        );
+        (input || fieldElement).focus();
+      },
+      pickOption: ({ number }) => {
+        const fieldName = getFocusedFieldName();
+        if (!fieldName || !number) return false;
+        const option = getFieldOptions(fieldName)?.[number - 1];
+        if (option === undefined) return false;
+        applyFieldOption(fieldName, option);
+      },
+      undo: (_match, event) => {
+        if (prefersNativeUndo(event)) return false;
+        handleHistoryStep('undo');
+      },
+      redo: (_match, event) => {
+        if (prefersNativeUndo(event)) return false;
+        handleHistoryStep('redo');
+      },
+      showCheatSheet: () => setShowShortcuts(true),
+    },
+    {
+      enabled: !showShortcuts && !showCompletionModal,
+      customShortcuts: labelShortcuts,
+    }
+  );
 
   // Track the previous task to detect navigation
   const prevTaskRef = useRef<Task | null>(null);
@@ -888,6 +1663,12 @@ export function DatasetAnnotationWorkbench({
     const isNewTask = prevTaskRef.current?.id !== currentTask.id;
     
     if (isNewTask) {
+      // Unsaved edits of the row we left are gone, so they can't be undone either
+      if (prevTaskRef.current) {
+        annotationHistory.discardUnpersisted(datasetId, prevTaskRef.current.rowIndex);
+      }
+      setActiveFieldName(null);
+
       const annotationFields = annotationConfig.annotationFields.filter(
         (field) => (field.isNewColumn || field.isAnnotationField) && field.isVisible !== false
       );
@@ -922,7 +1703,7 @@ export function DatasetAnnotationWorkbench({
 
     // Update the previous task reference
     prevTaskRef.current = currentTask;
-  }, [currentTask, annotationConfig]);
+  }, [currentTask, annotationConfig, datasetId]);
 
   // Effect 2: Initialize annotation fields when config changes
   useEffect(() => {
@@ -965,10 +1746,42 @@ export function DatasetAnnotationWorkbench({
     );
   }
 
+  if ((assignedQueue || mode === 'review') && totalRows === 0) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-center">
+          <Inbox className="h-8 w-8 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600" data-testid="annotation-workbench-empty-queue">
+            {mode === 'review'
+              ? 'No rows are waiting for review.'
+              : 'No rows of this dataset are assigned to you yet.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full bg-gray-50">
+      {/* Row filter and quick navigation */}
+      <RowFilterBar
+        filter={rowFilter}
+        onFilterChange={handleRowFilterChange}
+        newColumnFields={annotationConfig?.annotationFields.filter((field) => field.isNewColumn) || []}
+        matchingCount={filterCounts?.matchingRows ?? null}
+        totalCount={totalRows}
+        onJumpToNextIncomplete={jumpToNextIncomplete}
+        nextIncompleteShortcut={shortcutBindings.nextIncomplete}
+      />
+
       {/* Main Content Area - Resizable Panels */}
-      <div className="flex-1 overflow-hidden" data-testid="annotation-workbench-main-content">
+      <div className="relative flex-1 overflow-hidden" data-testid="annotation-workbench-main-content">
+        {/* Row not yet in the row window: hide the previous row's data while it loads */}
+        {isLoadingRow && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/70" data-testid="annotation-workbench-row-loading">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        )}
         <ResizablePanels
           leftPanel={
             <MetadataDisplay
@@ -977,10 +1790,11 @@ export function DatasetAnnotationWorkbench({
               draggedField={draggedField}
               editingField={editingField}
               expandedTextFields={expandedTextFields}
-              datasetName={datasetName}
+              datasetName={mode === 'review' ? `${datasetName} · Review` : datasetName}
               datasetId={datasetId}
               rowIndex={currentTask?.rowIndex}
               imageAuthConfig={imageAuthConfig}
+              annotationLabels={annotationConfig?.annotationLabels}
               onMetadataChange={setMetadata}
               onDragStart={handleDragStart}
               onDragOver={handleUnifiedDragOver}
@@ -1002,8 +1816,21 @@ export function DatasetAnnotationWorkbench({
               newColumns={datasetNewColumns}
               onNewColumnChange={handleNewColumnChange}
               onSaveAllNewColumnData={saveAllNewColumnData}
-              onExportSelectedColumns={handleExportSelectedColumns}
-              onExportAllColumns={handleExportAllColumns}
+              saveLabel={mode === 'review' ? 'Save Corrections' : undefined}
+              onExportSelectedColumns={() => setPendingExport({
+                label: 'Selected Columns CSV',
+                saveFile: { name: formatExportFileName('selected_columns', datasetName, 'csv'), type: CSV_FILE_TYPE },
+                run: handleExportSelectedColumns,
+              })}
+              onExportAllColumns={() => setPendingExport({
+                label: 'All Columns CSV',
+                saveFile: { name: formatExportFileName('all_columns', datasetName, 'csv'), type: CSV_FILE_TYPE },
+                run: handleExportAllColumns,
+              })}
+              extraExportOptions={extraExportOptions}
+              isExporting={isExporting}
+              exportProgress={exportProgress}
+              onCancelExport={cancelExport}
               isSaving={isSaving}
               datasetId={datasetId}
               rowIndex={currentTask?.rowIndex}
@@ -1014,6 +1841,9 @@ export function DatasetAnnotationWorkbench({
               onAnnotationFieldDragStart={handleDragStart}
               onAnnotationFieldDragOver={handleUnifiedDragOver}
               onAnnotationFieldDrop={(e, targetFieldName) => handleUnifiedDrop(e, targetFieldName, 'annotation')}
+              activeFieldName={activeFieldName}
+              onActivateField={setActiveFieldName}
+              focusFieldShortcut={shortcutBindings.focusField}
             />
           }
           defaultLeftWidth={50}
@@ -1022,15 +1852,99 @@ export function DatasetAnnotationWorkbench({
         />
       </div>
 
+      {/* Review decision and per-field comments; annotators see them once a row was reviewed */}
+      {currentTask && (mode === 'review' || currentRow?.reviewStatus) && (
+        <RowReviewPanel
+          datasetId={datasetId}
+          rowIndex={currentTask.rowIndex}
+          status={currentTask.status}
+          fieldNames={[
+            ...(annotationConfig?.annotationFields || [])
+              .filter((field) => field.isNewColumn)
+              .map((field) => field.fieldName),
+            ...orderedMetadataFields.map((field) => field.fieldName),
+          ]}
+          canReview={mode === 'review'}
+          onReviewed={handleRowReviewed}
+        />
+      )}
+
+      {/* Collapsible change history for the current row */}
+      <RowHistoryPanel
+        datasetId={datasetId}
+        rowIndex={currentTask?.rowIndex}
+        canRestore={user?.role === 'admin'}
+        onRestored={handleHistoryRestored}
+      />
+
       {/* Fixed Footer: Row Navigation */}
       <RowFooter
-        tasks={tasks}
+        getTaskAt={getTaskAt}
         currentTaskIndex={currentTaskIndex}
         onNavigateTask={navigateTask}
         onJumpToRow={jumpToRow}
-        onMarkAsCompleted={handleMarkAsCompleted}
-        completedCount={annotatedTasks.length}
-        totalCount={tasks.length}
+        onMarkAsCompleted={mode === 'review' ? undefined : handleMarkAsCompleted}
+        completedCount={completedCount}
+        completedLabel={mode === 'review' ? 'reviewed' : undefined}
+        totalCount={totalRows}
+        progressTotal={
+          reviewCounts ? reviewCounts.needsReview + reviewCounts.approved + reviewCounts.rejected : undefined
+        }
+        isLoadingRow={isLoadingRow || isSearchingRows}
+        filterCounts={filterCounts}
+        isFilterActive={isRowFilterActive(rowFilter)}
+        pendingSaveCount={queuedSaves.filter((entry) => entry.status === 'pending').length}
+        unresolvedSaveCount={queuedSaves.filter((entry) => entry.status !== 'pending').length}
+        currentRowSaveIssue={
+          queuedSaves.find(
+            (entry) => entry.rowIndex === currentTask?.rowIndex && entry.status !== 'pending',
+          )?.status as 'conflict' | 'failed' | undefined
+        }
+        onResolveSaveIssue={handleResolveSaveIssue}
+        onShowShortcuts={() => setShowShortcuts(true)}
+        canUndo={!!currentTask && annotationHistory.canUndo(datasetId, currentTask.rowIndex)}
+        canRedo={!!currentTask && annotationHistory.canRedo(datasetId, currentTask.rowIndex)}
+        onUndo={() => handleHistoryStep('undo')}
+        onRedo={() => handleHistoryStep('redo')}
+      />
+
+      <KeyboardShortcutsModal
+        isOpen={showShortcuts}
+        onClose={() => setShowShortcuts(false)}
+        bindings={shortcutBindings}
+        extraShortcuts={labelShortcuts}
+      />
+
+      <ExportDialog
+        open={!!pendingExport}
+        onOpenChange={(open) => !open && setPendingExport(null)}
+        datasetId={datasetId}
+        formatLabel={pendingExport?.label || ''}
+        readRows={readExportRows}
+        saveFile={pendingExport?.saveFile}
+        columns={getFilterColumns(exportConfig)}
+        onExport={(exportFilter, fileTarget) => {
+          pendingExport?.run(exportFilter, fileTarget);
+          setPendingExport(null);
+        }}
+      />
+
+      <JsonlExportDialog
+        open={showJsonlDialog}
+        onOpenChange={setShowJsonlDialog}
+        fields={getTemplateFields(exportConfig)}
+        onExport={handleExportJsonl}
+      />
+
+      <ExportPresetsDialog
+        open={showPresetsDialog}
+        onOpenChange={setShowPresetsDialog}
+        datasetId={datasetId}
+        annotationConfig={exportConfig}
+        presets={exportPresets}
+        onSave={savePreset}
+        onDelete={deletePreset}
+        onExport={handleExportPreset}
       />
 
 
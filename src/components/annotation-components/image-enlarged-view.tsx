@@ -3,9 +3,21 @@
 import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { ChevronLeft, ChevronRight, X, Save, Check } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, X, Save, Check, Square, Pentagon, Trash2 } from 'lucide-react';
 import Image from 'next/image';
 import { getImageDisplayUrl, getProxiedImageUrl, hasAuthConfigured } from '@/lib/api/image-proxy';
+import { ImageRegion, RegionPoint, RegionShape } from '@/lib/api/annotations';
+import { AnnotationLabel } from '@/lib/api/dataset-annotation-types';
+import { clampPoint, createRegion, getLabelColor, rectangleFromCorners } from '@/lib/image-regions';
+import { cn } from '@/lib/utils';
+import { RegionOverlay } from './region-overlay';
 
 interface ImageMetadata {
   url: string;
@@ -25,6 +37,10 @@ interface ImageEnlargedViewProps {
   onClose: () => void;
   onSelectImage: (index: number) => void;
   onSave: (fieldName: string, images: ImageMetadata[]) => void;
+  // Regions of every image in the field; the view edits those of the current image
+  regions?: ImageRegion[];
+  annotationLabels?: AnnotationLabel[];
+  onRegionsChange?: (regions: ImageRegion[]) => void;
   datasetId?: string;
   imageAuthConfig?: {
     isPrivate: boolean;
@@ -52,6 +68,9 @@ export function ImageEnlargedView({
   onClose,
   onSelectImage,
   onSave,
+  regions = [],
+  annotationLabels = [],
+  onRegionsChange,
   datasetId,
   imageAuthConfig,
   cacheVersion,
@@ -67,6 +86,14 @@ export function ImageEnlargedView({
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [isMagnifierActive, setIsMagnifierActive] = useState(false);
   const imageRef = useRef<HTMLImageElement>(null);
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const finishPolygonRef = useRef<() => void>(() => {});
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [drawingTool, setDrawingTool] = useState<RegionShape | null>(null);
+  const [activeLabel, setActiveLabel] = useState('');
+  const [draftPoints, setDraftPoints] = useState<RegionPoint[]>([]);
+  const [isDraggingRectangle, setIsDraggingRectangle] = useState(false);
+  const [highlightedRegionId, setHighlightedRegionId] = useState<string | null>(null);
 
   useEffect(() => {
     // Safety check for selectedIndex bounds
@@ -82,6 +109,39 @@ export function ImageEnlargedView({
     }
   }, [selectedIndex, imageMetadata.length]);
 
+  // A new image needs its own size, and an unfinished shape does not carry over
+  const currentUrl = imageMetadata[currentIndex]?.url;
+  useEffect(() => {
+    setNaturalSize(null);
+    setDraftPoints([]);
+    setIsDraggingRectangle(false);
+  }, [currentUrl]);
+
+  useEffect(() => {
+    if (!activeLabel && annotationLabels.length > 0) {
+      setActiveLabel(annotationLabels[0].name);
+    }
+  }, [activeLabel, annotationLabels]);
+
+  // Escape drops the shape being drawn, Enter closes a polygon
+  useEffect(() => {
+    if (!isOpen || !drawingTool) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setDraftPoints([]);
+        setIsDraggingRectangle(false);
+      } else if (e.key === 'Enter' && drawingTool === 'polygon') {
+        e.preventDefault();
+        finishPolygonRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, drawingTool]);
+
   if (!isOpen || imageMetadata.length === 0) return null;
 
   // Safety check for currentIndex bounds - default to 0 if invalid
@@ -121,9 +181,86 @@ export function ImageEnlargedView({
   }
 
   // Handle successful image load
-  const handleImageLoad = (imageUrl: string) => {
-    // Remove from retrying state since it succeeded
-    // This will be handled by the parent component
+  const handleImageLoad = (imageUrl: string, image?: HTMLImageElement) => {
+    // Retry state is handled by the parent component; keep the size for region overlays
+    if (image?.naturalWidth && image.naturalHeight) {
+      setNaturalSize({ width: image.naturalWidth, height: image.naturalHeight });
+    }
+  };
+
+  const currentRegions = regions.filter((region) => region.imageUrl === currentImage.url);
+
+  const addRegion = (shape: RegionShape, points: RegionPoint[]) => {
+    if (!onRegionsChange || !activeLabel) return;
+    onRegionsChange([
+      ...regions,
+      createRegion(currentImage.url, shape, activeLabel, points, naturalSize ?? undefined),
+    ]);
+  };
+
+  const updateRegionLabel = (regionId: string, label: string) => {
+    onRegionsChange?.(regions.map((region) => (region.id === regionId ? { ...region, label } : region)));
+  };
+
+  const deleteRegion = (regionId: string) => {
+    onRegionsChange?.(regions.filter((region) => region.id !== regionId));
+  };
+
+  const finishPolygon = () => {
+    if (draftPoints.length >= 3) {
+      addRegion('polygon', draftPoints);
+    }
+    setDraftPoints([]);
+  };
+  finishPolygonRef.current = finishPolygon;
+
+  // Pointer position as a fraction of the natural image size
+  const toImagePoint = (e: React.PointerEvent<SVGSVGElement>): RegionPoint | null => {
+    const matrix = overlayRef.current?.getScreenCTM();
+    if (!matrix || !naturalSize) return null;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return clampPoint({ x: point.x / naturalSize.width, y: point.y / naturalSize.height });
+  };
+
+  const handleOverlayPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(e);
+    if (!point || !drawingTool) return;
+
+    if (drawingTool === 'rectangle') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDraftPoints([point, point]);
+      setIsDraggingRectangle(true);
+      return;
+    }
+
+    // Clicking close to the first point closes the polygon
+    const first = draftPoints[0];
+    if (first && draftPoints.length >= 3 && Math.hypot(first.x - point.x, first.y - point.y) < 0.015) {
+      finishPolygon();
+      return;
+    }
+    setDraftPoints([...draftPoints, point]);
+  };
+
+  const handleOverlayPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDraggingRectangle) return;
+    const point = toImagePoint(e);
+    if (point) setDraftPoints(([start]) => [start, point]);
+  };
+
+  const handleOverlayPointerUp = () => {
+    if (!isDraggingRectangle) return;
+    setIsDraggingRectangle(false);
+    const corners = rectangleFromCorners(draftPoints[0], draftPoints[1]);
+    if (corners) addRegion('rectangle', corners);
+    setDraftPoints([]);
+  };
+
+  const toggleDrawingTool = (tool: RegionShape) => {
+    setDrawingTool((current) => (current === tool ? null : tool));
+    setDraftPoints([]);
+    setIsDraggingRectangle(false);
+    setIsMagnifierActive(false);
   };
 
   // Handle image load error with proper retry logic
@@ -161,7 +298,7 @@ export function ImageEnlargedView({
 
   // Mouse event handlers for hover lens effect
   const handleMouseMove = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (imageRef.current) {
+    if (imageRef.current && !drawingTool) {
       const rect = imageRef.current.getBoundingClientRect();
       const x = e.clientX - rect.left;
       const y = e.clientY - rect.top;
@@ -295,15 +432,35 @@ export function ImageEnlargedView({
                     alt={`Image ${currentIndex + 1}`}
                     width={800}
                     height={600}
-                    className="max-w-full max-h-full object-contain cursor-crosshair"
+                    className="w-full h-full object-contain cursor-crosshair"
                     unoptimized={true}
-                    onLoad={() => handleImageLoad(currentImage.url)}
+                    onLoad={(e) => handleImageLoad(currentImage.url, e.currentTarget)}
                     onError={() => handleImageError(currentImage.url)}
                     onMouseMove={handleMouseMove}
                     onMouseEnter={handleMouseEnter}
                     onMouseLeave={handleMouseLeave}
                   />
                   
+                  {/* Regions; the overlay takes pointer input only while a drawing tool is active */}
+                  {naturalSize && (
+                    <RegionOverlay
+                      ref={overlayRef}
+                      regions={currentRegions}
+                      labels={annotationLabels}
+                      width={naturalSize.width}
+                      height={naturalSize.height}
+                      highlightedRegionId={highlightedRegionId}
+                      showLabels
+                      draft={draftPoints.length > 0 && drawingTool
+                        ? { shape: drawingTool, points: draftPoints, label: activeLabel }
+                        : null}
+                      className={drawingTool ? 'cursor-crosshair touch-none' : 'pointer-events-none'}
+                      onPointerDown={handleOverlayPointerDown}
+                      onPointerMove={handleOverlayPointerMove}
+                      onPointerUp={handleOverlayPointerUp}
+                    />
+                  )}
+
                   {/* Hover Lens Magnifier */}
                   {isMagnifierActive && imageRef.current && (
                     (() => {
@@ -425,7 +582,7 @@ export function ImageEnlargedView({
           </div>
 
           {/* Sidebar with controls */}
-          <div className="w-80 space-y-4">
+          <div className="w-80 space-y-4 overflow-y-auto">
             {/* Selection checkbox */}
             <div className="flex items-center gap-2">
               <input
@@ -453,6 +610,114 @@ export function ImageEnlargedView({
               />
             </div>
 
+            {/* Region drawing */}
+            {onRegionsChange && (
+              <div className="space-y-2" data-testid="image-enlarged-view-regions">
+                <label className="text-sm font-medium">Regions</label>
+                {annotationLabels.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    This dataset has no annotation labels, so regions cannot be drawn.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-1">
+                      {annotationLabels.map((label) => (
+                        <button
+                          key={label.name}
+                          onClick={() => setActiveLabel(label.name)}
+                          className={cn(
+                            'flex items-center gap-1 px-2 py-1 rounded border text-xs',
+                            activeLabel === label.name ? 'border-gray-900 bg-gray-100' : 'border-gray-200 hover:bg-gray-50'
+                          )}
+                          title={label.description}
+                          data-testid={`image-enlarged-view-label-${label.name}`}
+                        >
+                          <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: label.color }} />
+                          {label.name}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant={drawingTool === 'rectangle' ? 'default' : 'outline'}
+                        onClick={() => toggleDrawingTool('rectangle')}
+                        data-testid="image-enlarged-view-rectangle-tool"
+                      >
+                        <Square className="h-4 w-4 mr-1" />
+                        Rectangle
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={drawingTool === 'polygon' ? 'default' : 'outline'}
+                        onClick={() => toggleDrawingTool('polygon')}
+                        data-testid="image-enlarged-view-polygon-tool"
+                      >
+                        <Pentagon className="h-4 w-4 mr-1" />
+                        Polygon
+                      </Button>
+                    </div>
+                    {drawingTool === 'polygon' && (
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>Click to add points, Enter or click the first point to close.</span>
+                        {draftPoints.length >= 3 && (
+                          <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={finishPolygon}>
+                            Finish
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {drawingTool === 'rectangle' && (
+                      <p className="text-xs text-gray-500">Drag on the image to draw a rectangle.</p>
+                    )}
+                  </>
+                )}
+
+                {currentRegions.length > 0 && (
+                  <ul className="space-y-1">
+                    {currentRegions.map((region, index) => (
+                      <li
+                        key={region.id}
+                        className="flex items-center gap-2 text-sm"
+                        onMouseEnter={() => setHighlightedRegionId(region.id)}
+                        onMouseLeave={() => setHighlightedRegionId(null)}
+                        data-testid={`image-enlarged-view-region-${index}`}
+                      >
+                        <span
+                          className="h-3 w-3 rounded-sm shrink-0"
+                          style={{ backgroundColor: getLabelColor(annotationLabels, region.label) }}
+                        />
+                        <span className="text-xs text-gray-500 w-16 shrink-0">{region.shape}</span>
+                        <Select value={region.label} onValueChange={(label) => updateRegionLabel(region.id, label)}>
+                          <SelectTrigger className="h-7 flex-1 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {annotationLabels
+                              .concat(annotationLabels.some((label) => label.name === region.label)
+                                ? []
+                                : [{ name: region.label, color: '' }])
+                              .map((label) => (
+                                <SelectItem key={label.name} value={label.name}>
+                                  {label.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <button
+                          onClick={() => deleteRegion(region.id)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete region"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {/* Save button */}
             <div className="pt-2">
               <Button
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import Image from 'next/image';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
@@ -8,8 +8,12 @@ import { Button } from '@/components/ui/button';
 import { Save } from 'lucide-react';
 import { useToast } from '@/components/ui/toast';
 import { ImageEnlargedView } from './image-enlarged-view';
-import { AnnotationsAPI } from '@/lib/api/annotations';
+import { RegionOverlay } from './region-overlay';
+import { AnnotationsAPI, ImageFieldAnnotation, ImageRegion } from '@/lib/api/annotations';
+import { AnnotationLabel } from '@/lib/api/dataset-annotation-types';
 import { getImageDisplayUrl, getProxiedImageUrl, hasAuthConfigured } from '@/lib/api/image-proxy';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { annotationHistory } from '@/lib/annotation-history';
 
 interface ImageMetadata {
   url: string;
@@ -33,6 +37,8 @@ interface ImageThumbnailsProps {
     password?: string;
   };
   cacheVersion?: string | number; // Cache-busting version (dataset updatedAt timestamp)
+  // Labels offered when drawing regions in the enlarged view
+  annotationLabels?: AnnotationLabel[];
 }
 
 export function ImageThumbnails({
@@ -46,10 +52,14 @@ export function ImageThumbnails({
   fieldName,
   imageAuthConfig,
   cacheVersion,
+  annotationLabels = [],
 }: ImageThumbnailsProps) {
   const { showToast } = useToast();
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [imageMetadata, setImageMetadata] = useState<ImageMetadata[]>([]);
+  const [regions, setRegions] = useState<ImageRegion[]>([]);
+  // Natural image sizes, needed to place region overlays
+  const [naturalSizes, setNaturalSizes] = useState<Map<string, { width: number; height: number }>>(new Map());
   const [showEnlargedView, setShowEnlargedView] = useState(false);
   const [enlargedIndex, setEnlargedIndex] = useState(-1);
   const [failedImageUrls, setFailedImageUrls] = useState<Set<string>>(new Set());
@@ -57,7 +67,7 @@ export function ImageThumbnails({
   const [imageErrors, setImageErrors] = useState<Map<string, string>>(new Map());
   const [hasShownAuthError, setHasShownAuthError] = useState(false);
   const [retryingUrls, setRetryingUrls] = useState<Set<string>>(new Set());
-
+  const containerRef = useRef<HTMLDivElement>(null);
 
   // Memoize URL parsing to prevent unnecessary recalculations
   const parsedUrls = useMemo(() => {
@@ -92,6 +102,7 @@ export function ImageThumbnails({
       order: index,
     }));
     setImageMetadata(normalized);
+    setRegions([]);
 
     const loadExistingAnnotations = async () => {
       if (!datasetId || rowIndex === undefined || !fieldName || parsedUrls.length === 0) {
@@ -121,6 +132,9 @@ export function ImageThumbnails({
           
           setImageMetadata(mergedMetadata);
         }
+        if (annotation?.regions) {
+          setRegions(annotation.regions.filter((region) => parsedUrls.includes(region.imageUrl)));
+        }
       } catch (error) {
         console.log('ℹ️ No existing annotations found or error loading:', error);
       }
@@ -160,12 +174,41 @@ export function ImageThumbnails({
     setEnlargedIndex(-1);
   };
 
+  // Record local image edits for undo; they count as persisted once saved
+  const recordImageEdit = (after: ImageFieldAnnotation, coalesceKey?: string) => {
+    if (!datasetId || rowIndex === undefined || !fieldName) return;
+    annotationHistory.record({
+      kind: 'imageMetadata',
+      datasetId,
+      rowIndex,
+      fieldName,
+      before: { images: imageMetadata, regions },
+      after,
+      persisted: false,
+      coalesceKey,
+    });
+  };
+
+  // Apply undo/redo steps targeting this field
+  useEffect(() => {
+    return annotationHistory.subscribe((event) => {
+      if (event.type !== 'applied' || event.entry.kind !== 'imageMetadata') return;
+      const { entry, direction } = event;
+      if (entry.datasetId !== datasetId || entry.rowIndex !== rowIndex || entry.fieldName !== fieldName) return;
+
+      const value = direction === 'undo' ? entry.before : entry.after;
+      setImageMetadata(value.images);
+      setRegions(value.regions);
+    });
+  }, [datasetId, rowIndex, fieldName]);
+
   const handleCaptionChange = (index: number, caption: string) => {
     const updatedMetadata = imageMetadata.map((img, i) => 
       i === index 
         ? { ...img, caption, isSelected: caption.trim() !== '' ? true : img.isSelected }
         : img
     );
+    recordImageEdit({ images: updatedMetadata, regions }, `caption:${fieldName}:${index}`);
     setImageMetadata(updatedMetadata);
   };
 
@@ -173,9 +216,31 @@ export function ImageThumbnails({
     const updatedMetadata = imageMetadata.map((img, i) => 
       i === index ? { ...img, isSelected: checked } : img
     );
+    recordImageEdit({ images: updatedMetadata, regions });
     setImageMetadata(updatedMetadata);
   };
 
+  const handleRegionsChange = (updatedRegions: ImageRegion[]) => {
+    recordImageEdit({ images: imageMetadata, regions: updatedRegions });
+    setRegions(updatedRegions);
+  };
+
+  // Toggle the Nth image when focus is inside this field or its shortcut-active annotation field
+  useKeyboardShortcuts({
+    toggleImage: ({ number }) => {
+      const container = containerRef.current;
+      if (!container || !number) return false;
+
+      const isTarget =
+        container.contains(document.activeElement) ||
+        container.closest('[data-shortcut-active="true"]') !== null;
+      const index = number - 1;
+      if (!isTarget || index >= imageMetadata.length) return false;
+
+      handleSelectionChange(index, !imageMetadata[index].isSelected);
+    },
+  });
+
   // Handle cancel retry
   const handleCancelRetry = (imageUrl: string) => {
     console.log('Cancelling retry for:', imageUrl);
@@ -260,8 +325,12 @@ export function ImageThumbnails({
   };
 
   // Handle successful image load
-  const handleImageLoad = (imageUrl: string) => {
+  const handleImageLoad = (imageUrl: string, image?: HTMLImageElement) => {
     console.log('Image loaded successfully:', imageUrl);
+    if (image?.naturalWidth && image.naturalHeight) {
+      const size = { width: image.naturalWidth, height: image.naturalHeight };
+      setNaturalSizes(prev => new Map([...prev, [imageUrl, size]]));
+    }
     // Remove from retrying state since it succeeded
     setRetryingUrls(prev => {
       const newSet = new Set(prev);
@@ -344,15 +413,18 @@ export function ImageThumbnails({
         rowIndex,
         fieldName,
         images,
+        regions,
         isAiGenerated: false,
       });
 
       console.log('✅ Saved annotation:', response);
+      annotationHistory.markPersisted(datasetId, rowIndex, 'imageMetadata', fieldName);
       
       showToast({
         type: 'success',
         title: 'Saved',
         description: `Successfully saved ${images.filter(img => img.isSelected).length} selected image annotation(s)`
+          + (regions.length > 0 ? ` and ${regions.length} region(s)` : '')
       });
       
       setImageMetadata(images); // Update local state
@@ -375,7 +447,7 @@ export function ImageThumbnails({
   }
 
   return (
-    <div className={`space-y-2 ${className}`}>
+    <div ref={containerRef} className={`space-y-2 ${className}`}>
       <Label className="text-sm font-medium">
         📸 {columnName ? `${columnName} Images` : 'Images'} ({parsedUrls.length})
       </Label>
@@ -422,6 +494,18 @@ export function ImageThumbnails({
           }
           
           const errorMessage = imageErrors.get(trimmedUrl);
+          const imageRegions = regions.filter((region) => region.imageUrl === trimmedUrl);
+          const naturalSize = naturalSizes.get(trimmedUrl);
+          const regionOverlay = imageRegions.length > 0 && naturalSize ? (
+            <RegionOverlay
+              regions={imageRegions}
+              labels={annotationLabels}
+              width={naturalSize.width}
+              height={naturalSize.height}
+              fit="cover"
+              className="pointer-events-none"
+            />
+          ) : null;
     
 
           return (
@@ -488,17 +572,20 @@ export function ImageThumbnails({
                       </div>
                     </div>
                   ) : (
-                    <Image
-                      key={`${trimmedUrl}-${shouldUseProxy ? 'proxy' : 'direct'}-${isRetrying ? 'retry' : 'normal'}`}
-                      src={displayUrl}
-                      alt={`Image ${index + 1}`}
-                      width={100}
-                      height={80}
-                      className="w-full h-16 object-cover"
-                      unoptimized={true}
-                      onLoad={() => handleImageLoad(trimmedUrl)}
-                      onError={() => handleImageError(trimmedUrl, shouldUseProxy)}
-                    />
+                    <div className="relative">
+                      <Image
+                        key={`${trimmedUrl}-${shouldUseProxy ? 'proxy' : 'direct'}-${isRetrying ? 'retry' : 'normal'}`}
+                        src={displayUrl}
+                        alt={`Image ${index + 1}`}
+                        width={100}
+                        height={80}
+                        className="w-full h-16 object-cover"
+                        unoptimized={true}
+                        onLoad={(e) => handleImageLoad(trimmedUrl, e.currentTarget)}
+                        onError={() => handleImageError(trimmedUrl, shouldUseProxy)}
+                      />
+                      {regionOverlay}
+                    </div>
                   )}
                   {/* Simple number indicator */}
                   <div className="absolute top-1 left-1 bg-black bg-opacity-70 text-white text-xs px-1 py-0.5 rounded">
@@ -577,17 +664,20 @@ export function ImageThumbnails({
                           </div>
                         </div>
                       ) : (
-                        <Image
-                          key={`${trimmedUrl}-${shouldUseProxy ? 'proxy' : 'direct'}-${isRetrying ? 'retry' : 'normal'}`}
-                          src={displayUrl}
-                          alt={`Image ${index + 1}`}
-                          width={100}
-                          height={80}
-                          className="w-full h-16 object-cover rounded border"
-                          unoptimized={true}
-                          onLoad={() => handleImageLoad(trimmedUrl)}
-                          onError={() => handleImageError(trimmedUrl, shouldUseProxy)}
-                        />
+                        <div className="relative">
+                          <Image
+                            key={`${trimmedUrl}-${shouldUseProxy ? 'proxy' : 'direct'}-${isRetrying ? 'retry' : 'normal'}`}
+                            src={displayUrl}
+                            alt={`Image ${index + 1}`}
+                            width={100}
+                            height={80}
+                            className="w-full h-16 object-cover rounded border"
+                            unoptimized={true}
+                            onLoad={(e) => handleImageLoad(trimmedUrl, e.currentTarget)}
+                            onError={() => handleImageError(trimmedUrl, shouldUseProxy)}
+                          />
+                          {regionOverlay}
+                        </div>
                       )}
                     </div>
                   </div>
@@ -640,6 +730,9 @@ export function ImageThumbnails({
         onClose={handleCloseEnlargedView}
         onSelectImage={handleEnlargedImageSelect}
         onSave={handleSaveAnnotations}
+        regions={regions}
+        annotationLabels={annotationLabels}
+        onRegionsChange={handleRegionsChange}
         datasetId={datasetId}
         imageAuthConfig={imageAuthConfig}
         cacheVersion={cacheVersion}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Keyboard, RotateCcw, Save } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+import {
+  findShortcutConflicts,
+  formatShortcut,
+  resolveShortcutBindings,
+  ShortcutId,
+  ShortcutOverrides,
+  shortcutFromEvent,
+  SHORTCUT_DEFINITIONS,
+} from '@/lib/keyboard-shortcuts';
+
+/**
+ * Profile section for overriding annotation workbench shortcuts.
+ * Only bindings that differ from the defaults are stored on the profile.
+ */
+export function KeyboardShortcutsSettings() {
+  const { user, updateKeyboardShortcuts } = useAuth();
+  const { showToast } = useToast();
+  const [overrides, setOverrides] = useState<ShortcutOverrides>(
+    () => (user?.keyboardShortcuts || {}) as ShortcutOverrides
+  );
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides]);
+  const conflictingIds = useMemo(
+    () => new Set(findShortcutConflicts(bindings).flat()),
+    [bindings]
+  );
+
+  // Capture the next key combination for the shortcut being recorded
+  useEffect(() => {
+    if (!recordingId) return;
+    const definition = SHORTCUT_DEFINITIONS.find((d) => d.id === recordingId);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+
+      const keys = shortcutFromEvent(event, definition?.numbered);
+      if (!keys) return;
+
+      setOverrides((prev) => {
+        const next = { ...prev };
+        if (keys === definition?.defaultKeys) {
+          delete next[recordingId];
+        } else {
+          next[recordingId] = keys;
+        }
+        return next;
+      });
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId]);
+
+  const handleReset = (id: ShortcutId) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (conflictingIds.size > 0) {
+      showToast({
+        type: 'error',
+        title: 'Conflicting Shortcuts',
+        description: 'Some shortcuts share the same keys. Change them before saving.',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await updateKeyboardShortcuts(overrides as Record<string, string>);
+    setIsSaving(false);
+
+    showToast(
+      result.success
+        ? {
+            type: 'success',
+            title: 'Shortcuts Saved',
+            description: 'Your keyboard shortcuts have been updated.',
+          }
+        : {
+            type: 'error',
+            title: 'Failed to Save Shortcuts',
+            description: result.error || 'Please try again.',
+          }
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6" data-testid="keyboard-shortcuts-settings">
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2 pb-2 border-b border-gray-100">
+          <Keyboard className="h-5 w-5 text-blue-600" />
+          <h2 className="text-lg font-medium text-gray-900">Keyboard Shortcuts</h2>
+        </div>
+        <p className="text-sm text-gray-500">
+          Click a shortcut and press the new key combination. Shortcuts marked 1…9 use the number keys.
+        </p>
+
+        <div className="divide-y divide-gray-100">
+          {SHORTCUT_DEFINITIONS.map((definition) => {
+            const isRecording = recordingId === definition.id;
+            const isOverridden = overrides[definition.id] !== undefined;
+
+            return (
+              <div key={definition.id} className="flex items-center justify-between py-2">
+                <div>
+                  <div className="text-sm text-gray-900">{definition.label}</div>
+                  <div className="text-xs text-gray-500">{definition.description}</div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setRecordingId(isRecording ? null : definition.id)}
+                    data-testid={`keyboard-shortcut-record-${definition.id}`}
+                    className={cn(
+                      'min-w-[120px] px-2 py-1 text-xs font-mono rounded border',
+                      isRecording
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : conflictingIds.has(definition.id)
+                          ? 'border-red-300 bg-red-50 text-red-700'
+                          : 'border-gray-300 bg-gray-50 text-gray-700 hover:bg-gray-100'
+                    )}
+                  >
+                    {isRecording ? 'Press keys...' : formatShortcut(bindings[definition.id])}
+                  </button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleReset(definition.id)}
+                    disabled={!isOverridden}
+                    title="Reset to default"
+                    className="h-7 w-7"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {conflictingIds.size > 0 && (
+          <p className="text-sm text-red-600">Shortcuts highlighted in red share the same keys.</p>
+        )}
+
+        <div className="flex justify-end pt-4 border-t border-gray-100">
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            data-testid="keyboard-shortcuts-save-button"
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save Shortcuts'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
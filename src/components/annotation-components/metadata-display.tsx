@@ -13,7 +13,7 @@ import { ImageThumbnails } from './image-thumbnails';
 import { MarkdownField } from './markdown-field';
 import { NumberField } from './number-field';
 import { cn } from '@/lib/utils';
-import { AnnotationField } from '@/lib/api/dataset-annotation-types';
+import { AnnotationField, AnnotationLabel } from '@/lib/api/dataset-annotation-types';
 import { DragDropHelper } from '@/lib/drag-drop-helper';
 
 
@@ -31,6 +31,8 @@ interface MetadataDisplayProps {
     username?: string;
     password?: string;
   };
+  // Labels for regions drawn on image fields
+  annotationLabels?: AnnotationLabel[];
   onMetadataChange: (metadata: Record<string, any>) => void;
   onDragStart: (e: React.DragEvent, fieldName: string) => void;
   onDragOver: (e: React.DragEvent) => void;
@@ -43,6 +45,8 @@ interface MetadataDisplayProps {
   onNavigateBack: () => void;
   onPanelDragOver?: (e: React.DragEvent) => void;
   onDropFromAnnotation?: () => void;
+  // Show the row without edit or reorder controls (e.g. while adjudicating)
+  readOnly?: boolean;
 }
 
 
@@ -85,6 +89,7 @@ export function MetadataDisplay({
   datasetId,
   rowIndex,
   imageAuthConfig,
+  annotationLabels,
   onMetadataChange,
   onDragStart,
   onDragOver,
@@ -97,6 +102,7 @@ export function MetadataDisplay({
   onNavigateBack,
   onPanelDragOver,
   onDropFromAnnotation,
+  readOnly = false,
 }: MetadataDisplayProps) {
   return (
     <div 
@@ -130,7 +136,7 @@ export function MetadataDisplay({
           Data Fields
         </h2>
         <p className="text-sm text-gray-500 mt-1">
-          Drag fields to reorder • Click edit to modify content
+          {readOnly ? 'Source data of this row' : 'Drag fields to reorder • Click edit to modify content'}
         </p>
       </div>
 
@@ -140,7 +146,7 @@ export function MetadataDisplay({
           .map((field) => {
           // Use DragDropHelper to determine if field can be dragged
           const dragValidation = DragDropHelper.canDragField(field, 'metadata');
-          const isDraggable = dragValidation.canDrag;
+          const isDraggable = !readOnly && dragValidation.canDrag;
           // Check drag restrictions for validation
           
           return (
@@ -163,7 +169,9 @@ export function MetadataDisplay({
           >
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center space-x-2">
-                <GripVertical className="h-4 w-4 text-gray-400" data-testid={`metadata-field-drag-handle-${field.csvColumnName}`} />
+                {!readOnly && (
+                  <GripVertical className="h-4 w-4 text-gray-400" data-testid={`metadata-field-drag-handle-${field.csvColumnName}`} />
+                )}
                 <Label className="text-sm font-medium text-gray-700">
                   {field.fieldName}
                   {field.isRequired && (
@@ -171,7 +179,7 @@ export function MetadataDisplay({
                   )}
                 </Label>
               </div>
-              {!field.isPrimaryKey && (
+              {!field.isPrimaryKey && !readOnly && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -312,6 +320,7 @@ export function MetadataDisplay({
                       rowIndex={rowIndex}
                       fieldName={field.csvColumnName || field.fieldName}
                       imageAuthConfig={imageAuthConfig}
+                      annotationLabels={annotationLabels}
                     />
                   )}
 
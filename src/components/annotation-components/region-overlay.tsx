@@ -0,0 +1,116 @@
+'use client';
+
+import { forwardRef } from 'react';
+import { ImageRegion } from '@/lib/api/annotations';
+import { AnnotationLabel } from '@/lib/api/dataset-annotation-types';
+import { getLabelColor, toSvgPoints } from '@/lib/image-regions';
+import { cn } from '@/lib/utils';
+
+interface RegionOverlayProps {
+  regions: ImageRegion[];
+  labels: AnnotationLabel[];
+  // Natural size of the image; regions scale to it through the viewBox
+  width: number;
+  height: number;
+  // How the underlying image is fitted ('contain' or 'cover'), so the overlay matches it
+  fit?: 'contain' | 'cover';
+  highlightedRegionId?: string | null;
+  showLabels?: boolean;
+  // Region being drawn, not yet saved
+  draft?: Pick<ImageRegion, 'shape' | 'points' | 'label'> | null;
+  className?: string;
+  onPointerDown?: (e: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerMove?: (e: React.PointerEvent<SVGSVGElement>) => void;
+  onPointerUp?: (e: React.PointerEvent<SVGSVGElement>) => void;
+  onDoubleClick?: (e: React.MouseEvent<SVGSVGElement>) => void;
+}
+
+export const RegionOverlay = forwardRef<SVGSVGElement, RegionOverlayProps>(function RegionOverlay(
+  {
+    regions,
+    labels,
+    width,
+    height,
+    fit = 'contain',
+    highlightedRegionId,
+    showLabels = false,
+    draft,
+    className,
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onDoubleClick,
+  },
+  ref
+) {
+  // Stroke widths are in viewBox units, so scale them with the image
+  const stroke = Math.max(width, height) / 250;
+
+  return (
+    <svg
+      ref={ref}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet'}
+      className={cn('absolute inset-0 w-full h-full', className)}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onDoubleClick={onDoubleClick}
+      data-testid="region-overlay"
+    >
+      {regions.map((region) => {
+        const color = getLabelColor(labels, region.label);
+        const isHighlighted = region.id === highlightedRegionId;
+        const anchor = region.points[0];
+
+        return (
+          <g key={region.id}>
+            <polygon
+              points={toSvgPoints(region, width, height)}
+              fill={color}
+              fillOpacity={isHighlighted ? 0.35 : 0.15}
+              stroke={color}
+              strokeWidth={isHighlighted ? stroke * 2 : stroke}
+            />
+            {showLabels && anchor && (
+              <text
+                x={anchor.x * width}
+                y={anchor.y * height}
+                dy={-stroke * 2}
+                fill={color}
+                fontSize={stroke * 8}
+                fontWeight={600}
+                paintOrder="stroke"
+                stroke="#fff"
+                strokeWidth={stroke}
+              >
+                {region.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {draft && draft.points.length > 0 && (
+        draft.shape === 'polygon' && draft.points.length < 3 ? (
+          <polyline
+            points={toSvgPoints(draft, width, height)}
+            fill="none"
+            stroke={getLabelColor(labels, draft.label)}
+            strokeWidth={stroke}
+            strokeDasharray={`${stroke * 3} ${stroke * 2}`}
+          />
+        ) : (
+          <polygon
+            points={toSvgPoints(draft, width, height)}
+            fill={getLabelColor(labels, draft.label)}
+            fillOpacity={0.1}
+            stroke={getLabelColor(labels, draft.label)}
+            strokeWidth={stroke}
+            strokeDasharray={`${stroke * 3} ${stroke * 2}`}
+          />
+        )
+      )}
+    </svg>
+  );
+});
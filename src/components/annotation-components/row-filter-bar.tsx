@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Filter, Loader2, SkipForward, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AnnotationField } from '@/lib/api/dataset-annotation-types';
+import { formatShortcut } from '@/lib/keyboard-shortcuts';
+import { DEFAULT_ROW_FILTER, isRowFilterActive, RowFilter, RowFilterMode } from '@/lib/row-filter';
+
+interface RowFilterBarProps {
+  filter: RowFilter;
+  onFilterChange: (filter: RowFilter) => void;
+  // New columns offered by the "column is empty" mode
+  newColumnFields: AnnotationField[];
+  // Rows matching the active filter, null while unknown
+  matchingCount: number | null;
+  totalCount: number;
+  isCounting?: boolean;
+  onJumpToNextIncomplete: () => void;
+  nextIncompleteShortcut?: string;
+}
+
+const FILTER_MODE_LABELS: Record<RowFilterMode, string> = {
+  all: 'All rows',
+  incomplete: 'Incomplete only',
+  completed: 'Completed only',
+  emptyField: 'Column is empty',
+  search: 'Metadata contains',
+};
+
+export function RowFilterBar({
+  filter,
+  onFilterChange,
+  newColumnFields,
+  matchingCount,
+  totalCount,
+  isCounting = false,
+  onJumpToNextIncomplete,
+  nextIncompleteShortcut,
+}: RowFilterBarProps) {
+  const [searchText, setSearchText] = useState(filter.query || '');
+
+  // Debounce search input so every keystroke does not trigger a count request
+  useEffect(() => {
+    if (filter.mode !== 'search' || searchText === (filter.query || '')) return;
+
+    const timeoutId = setTimeout(() => {
+      onFilterChange({ mode: 'search', query: searchText });
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchText, filter, onFilterChange]);
+
+  const handleModeChange = (mode: RowFilterMode) => {
+    if (mode === 'emptyField') {
+      onFilterChange({ mode, fieldName: newColumnFields[0]?.fieldName });
+    } else if (mode === 'search') {
+      onFilterChange({ mode, query: searchText });
+    } else {
+      onFilterChange({ mode });
+    }
+  };
+
+  const isActive = isRowFilterActive(filter);
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-white border-b border-gray-200" data-testid="row-filter-bar">
+      <Filter className="h-4 w-4 text-gray-500" />
+
+      <Select value={filter.mode} onValueChange={(value) => handleModeChange(value as RowFilterMode)}>
+        <SelectTrigger className="h-8 w-[180px] text-sm" data-testid="row-filter-mode-select">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FILTER_MODE_LABELS) as RowFilterMode[])
+            .filter((mode) => mode !== 'emptyField' || newColumnFields.length > 0)
+            .map((mode) => (
+              <SelectItem key={mode} value={mode}>
+                {FILTER_MODE_LABELS[mode]}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+
+      {filter.mode === 'emptyField' && (
+        <Select
+          value={filter.fieldName || ''}
+          onValueChange={(fieldName) => onFilterChange({ mode: 'emptyField', fieldName })}
+        >
+          <SelectTrigger className="h-8 w-[200px] text-sm" data-testid="row-filter-field-select">
+            <SelectValue placeholder="Choose column..." />
+          </SelectTrigger>
+          <SelectContent>
+            {newColumnFields.map((field) => (
+              <SelectItem key={field.fieldName} value={field.fieldName}>
+                {field.fieldName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {filter.mode === 'search' && (
+        <Input
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder="Search metadata..."
+          className="h-8 w-[240px] text-sm"
+          data-testid="row-filter-search-input"
+        />
+      )}
+
+      {isActive && (
+        <>
+          <span className="text-xs text-gray-600" data-testid="row-filter-match-count">
+            {isCounting || matchingCount === null ? (
+              <Loader2 className="h-3 w-3 animate-spin inline" />
+            ) : (
+              `${matchingCount} of ${totalCount} rows`
+            )}
+          </span>
+          <button
+            onClick={() => {
+              setSearchText('');
+              onFilterChange(DEFAULT_ROW_FILTER);
+            }}
+            className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+            data-testid="row-filter-clear-button"
+            title="Clear filter"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </>
+      )}
+
+      <div className="ml-auto">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onJumpToNextIncomplete}
+          data-testid="row-filter-next-incomplete-button"
+          title={nextIncompleteShortcut ? `Next incomplete row (${formatShortcut(nextIncompleteShortcut)})` : 'Next incomplete row'}
+          className="h-8"
+        >
+          <SkipForward className="h-4 w-4 mr-1" />
+          Next Incomplete
+        </Button>
+      </div>
+    </div>
+  );
+}
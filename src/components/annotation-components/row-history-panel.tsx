@@ -0,0 +1,270 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, History, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { useToast } from '@/components/ui/toast';
+import { annotationSaveQueue } from '@/lib/annotation-save-queue';
+import { RestoreRowValueResponse, RowChangeEvent, RowHistoryAPI } from '@/lib/api/row-history';
+import { cn } from '@/lib/utils';
+
+interface RowHistoryPanelProps {
+  datasetId: string;
+  rowIndex?: number;
+  // Admins can restore the value a field had before a change
+  canRestore?: boolean;
+  onRestored?: (event: RowChangeEvent, response: RestoreRowValueResponse) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  annotation: 'Annotation',
+  metadata: 'Metadata',
+  image: 'Images',
+  completion: 'Completion',
+  restore: 'Restore',
+  import: 'Import',
+};
+
+// Events fetched per page; older events load on demand
+const HISTORY_PAGE_SIZE = 50;
+
+// Short, readable rendering of a stored value (strings, image lists, objects)
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (Array.isArray(value) && value.every((item) => item && typeof item === 'object' && 'url' in item)) {
+    const selected = value.filter((image) => image.isSelected).length;
+    return `${value.length} image(s), ${selected} selected`;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+export function RowHistoryPanel({
+  datasetId,
+  rowIndex,
+  canRestore = false,
+  onRestored,
+}: RowHistoryPanelProps) {
+  const { showToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<RowChangeEvent[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [confirmingEventId, setConfirmingEventId] = useState<string | null>(null);
+  const [restoringEventId, setRestoringEventId] = useState<string | null>(null);
+  // Bumped on every reload and row change; responses of older requests are dropped
+  const requestIdRef = useRef(0);
+
+  const loadHistory = useCallback(async () => {
+    if (rowIndex === undefined) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    try {
+      const response = await RowHistoryAPI.getRowHistory(datasetId, rowIndex, 1, HISTORY_PAGE_SIZE);
+      if (requestId !== requestIdRef.current) return;
+      setEvents(response.events || []);
+      setTotal(response.total);
+      setPage(1);
+      setTotalPages(response.totalPages);
+    } catch {
+      if (requestId !== requestIdRef.current) return;
+      showToast({
+        type: 'error',
+        title: 'History Unavailable',
+        description: 'Failed to load the change history for this row.',
+      });
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [datasetId, rowIndex, showToast]);
+
+  // Append the next page of older events; events recorded meanwhile shift pages, so repeats are dropped
+  const loadMore = async () => {
+    if (rowIndex === undefined) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const response = await RowHistoryAPI.getRowHistory(datasetId, rowIndex, page + 1, HISTORY_PAGE_SIZE);
+      if (requestId !== requestIdRef.current) return;
+      setEvents((loaded) => {
+        const loadedIds = new Set(loaded.map((event) => event._id));
+        return [...loaded, ...(response.events || []).filter((event) => !loadedIds.has(event._id))];
+      });
+      setTotal(response.total);
+      setPage(page + 1);
+      setTotalPages(response.totalPages);
+    } catch {
+      if (requestId !== requestIdRef.current) return;
+      showToast({
+        type: 'error',
+        title: 'History Unavailable',
+        description: 'Failed to load older changes for this row.',
+      });
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoadingMore(false);
+    }
+  };
+
+  // Load lazily: only while the panel is open, and again when the row changes
+  useEffect(() => {
+    requestIdRef.current++;
+    setEvents([]);
+    setTotal(null);
+    setIsLoading(false);
+    setIsLoadingMore(false);
+    setPage(1);
+    setTotalPages(1);
+    setConfirmingEventId(null);
+    if (isOpen) {
+      loadHistory();
+    }
+  }, [isOpen, loadHistory]);
+
+  // Saves of this row create new events on the server
+  useEffect(() => {
+    if (!isOpen) return;
+    return annotationSaveQueue.subscribe((event) => {
+      if (event.type === 'synced' && event.entry.datasetId === datasetId && event.entry.rowIndex === rowIndex) {
+        loadHistory();
+      }
+    });
+  }, [isOpen, datasetId, rowIndex, loadHistory]);
+
+  const handleRestore = async (event: RowChangeEvent) => {
+    if (rowIndex === undefined) return;
+
+    setRestoringEventId(event._id);
+    try {
+      const response = await RowHistoryAPI.restoreValue(datasetId, rowIndex, event._id);
+      showToast({
+        type: 'success',
+        title: 'Value Restored',
+        description: `"${event.fieldName}" was restored to its previous value.`,
+      });
+      onRestored?.(event, response);
+      await loadHistory();
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Restore Failed',
+        description: error.response?.data?.message || 'Failed to restore the previous value.',
+      });
+    } finally {
+      setRestoringEventId(null);
+      setConfirmingEventId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-200" data-testid="row-history-panel">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+        data-testid="row-history-toggle"
+      >
+        <span className="flex items-center gap-2">
+          <History className="h-4 w-4 text-gray-500" />
+          History
+          {total !== null && <span className="text-xs text-gray-500">({total})</span>}
+        </span>
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="max-h-64 overflow-y-auto px-4 pb-3" data-testid="row-history-list">
+          <div className="flex justify-end mb-1">
+            <button
+              onClick={loadHistory}
+              disabled={isLoading}
+              className="flex items-center text-xs text-gray-500 hover:text-gray-700"
+              data-testid="row-history-refresh"
+            >
+              <RefreshCw className={cn('h-3 w-3 mr-1', isLoading && 'animate-spin')} />
+              Refresh
+            </button>
+          </div>
+
+          {isLoading && events.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No changes recorded for this row.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {events.map((event) => (
+                <li key={event._id} className="py-2 text-sm" data-testid={`row-history-event-${event._id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium text-gray-900 truncate">{event.fieldName}</span>
+                      {event.source && (
+                        <span className="text-xs text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">
+                          {SOURCE_LABELS[event.source] || event.source}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0 text-xs text-gray-500">
+                      <span>
+                        {event.user ? `${event.user.firstName} ${event.user.lastName}` : event.userId}
+                      </span>
+                      <span>{new Date(event.createdAt).toLocaleString()}</span>
+                      {canRestore && (
+                        <button
+                          onClick={() =>
+                            confirmingEventId === event._id
+                              ? handleRestore(event)
+                              : setConfirmingEventId(event._id)
+                          }
+                          disabled={restoringEventId !== null}
+                          className={cn(
+                            'flex items-center px-2 py-0.5 rounded',
+                            confirmingEventId === event._id
+                              ? 'bg-red-50 text-red-700 hover:bg-red-100'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          )}
+                          title="Restore the value before this change"
+                          data-testid={`row-history-restore-${event._id}`}
+                        >
+                          {restoringEventId === event._id ? (
+                            <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                          ) : (
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                          )}
+                          {confirmingEventId === event._id ? 'Confirm restore' : 'Restore'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600 break-words">
+                    <span className="line-through text-red-600">{formatValue(event.oldValue)}</span>
+                    <span className="mx-1">→</span>
+                    <span className="text-green-700">{formatValue(event.newValue)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {events.length > 0 && page < totalPages && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={loadMore}
+                disabled={isLoadingMore || isLoading}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                data-testid="row-history-load-more"
+              >
+                {isLoadingMore && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Load older changes
+                {total !== null && ` (${events.length} of ${total})`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
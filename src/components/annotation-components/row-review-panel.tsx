@@ -0,0 +1,299 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckCircle, ChevronDown, ChevronUp, Loader2, MessageSquare, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/toast';
+import { RowWithCSVInfo } from '@/lib/api/dataset-merged-rows';
+import { ReviewComment, ReviewDecision, RowReviewsAPI } from '@/lib/api/row-reviews';
+import { ROW_STATUS_LABELS, RowStatus } from '@/lib/row-status';
+import { cn } from '@/lib/utils';
+
+interface RowReviewPanelProps {
+  datasetId: string;
+  rowIndex?: number;
+  status: RowStatus;
+  // Fields reviewers can comment on, in display order
+  fieldNames: string[];
+  // Reviewers can comment and approve/reject; annotators only read comments
+  canReview?: boolean;
+  onReviewed?: (decision: ReviewDecision, row: RowWithCSVInfo) => void;
+}
+
+const STATUS_STYLES: Partial<Record<RowStatus, string>> = {
+  needs_review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export function RowReviewPanel({
+  datasetId,
+  rowIndex,
+  status,
+  fieldNames,
+  canReview = false,
+  onReviewed,
+}: RowReviewPanelProps) {
+  const { showToast } = useToast();
+  // Reviewers work from this panel, annotators open it to read feedback
+  const [isOpen, setIsOpen] = useState(canReview || status === 'rejected');
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [commentField, setCommentField] = useState('');
+  const [commentText, setCommentText] = useState('');
+  const [isAddingComment, setIsAddingComment] = useState(false);
+  const [submittingDecision, setSubmittingDecision] = useState<ReviewDecision | null>(null);
+  // Bumped on every reload and row change; responses of older requests are dropped
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (status === 'rejected') setIsOpen(true);
+  }, [status, rowIndex]);
+
+  const loadComments = useCallback(async () => {
+    if (rowIndex === undefined) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    try {
+      const loaded = await RowReviewsAPI.getComments(datasetId, rowIndex);
+      if (requestId === requestIdRef.current) setComments(loaded);
+    } catch {
+      if (requestId !== requestIdRef.current) return;
+      showToast({
+        type: 'error',
+        title: 'Comments Unavailable',
+        description: 'Failed to load review comments for this row.',
+      });
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  }, [datasetId, rowIndex, showToast]);
+
+  useEffect(() => {
+    requestIdRef.current++;
+    setIsLoading(false);
+    setComments([]);
+    setCommentText('');
+    if (isOpen) {
+      loadComments();
+    }
+  }, [isOpen, loadComments]);
+
+  const handleAddComment = async () => {
+    if (rowIndex === undefined || !commentField || !commentText.trim()) return;
+
+    const requestId = requestIdRef.current;
+    setIsAddingComment(true);
+    try {
+      const comment = await RowReviewsAPI.addComment(datasetId, rowIndex, commentField, commentText.trim());
+      if (requestId !== requestIdRef.current) return;
+      setComments((current) => [...current, comment]);
+      setCommentText('');
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Comment Failed',
+        description: error.response?.data?.message || 'Failed to add the comment.',
+      });
+    } finally {
+      setIsAddingComment(false);
+    }
+  };
+
+  const handleDeleteComment = async (comment: ReviewComment) => {
+    if (rowIndex === undefined) return;
+
+    try {
+      await RowReviewsAPI.deleteComment(datasetId, rowIndex, comment._id);
+      setComments((current) => current.filter((item) => item._id !== comment._id));
+    } catch {
+      showToast({
+        type: 'error',
+        title: 'Delete Failed',
+        description: 'Failed to delete the comment.',
+      });
+    }
+  };
+
+  const handleDecision = async (decision: ReviewDecision) => {
+    if (rowIndex === undefined) return;
+
+    // The annotator needs to know what to fix
+    if (decision === 'rejected' && comments.length === 0) {
+      showToast({
+        type: 'info',
+        title: 'Comment Required',
+        description: 'Add at least one comment explaining what needs to change before rejecting.',
+      });
+      return;
+    }
+
+    setSubmittingDecision(decision);
+    try {
+      const response = await RowReviewsAPI.submitReview(datasetId, rowIndex, decision);
+      onReviewed?.(decision, response.row);
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Review Failed',
+        description: error.response?.data?.message || 'Failed to submit the review.',
+      });
+    } finally {
+      setSubmittingDecision(null);
+    }
+  };
+
+  // Comments are grouped by field so each one reads next to what it refers to
+  const commentsByField = fieldNames
+    .concat(comments.map((comment) => comment.fieldName).filter((name) => !fieldNames.includes(name)))
+    .map((fieldName) => ({
+      fieldName,
+      comments: comments.filter((comment) => comment.fieldName === fieldName),
+    }))
+    .filter((group) => group.comments.length > 0);
+
+  return (
+    <div className="bg-white border-t border-gray-200" data-testid="row-review-panel">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center gap-2 text-sm text-gray-700 hover:text-gray-900"
+          data-testid="row-review-toggle"
+        >
+          <MessageSquare className="h-4 w-4 text-gray-500" />
+          Review
+          {comments.length > 0 && <span className="text-xs text-gray-500">({comments.length})</span>}
+          <span
+            className={cn('text-xs px-1.5 py-0.5 rounded', STATUS_STYLES[status] || 'bg-gray-100 text-gray-600')}
+            data-testid="row-review-status"
+          >
+            {ROW_STATUS_LABELS[status]}
+          </span>
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+        </button>
+
+        {canReview && (
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleDecision('rejected')}
+              disabled={submittingDecision !== null || rowIndex === undefined}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              data-testid="row-review-reject-button"
+            >
+              {submittingDecision === 'rejected' ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <XCircle className="h-4 w-4 mr-1" />
+              )}
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleDecision('approved')}
+              disabled={submittingDecision !== null || rowIndex === undefined}
+              className="bg-green-600 hover:bg-green-700 text-white"
+              data-testid="row-review-approve-button"
+            >
+              {submittingDecision === 'approved' ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <CheckCircle className="h-4 w-4 mr-1" />
+              )}
+              Approve
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="max-h-64 overflow-y-auto px-4 pb-3 space-y-3" data-testid="row-review-comments">
+          {isLoading && comments.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : commentsByField.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-2">No review comments on this row.</p>
+          ) : (
+            commentsByField.map((group) => (
+              <div key={group.fieldName}>
+                <p className="text-xs font-medium text-gray-900 mb-1">{group.fieldName}</p>
+                <ul className="space-y-1">
+                  {group.comments.map((comment) => (
+                    <li
+                      key={comment._id}
+                      className="flex items-start justify-between gap-3 text-sm bg-gray-50 rounded px-2 py-1"
+                      data-testid={`row-review-comment-${comment._id}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-gray-800 whitespace-pre-wrap break-words">{comment.text}</p>
+                        <p className="text-xs text-gray-500">
+                          {comment.user ? `${comment.user.firstName} ${comment.user.lastName}` : comment.userId}
+                          {' · '}
+                          {new Date(comment.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                      {canReview && (
+                        <button
+                          onClick={() => handleDeleteComment(comment)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete comment"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+
+          {canReview && (
+            <div className="flex items-start gap-2 pt-2 border-t border-gray-100">
+              <Select value={commentField} onValueChange={setCommentField}>
+                <SelectTrigger className="h-9 w-[180px] text-sm" data-testid="row-review-comment-field">
+                  <SelectValue placeholder="Field..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldNames.map((fieldName) => (
+                    <SelectItem key={fieldName} value={fieldName}>
+                      {fieldName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                placeholder="What needs to change?"
+                className="min-h-[36px] flex-1 resize-none text-sm"
+                rows={1}
+                data-testid="row-review-comment-input"
+              />
+              <Button
+                size="sm"
+                onClick={handleAddComment}
+                disabled={isAddingComment || !commentField || !commentText.trim()}
+                data-testid="row-review-comment-add"
+              >
+                {isAddingComment && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Comment
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -49,6 +49,7 @@ import { usersAPI, UserResponse } from '@/lib/api/users';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ui/toast';
 import { AccessTypeWarningModal } from '@/components/ui/access-type-warning-modal';
+import { RowAssignmentSettings } from './row-assignment-settings';
 
 interface AdminDatasetSettingsProps {
   datasetId: string;
@@ -613,6 +614,12 @@ export function AdminDatasetSettings({ datasetId }: AdminDatasetSettingsProps) {
               )}
             </CardContent>
           </Card>
+
+          {/* Row Assignments Card */}
+          <RowAssignmentSettings
+            datasetId={datasetId}
+            annotators={dataset.accessType === 'shared' ? dataset.sharedWith || [] : []}
+          />
         </div>
 
         {/* Action Buttons */}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { AlertCircle, Gavel, GitCompare, Loader2, RefreshCw, Scale } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fieldSelectionAPI } from '@/lib/api/field-config';
+import { OverlapRowsResponse, RowAssignmentsAPI } from '@/lib/api/row-assignments';
+import {
+  AGREEMENT_METRIC_LABELS,
+  AgreementField,
+  FieldAgreement,
+  collectFieldRatings,
+  computeFieldAgreement,
+  describeKappa,
+  getAgreementFields,
+  normalizeRatingValue,
+} from '@/lib/agreement';
+import { useToast } from '@/components/ui/toast';
+
+interface AgreementReportProps {
+  datasetId: string;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+export function AgreementReport({ datasetId }: AgreementReportProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [fields, setFields] = useState<AgreementField[]>([]);
+  const [overlap, setOverlap] = useState<OverlapRowsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [config, overlapRows] = await Promise.all([
+        fieldSelectionAPI.getDatasetFieldConfig(datasetId),
+        RowAssignmentsAPI.getOverlapRows(datasetId),
+      ]);
+
+      setFields(getAgreementFields(config));
+      setOverlap(overlapRows);
+    } catch {
+      setError('Failed to load agreement data');
+      showToast({
+        title: 'Error',
+        description: 'Failed to load agreement data',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [datasetId, showToast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const agreements = useMemo<FieldAgreement[]>(() => {
+    if (!overlap) return [];
+    return fields.map((field) =>
+      computeFieldAgreement(field.fieldName, field.columnType, collectFieldRatings(field.fieldName, overlap.rows))
+    );
+  }, [fields, overlap]);
+
+  const disagreements = useMemo(() => {
+    if (!overlap) return [];
+    return overlap.rows
+      .map((row) => ({
+        row,
+        fields: agreements.filter((agreement) => agreement.disagreeingRows.includes(row.rowIndex)),
+      }))
+      .filter((entry) => entry.fields.length > 0);
+  }, [agreements, overlap]);
+
+  const annotatorName = (userId: string) => {
+    const annotator = overlap?.annotators.find((item) => item.userId === userId);
+    if (!annotator) return userId;
+    return [annotator.firstName, annotator.lastName].filter(Boolean).join(' ') || annotator.email;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="ml-2 text-gray-600">Loading agreement report...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center p-8">
+        <AlertCircle className="h-16 w-16 mx-auto text-red-300 mb-4" />
+        <p className="text-red-600 mb-4">{error}</p>
+        <Button onClick={loadReport} variant="outline">
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="agreement-report">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Agreement</h1>
+          <p className="text-gray-600 mt-1">
+            Inter-annotator agreement on rows labelled independently by several annotators
+          </p>
+        </div>
+        <Button onClick={loadReport} variant="outline" className="flex items-center gap-2">
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Per-field agreement */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-blue-600" />
+            Agreement by Column
+          </CardTitle>
+          <CardDescription>
+            {overlap?.rows.length || 0} overlapping rows · {overlap?.annotators.length || 0} annotators
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!overlap || overlap.rows.length === 0 || fields.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6" data-testid="agreement-report-empty">
+              No overlapping rows yet. Assign rows with overlap in the admin dataset settings.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Column</th>
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium">Score</th>
+                    <th className="py-2 pr-4 font-medium">Observed agreement</th>
+                    <th className="py-2 pr-4 font-medium">Rows compared</th>
+                    <th className="py-2 font-medium">Disagreements</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {agreements.map((agreement) => (
+                    <tr
+                      key={agreement.fieldName}
+                      className="border-b last:border-0"
+                      data-testid={`agreement-row-${agreement.fieldName}`}
+                    >
+                      <td className="py-2 pr-4">
+                        <span className="font-medium text-gray-900">{agreement.fieldName}</span>
+                        <span className="ml-2 text-xs text-gray-500">{agreement.columnType}</span>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{AGREEMENT_METRIC_LABELS[agreement.metric]}</td>
+                      <td className="py-2 pr-4">
+                        {agreement.score === null ? (
+                          <span className="text-gray-400">—</span>
+                        ) : agreement.metric === 'exact' ? (
+                          <span className="font-medium text-gray-900">{formatPercent(agreement.score)}</span>
+                        ) : (
+                          <span className="font-medium text-gray-900">
+                            {agreement.score.toFixed(2)}
+                            <span className="ml-1 text-xs font-normal text-gray-500">
+                              ({describeKappa(agreement.score)})
+                            </span>
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{formatPercent(agreement.observedAgreement)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{agreement.rowsCompared}</td>
+                      <td
+                        className={cn(
+                          'py-2',
+                          agreement.disagreeingRows.length > 0 ? 'text-red-600 font-medium' : 'text-gray-700'
+                        )}
+                      >
+                        {agreement.disagreeingRows.length}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Disagreeing rows */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-blue-600" />
+            Disagreeing Rows
+          </CardTitle>
+          <CardDescription>Rows where annotators gave different values, for adjudication</CardDescription>
+          {disagreements.length > 0 && (
+            <div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => router.push(`/dataset/${datasetId}/adjudication`)}
+                className="flex items-center gap-2"
+                data-testid="agreement-adjudicate-all-button"
+              >
+                <Gavel className="h-4 w-4" />
+                Adjudicate
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {disagreements.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No disagreements found.</p>
+          ) : (
+            <div className="space-y-3 max-h-[600px] overflow-y-auto" data-testid="agreement-disagreements">
+              {disagreements.map(({ row, fields: disagreeingFields }) => (
+                <div
+                  key={row.rowIndex}
+                  className="p-3 bg-gray-50 rounded-lg border"
+                  data-testid={`agreement-disagreement-${row.rowIndex}`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-900">
+                      Row {row.rowIndex}
+                      {row.adjudicated && (
+                        <span className="ml-2 text-xs font-normal px-1.5 py-0.5 rounded bg-green-100 text-green-800">
+                          Adjudicated
+                        </span>
+                      )}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => router.push(`/dataset/${datasetId}/adjudication?row=${row.rowIndex}`)}
+                      className="h-7 text-blue-600 hover:text-blue-700"
+                      data-testid={`agreement-adjudicate-row-${row.rowIndex}`}
+                    >
+                      {row.adjudicated ? 'Review decision' : 'Adjudicate'}
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    {disagreeingFields.map((field) => (
+                      <div key={field.fieldName} className="text-sm">
+                        <p className="text-xs font-medium text-gray-500">{field.fieldName}</p>
+                        <ul className="mt-1 space-y-0.5">
+                          {row.annotations
+                            .filter((annotation) => annotation.completed)
+                            .map((annotation) => (
+                              <li key={annotation.userId} className="flex gap-2">
+                                <span className="text-gray-500 shrink-0">{annotatorName(annotation.userId)}:</span>
+                                <span className="text-gray-900 break-words">
+                                  {normalizeRatingValue(annotation.values[field.fieldName], field.columnType) || '(empty)'}
+                                </span>
+                              </li>
+                            ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,14 +16,37 @@ import {
   AlertCircle,
   Settings,
   Play,
+  ClipboardCheck,
+  ListChecks,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { CSVImport, CSVImportsAPI } from '@/lib/api/csv-imports';
 import { DatasetMergedRowsAPI, AnnotationProgress } from '@/lib/api/dataset-merged-rows';
 import { fieldSelectionAPI } from '@/lib/api/field-config';
 import { datasetsAPI } from '@/lib/api/datasets';
+import { ReviewQueueCounts, RowReviewsAPI } from '@/lib/api/row-reviews';
+import { canReviewRows } from '@/lib/row-status';
+import { getUnresolvedRows } from '@/lib/import-validation';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ui/toast';
-import { exportSelectedColumnsToCSV, exportAllColumnsToCSV } from '@/lib/dataset-export-helper';
+import {
+  exportSelectedColumnsToCSV,
+  exportAllColumnsToCSV,
+  formatExportFileName,
+  streamDatasetRows,
+} from '@/lib/dataset-export-helper';
+import { CSV_FILE_TYPE, ExportFileTarget, JSONL_FILE_TYPE, pickExportFile } from '@/lib/export-stream';
+import { exportCocoJson, exportPascalVocZip } from '@/lib/image-annotation-export';
+import { exportSelectedColumnsToXlsx } from '@/lib/xlsx-export';
+import { exportToJsonl, getTemplateFields, JsonlTemplate } from '@/lib/jsonl-export';
+import { JsonlExportDialog } from './jsonl-export-dialog';
+import { ExportDialog, PendingExport } from './export-dialog';
+import { ExportRowFilter, getFilterColumns } from '@/lib/export-filter';
+import { exportWithPreset, getPresetSaveFile, PRESET_FORMAT_LABELS, validatePresetColumns } from '@/lib/export-presets';
+import { ExportPreset } from '@/lib/api/export-presets';
+import { ExportPresetsDialog } from './export-presets-dialog';
+import { useExportTask } from '@/hooks/use-export-task';
+import { useExportPresets } from '@/hooks/use-export-presets';
 
 interface DataOverviewProps {
   datasetId: string;
@@ -39,6 +62,7 @@ export function DataOverview({
   className,
 }: DataOverviewProps) {
   const router = useRouter();
+  const { user } = useAuth();
   const [csvImports, setCsvImports] = useState<CSVImport[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -48,10 +72,14 @@ export function DataOverview({
   const [checkingMergedRows, setCheckingMergedRows] = useState(false);
   const [annotationProgress, setAnnotationProgress] = useState<AnnotationProgress | null>(null);
   const [checkingAnnotationProgress, setCheckingAnnotationProgress] = useState(false);
-  const [datasetData, setDatasetData] = useState<any>(null);
   const [annotationConfig, setAnnotationConfig] = useState<any>(null);
-  const [isExporting, setIsExporting] = useState(false);
+  const { isExporting, progress: exportProgress, runExport, cancelExport } = useExportTask();
+  const [showJsonlDialog, setShowJsonlDialog] = useState(false);
+  const [pendingExport, setPendingExport] = useState<PendingExport | null>(null);
+  const { presets: exportPresets, savePreset, deletePreset } = useExportPresets(datasetId);
+  const [showPresetsDialog, setShowPresetsDialog] = useState(false);
   const [datasetInfo, setDatasetInfo] = useState<{ name: string; description: string } | null>(null);
+  const [reviewCounts, setReviewCounts] = useState<ReviewQueueCounts | null>(null);
   const { showToast } = useToast();
 
   useEffect(() => {
@@ -59,10 +87,19 @@ export function DataOverview({
     checkFieldConfiguration();
     checkMergedRows();
     checkAnnotationProgress();
-    loadDatasetData();
+    loadAnnotationConfig();
     loadDatasetInfo();
   }, [datasetId]);
 
+  // Reviewers see how many completed rows are waiting for them
+  const canReview = canReviewRows(user);
+  useEffect(() => {
+    if (!canReview) return;
+    RowReviewsAPI.getReviewCounts(datasetId)
+      .then(setReviewCounts)
+      .catch(() => setReviewCounts(null));
+  }, [datasetId, canReview]);
+
 
   const loadCSVImports = async () => {
     try {
@@ -114,20 +151,21 @@ export function DataOverview({
     }
   };
 
-  const loadDatasetData = async () => {
+  const loadAnnotationConfig = async () => {
     try {
-      const mergedData = await DatasetMergedRowsAPI.getDatasetData(datasetId);
-      setDatasetData(mergedData);
-
-      // Load annotation config
       const config = await fieldSelectionAPI.getDatasetFieldConfig(datasetId);
       setAnnotationConfig(config);
     } catch (err: any) {
-      setDatasetData(null);
       setAnnotationConfig(null);
     }
   };
 
+  // Exports and the export dialog's row count read the dataset page by page
+  const readExportRows = useCallback(
+    (signal?: AbortSignal) => streamDatasetRows(datasetId, signal),
+    [datasetId]
+  );
+
   const loadDatasetInfo = async () => {
     try {
       const dataset = await datasetsAPI.getById(datasetId);
@@ -172,69 +210,125 @@ export function DataOverview({
     router.push(`/dataset/${datasetId}/annotation`);
   };
 
-  const handleExportSelectedColumns = useCallback(async () => {
-    if (!datasetData || !annotationConfig) {
+  const handleStartReview = () => {
+    router.push(`/dataset/${datasetId}/review`);
+  };
+
+  const handleExportSelectedColumns = useCallback(async (rowFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => {
+    if (!annotationConfig) {
       return;
     }
 
-    setIsExporting(true);
-    try {
-      await exportSelectedColumnsToCSV(
-        datasetData,
-        {
-          annotationFields: annotationConfig.annotationFields.map((field: any) => ({
-            ...field,
-            isNewColumn: field.isNewColumn ?? false
-          }))
-        },
-        datasetId,
-        {
-          cleanHtml: true,
-          showSuccess: true,
-          onSuccess: (message) => {
-            showToast({
-              type: 'success',
-              title: 'Export Complete',
-              description: message,
-            });
+    await runExport(async (taskOptions) => {
+      try {
+        await exportSelectedColumnsToCSV(
+          readExportRows(taskOptions.signal),
+          {
+            annotationFields: annotationConfig.annotationFields.map((field: any) => ({
+              ...field,
+              isNewColumn: field.isNewColumn ?? false
+            }))
           },
-          onError: (error) => {
-            showToast({
-              type: 'error',
-              title: 'Export Failed',
-              description: 'Failed to export CSV file',
-            });
-          },
-        }
-      );
-    } catch (error) {
-      showToast({
-        type: 'error',
-        title: 'Export Failed',
-        description: 'Failed to export CSV file',
-      });
-    } finally {
-      setIsExporting(false);
+          datasetId,
+          {
+            ...taskOptions,
+            fileTarget,
+            rowFilter,
+            cleanHtml: true,
+            showSuccess: true,
+            onSuccess: (message) => {
+              showToast({
+                type: 'success',
+                title: 'Export Complete',
+                description: message,
+              });
+            },
+            onError: (error) => {
+              showToast({
+                type: 'error',
+                title: 'Export Failed',
+                description: 'Failed to export CSV file',
+              });
+            },
+          }
+        );
+      } catch (error) {
+        showToast({
+          type: 'error',
+          title: 'Export Failed',
+          description: 'Failed to export CSV file',
+        });
+      }
+    });
+  }, [annotationConfig, showToast, datasetId, runExport, readExportRows]);
+
+  const handleExportAllColumns = useCallback(async (rowFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => {
+    if (!annotationConfig) {
+      return;
     }
-  }, [datasetData, annotationConfig, showToast, datasetId]);
 
-  const handleExportAllColumns = useCallback(async () => {
-    if (!datasetData || !annotationConfig) {
+    await runExport(async (taskOptions) => {
+      try {
+        await exportAllColumnsToCSV(
+          readExportRows(taskOptions.signal),
+          {
+            annotationFields: annotationConfig.annotationFields.map((field: any) => ({
+              ...field,
+              isNewColumn: field.isNewColumn ?? false
+            }))
+          },
+          datasetId,
+          {
+            ...taskOptions,
+            fileTarget,
+            rowFilter,
+            cleanHtml: true,
+            showSuccess: true,
+            onSuccess: (message) => {
+              showToast({
+                type: 'success',
+                title: 'Export Complete',
+                description: message,
+              });
+            },
+            onError: (error) => {
+              showToast({
+                type: 'error',
+                title: 'Export Failed',
+                description: 'Failed to export CSV file',
+              });
+            },
+          }
+        );
+      } catch (error) {
+        showToast({
+          type: 'error',
+          title: 'Export Failed',
+          description: 'Failed to export CSV file',
+        });
+      }
+    });
+  }, [annotationConfig, showToast, datasetId, runExport, readExportRows]);
+
+  const handleExportXlsx = useCallback(async (rowFilter: ExportRowFilter) => {
+    if (!annotationConfig) {
       return;
     }
 
-    setIsExporting(true);
-    try {
-      await exportAllColumnsToCSV(
-        datasetData,
+    await runExport(async (taskOptions) => {
+      await exportSelectedColumnsToXlsx(
+        readExportRows(taskOptions.signal),
         {
           annotationFields: annotationConfig.annotationFields.map((field: any) => ({
             ...field,
             isNewColumn: field.isNewColumn ?? false
-          }))
+          })),
+          newColumns: annotationConfig.newColumns
         },
         datasetId,
         {
+          ...taskOptions,
+          rowFilter,
           cleanHtml: true,
           showSuccess: true,
           onSuccess: (message) => {
@@ -248,21 +342,145 @@ export function DataOverview({
             showToast({
               type: 'error',
               title: 'Export Failed',
-              description: 'Failed to export CSV file',
+              description: error,
             });
           },
         }
       );
-    } catch (error) {
+    });
+  }, [annotationConfig, showToast, datasetId, runExport, readExportRows]);
+
+  // Called from the dialog's click, so the save picker opens before anything is awaited
+  const handleExportJsonl = useCallback((template: JsonlTemplate) => {
+    if (!annotationConfig) {
+      return;
+    }
+
+    setShowJsonlDialog(false);
+    const fileName = formatExportFileName('finetune', datasetInfo?.name || '', 'jsonl');
+    pickExportFile(fileName, JSONL_FILE_TYPE).then((fileTarget) => {
+      if (!fileTarget) return;
+      runExport(async (taskOptions) => {
+        await exportToJsonl(
+          readExportRows(taskOptions.signal),
+          {
+            annotationFields: annotationConfig.annotationFields.map((field: any) => ({
+              ...field,
+              isNewColumn: field.isNewColumn ?? false
+            }))
+          },
+          template,
+          datasetId,
+          {
+            ...taskOptions,
+            fileTarget,
+            cleanHtml: true,
+            showSuccess: true,
+            onSuccess: (message) => {
+              showToast({
+                type: 'success',
+                title: 'Export Complete',
+                description: message,
+              });
+            },
+            onError: (error) => {
+              showToast({
+                type: 'error',
+                title: 'Export Failed',
+                description: error,
+              });
+            },
+          }
+        );
+      });
+    });
+  }, [annotationConfig, datasetInfo, showToast, datasetId, runExport, readExportRows]);
+
+  // Called from a click, so the save picker opens before anything is awaited
+  const handleExportPreset = useCallback((preset: ExportPreset) => {
+    if (!annotationConfig) {
+      return;
+    }
+
+    const problem = validatePresetColumns(preset, annotationConfig);
+    if (problem) {
       showToast({
         type: 'error',
         title: 'Export Failed',
-        description: 'Failed to export CSV file',
+        description: problem,
       });
-    } finally {
-      setIsExporting(false);
+      return;
     }
-  }, [datasetData, annotationConfig, showToast, datasetId]);
+
+    const saveFile = getPresetSaveFile(preset, datasetInfo?.name || '');
+    const picked: Promise<ExportFileTarget | null | undefined> = saveFile
+      ? pickExportFile(saveFile.name, saveFile.type)
+      : Promise.resolve(undefined);
+
+    picked.then((fileTarget) => {
+      if (fileTarget === null) return;
+      runExport(async (taskOptions) => {
+        await exportWithPreset(
+          readExportRows(taskOptions.signal),
+          {
+            annotationFields: annotationConfig.annotationFields.map((field: any) => ({
+              ...field,
+              isNewColumn: field.isNewColumn ?? false
+            })),
+            newColumns: annotationConfig.newColumns
+          },
+          preset,
+          datasetId,
+          {
+            ...taskOptions,
+            fileTarget,
+            showSuccess: true,
+            onSuccess: (message) => {
+              showToast({
+                type: 'success',
+                title: 'Export Complete',
+                description: `${preset.name}: ${message}`,
+              });
+            },
+            onError: (error) => {
+              showToast({
+                type: 'error',
+                title: 'Export Failed',
+                description: error,
+              });
+            },
+          }
+        );
+      });
+    });
+  }, [annotationConfig, datasetInfo, showToast, datasetId, runExport, readExportRows]);
+
+  const handleExportImageAnnotations = useCallback(async (format: 'coco' | 'voc') => {
+    await runExport(async (taskOptions) => {
+      const exportImages = format === 'coco' ? exportCocoJson : exportPascalVocZip;
+      await exportImages(datasetId, {
+        ...taskOptions,
+        onSuccess: (message) => {
+          showToast({
+            type: 'success',
+            title: 'Export Complete',
+            description: message,
+          });
+        },
+        onError: (error) => {
+          showToast({
+            type: 'error',
+            title: 'Export Failed',
+            description: error,
+          });
+        },
+      });
+    });
+  }, [showToast, datasetId, runExport]);
+
+  const hasImageFields = Boolean(
+    annotationConfig?.annotationFields?.some((field: any) => field.fieldType === 'image')
+  );
 
   // Export options for the dropdown
   const exportOptions: ExportOption[] = [
@@ -270,13 +488,61 @@ export function DataOverview({
       id: 'selected',
       label: 'Selected Columns',
       description: 'Export only configured metadata and annotation fields',
-      action: handleExportSelectedColumns,
+      action: () => setPendingExport({
+        label: 'Selected Columns CSV',
+        saveFile: { name: formatExportFileName('selected_columns', datasetInfo?.name || '', 'csv'), type: CSV_FILE_TYPE },
+        run: handleExportSelectedColumns,
+      }),
     },
     {
       id: 'all',
       label: 'All Columns',
       description: 'Export all original CSV columns plus annotation fields',
-      action: handleExportAllColumns,
+      action: () => setPendingExport({
+        label: 'All Columns CSV',
+        saveFile: { name: formatExportFileName('all_columns', datasetInfo?.name || '', 'csv'), type: CSV_FILE_TYPE },
+        run: handleExportAllColumns,
+      }),
+    },
+    {
+      id: 'xlsx',
+      label: 'Excel (.xlsx)',
+      description: 'Configured fields with typed cells, image links and a summary sheet',
+      action: () => setPendingExport({ label: 'Excel (.xlsx)', run: handleExportXlsx }),
+    },
+    {
+      id: 'jsonl',
+      label: 'JSONL (fine-tuning)',
+      description: 'Chat messages or prompt/completion records built from a field template',
+      action: () => setShowJsonlDialog(true),
+    },
+    ...(hasImageFields
+      ? [
+          {
+            id: 'coco',
+            label: 'COCO JSON',
+            description: 'Selected images, captions and labelled regions in COCO format',
+            action: () => handleExportImageAnnotations('coco'),
+          },
+          {
+            id: 'pascal-voc',
+            label: 'Pascal VOC (zip)',
+            description: 'One VOC XML file per selected or annotated image',
+            action: () => handleExportImageAnnotations('voc'),
+          },
+        ]
+      : []),
+    ...exportPresets.map((preset) => ({
+      id: `preset-${preset._id}`,
+      label: preset.name,
+      description: `Saved preset · ${PRESET_FORMAT_LABELS[preset.format]}${preset.isShared ? ' · shared' : ''}`,
+      action: () => handleExportPreset(preset),
+    })),
+    {
+      id: 'manage-presets',
+      label: 'Manage export presets...',
+      description: 'Save column order, headers, format and row filters for reuse',
+      action: () => setShowPresetsDialog(true),
     },
   ];
 
@@ -324,6 +590,9 @@ export function DataOverview({
             <ExportDropdown
               options={exportOptions}
               disabled={!hasFieldConfig || !annotationProgress || annotationProgress.completedRows === 0 || isExporting}
+              isExporting={isExporting}
+              progress={exportProgress}
+              onCancel={cancelExport}
             />
             <Button
               onClick={handleStartDatasetAnnotation}
@@ -439,6 +708,9 @@ export function DataOverview({
             <ExportDropdown
               options={exportOptions}
               disabled={!hasFieldConfig || !annotationProgress || annotationProgress.completedRows === 0 || isExporting}
+              isExporting={isExporting}
+              progress={exportProgress}
+              onCancel={cancelExport}
             />
             <Button
               onClick={handleStartDatasetAnnotation}
@@ -492,6 +764,9 @@ export function DataOverview({
             <ExportDropdown
               options={exportOptions}
               disabled={!hasFieldConfig || !annotationProgress || annotationProgress.completedRows === 0 || isExporting}
+              isExporting={isExporting}
+              progress={exportProgress}
+              onCancel={cancelExport}
             />
             <Button
               onClick={handleStartDatasetAnnotation}
@@ -561,7 +836,22 @@ export function DataOverview({
           <ExportDropdown
             options={exportOptions}
             disabled={!hasFieldConfig || !annotationProgress || annotationProgress.completedRows === 0 || isExporting}
+            isExporting={isExporting}
+            progress={exportProgress}
+            onCancel={cancelExport}
           />
+          {canReview && (
+            <Button
+              onClick={handleStartReview}
+              disabled={!hasFieldConfig || !reviewCounts || reviewCounts.needsReview === 0}
+              variant="outline"
+              data-testid="data-overview-start-review-button"
+              className="flex items-center gap-2"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Review{reviewCounts ? ` (${reviewCounts.needsReview})` : ''}
+            </Button>
+          )}
           <Button
             onClick={handleStartDatasetAnnotation}
             disabled={!hasFieldConfig || checkingConfig || checkingAnnotationProgress}
@@ -603,40 +893,63 @@ export function DataOverview({
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {csvImports.map((csvImport) => (
-              <div
-                key={csvImport._id}
-                className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors group"
-                data-testid={`data-overview-file-card-${csvImport._id}`}
-              >
-                <div className="flex items-center space-x-4">
-                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <FileText className="h-5 w-5 text-blue-600" />
-                  </div>
-                  <div className="min-w-0 flex-1">
-                    <h4 className="font-medium text-gray-900 truncate">
-                      {csvImport.originalFileName}
-                    </h4>
-                    <div className="flex items-center space-x-4 text-sm text-gray-500">
-                      <span>{csvImport.totalRows} rows</span>
-                      <span>•</span>
-                      <span>
-                        {csvImport.metadata?.totalColumns || 0} columns
-                      </span>
-                      <span>•</span>
-                      <span>{formatFileSize(csvImport.fileSize)}</span>
+            {csvImports.map((csvImport) => {
+              const rows = csvImport.rowData || [];
+              // Excluded rows still have errors, so the report stays reachable to take them back in
+              const hasRowErrors = rows.some((row) => (row.errors?.length ?? 0) > 0);
+              const unresolvedCount = getUnresolvedRows(rows).length;
+              return (
+                <div
+                  key={csvImport._id}
+                  className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors group"
+                  data-testid={`data-overview-file-card-${csvImport._id}`}
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                      <FileText className="h-5 w-5 text-blue-600" />
                     </div>
-                    <div className="flex items-center space-x-2 mt-1">
-                      <Calendar className="h-3 w-3 text-gray-400" />
-                      <span className="text-xs text-gray-500">
-                        Uploaded {formatDate(csvImport.createdAt)}
-                      </span>
+                    <div className="min-w-0 flex-1">
+                      <h4 className="font-medium text-gray-900 truncate">
+                        {csvImport.originalFileName}
+                      </h4>
+                      <div className="flex items-center space-x-4 text-sm text-gray-500">
+                        <span>{csvImport.totalRows} rows</span>
+                        <span>•</span>
+                        <span>
+                          {csvImport.metadata?.totalColumns || 0} columns
+                        </span>
+                        <span>•</span>
+                        <span>{formatFileSize(csvImport.fileSize)}</span>
+                      </div>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <Calendar className="h-3 w-3 text-gray-400" />
+                        <span className="text-xs text-gray-500">
+                          Uploaded {formatDate(csvImport.createdAt)}
+                        </span>
+                      </div>
                     </div>
                   </div>
-                </div>
 
-              </div>
-            ))}
+                  {hasRowErrors && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => router.push(`/dataset/${datasetId}/imports/${csvImport._id}/validation`)}
+                      className="flex items-center gap-2"
+                      data-testid={`data-overview-validation-report-button-${csvImport._id}`}
+                    >
+                      <ListChecks className="h-4 w-4" />
+                      Validation report
+                      {unresolvedCount > 0 && (
+                        <span className="text-xs px-1.5 rounded-full bg-red-100 text-red-800">
+                          {unresolvedCount}
+                        </span>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
           </div>
           
           {/* Configure Fields Button - Centered - Only show when fields are not configured */}
@@ -666,7 +979,37 @@ export function DataOverview({
         </CardContent>
       </Card>
 
-
+      <ExportDialog
+        open={!!pendingExport}
+        onOpenChange={(open) => !open && setPendingExport(null)}
+        datasetId={datasetId}
+        formatLabel={pendingExport?.label || ''}
+        readRows={readExportRows}
+        saveFile={pendingExport?.saveFile}
+        columns={getFilterColumns(annotationConfig)}
+        onExport={(rowFilter, fileTarget) => {
+          pendingExport?.run(rowFilter, fileTarget);
+          setPendingExport(null);
+        }}
+      />
+
+      <JsonlExportDialog
+        open={showJsonlDialog}
+        onOpenChange={setShowJsonlDialog}
+        fields={getTemplateFields(annotationConfig)}
+        onExport={handleExportJsonl}
+      />
+
+      <ExportPresetsDialog
+        open={showPresetsDialog}
+        onOpenChange={setShowPresetsDialog}
+        datasetId={datasetId}
+        annotationConfig={annotationConfig}
+        presets={exportPresets}
+        onSave={savePreset}
+        onDelete={deletePreset}
+        onExport={handleExportPreset}
+      />
     </div>
   );
 }
@@ -10,10 +10,13 @@ import {
   FileText,
   Loader2,
   Settings,
+  Scale,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { datasetsAPI, DatasetResponse } from '@/lib/api/datasets';
 import { useToast } from '@/components/ui/toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { canReviewRows } from '@/lib/row-status';
 
 interface DatasetSidebarProps {
   activeTab: string;
@@ -29,6 +32,7 @@ export function DatasetSidebar({
   className,
 }: DatasetSidebarProps) {
   const { showToast } = useToast();
+  const { user } = useAuth();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [dataset, setDataset] = useState<DatasetResponse | null>(null);
   const [loading, setLoading] = useState(true);
@@ -75,6 +79,17 @@ export function DatasetSidebar({
       icon: FileText,
       description: 'Configure CSV annotation fields',
     },
+    // Agreement statistics are for reviewers and admins
+    ...(canReviewRows(user)
+      ? [
+          {
+            id: 'agreement',
+            label: 'Agreement',
+            icon: Scale,
+            description: 'Inter-annotator agreement report',
+          },
+        ]
+      : []),
     {
       id: 'settings',
       label: 'Settings',
@@ -0,0 +1,397 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Filter, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RowAssignmentsAPI } from '@/lib/api/row-assignments';
+import { DatasetMergedRow } from '@/lib/api/dataset-merged-rows';
+import { collectExportRows, ExportRowSource } from '@/lib/dataset-export-helper';
+import {
+  ColumnPredicate,
+  CompletionFilter,
+  DEFAULT_EXPORT_FILTER,
+  ExportRowFilter,
+  FilterColumn,
+  filterExportRows,
+  PREDICATE_OPERATORS,
+  PredicateOperator,
+} from '@/lib/export-filter';
+import { ExportFileTarget, ExportSaveFile, pickExportFile } from '@/lib/export-stream';
+
+// Export chosen from the dropdown, run once the filters are confirmed
+export interface PendingExport {
+  label: string;
+  // Unset for formats that are built whole and downloaded
+  saveFile?: ExportSaveFile;
+  run: (rowFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => void;
+}
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  datasetId: string;
+  // Format picked in the dropdown, e.g. "Selected Columns CSV"
+  formatLabel: string;
+  // Reads the dataset's rows page by page, once per opening, to count the rows the filter matches
+  readRows: (signal: AbortSignal) => ExportRowSource;
+  // File the export is saved to; the picker opens when Export is clicked
+  saveFile?: ExportSaveFile;
+  columns: FilterColumn[];
+  onExport: (rowFilter: ExportRowFilter, fileTarget?: ExportFileTarget) => void;
+}
+
+interface ExportFilterFieldsProps {
+  datasetId: string;
+  filter: ExportRowFilter;
+  onFilterChange: (update: (current: ExportRowFilter) => ExportRowFilter) => void;
+  // Annotators found on rows, listed by id when missing from the assignment summary
+  annotatorIds?: string[];
+  columns: FilterColumn[];
+}
+
+interface AnnotatorOption {
+  userId: string;
+  label: string;
+}
+
+// yyyy-mm-dd in local time, as used by date inputs
+function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Row filter controls, shared by the export dialog and the preset editor
+ */
+export function ExportFilterFields({ datasetId, filter, onFilterChange, annotatorIds, columns }: ExportFilterFieldsProps) {
+  const [assignees, setAssignees] = useState<AnnotatorOption[]>([]);
+
+  // Assignment summary gives annotator emails; it is only available to admins
+  useEffect(() => {
+    RowAssignmentsAPI.getAssignmentSummary(datasetId)
+      .then((summary) =>
+        setAssignees(summary.assignees.map((assignee) => ({ userId: assignee.userId, label: assignee.email })))
+      )
+      .catch(() => setAssignees([]));
+  }, [datasetId]);
+
+  // Annotators found on rows but missing from the summary are listed by id
+  const annotators = useMemo(() => {
+    const options = [...assignees];
+    annotatorIds?.forEach((userId) => {
+      if (!options.some((option) => option.userId === userId)) {
+        options.push({ userId, label: userId });
+      }
+    });
+    return options;
+  }, [assignees, annotatorIds]);
+
+  const updatePredicate = (index: number, changes: Partial<ColumnPredicate>) => {
+    onFilterChange((current) => ({
+      ...current,
+      predicates: current.predicates.map((predicate, itemIndex) =>
+        itemIndex === index ? { ...predicate, ...changes } : predicate
+      ),
+    }));
+  };
+
+  const toggleAnnotator = (userId: string, checked: boolean | string) => {
+    onFilterChange((current) => ({
+      ...current,
+      annotatorIds: checked === true
+        ? [...current.annotatorIds, userId]
+        : current.annotatorIds.filter((id) => id !== userId),
+    }));
+  };
+
+  const selectLastWeek = () => {
+    const today = new Date();
+    const weekAgo = new Date(today);
+    weekAgo.setDate(today.getDate() - 6);
+    onFilterChange((current) => ({
+      ...current,
+      completedFrom: toDateInputValue(weekAgo),
+      completedTo: toDateInputValue(today),
+    }));
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium text-gray-700">Rows</Label>
+          <Select
+            value={filter.completion}
+            onValueChange={(value) =>
+              onFilterChange((current) => ({ ...current, completion: value as CompletionFilter }))
+            }
+          >
+            <SelectTrigger data-testid="export-filter-completion">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rows</SelectItem>
+              <SelectItem value="completed">Completed only</SelectItem>
+              <SelectItem value="incomplete">Not completed only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium text-gray-700">Completed between</Label>
+            <div className="flex gap-2 text-xs">
+              <button type="button" onClick={selectLastWeek} className="text-blue-600 hover:underline">
+                Last 7 days
+              </button>
+              {(filter.completedFrom || filter.completedTo) && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    onFilterChange((current) => ({ ...current, completedFrom: undefined, completedTo: undefined }))
+                  }
+                  className="text-gray-500 hover:underline"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={filter.completedFrom || ''}
+              onChange={(e) => onFilterChange((current) => ({ ...current, completedFrom: e.target.value || undefined }))}
+              data-testid="export-filter-completed-from"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="date"
+              value={filter.completedTo || ''}
+              onChange={(e) => onFilterChange((current) => ({ ...current, completedTo: e.target.value || undefined }))}
+              data-testid="export-filter-completed-to"
+            />
+          </div>
+        </div>
+      </div>
+
+      {annotators.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Annotators</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {annotators.map((annotator) => (
+              <div key={annotator.userId} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-annotator-${annotator.userId}`}
+                  checked={filter.annotatorIds.includes(annotator.userId)}
+                  onCheckedChange={(checked) => toggleAnnotator(annotator.userId, checked)}
+                />
+                <Label htmlFor={`export-annotator-${annotator.userId}`} className="font-normal text-sm truncate">
+                  {annotator.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">None selected exports rows of every annotator.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700">Column conditions</Label>
+        {filter.predicates.map((predicate, index) => {
+          const needsValue = PREDICATE_OPERATORS.find((item) => item.value === predicate.operator)?.needsValue;
+          return (
+            <div key={index} className="flex items-center gap-2" data-testid={`export-filter-predicate-${index}`}>
+              <Select value={predicate.column} onValueChange={(column) => updatePredicate(index, { column })}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map((column) => (
+                    <SelectItem key={column.key} value={column.key}>{column.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={predicate.operator}
+                onValueChange={(operator) => updatePredicate(index, { operator: operator as PredicateOperator })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PREDICATE_OPERATORS.map((operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {needsValue && (
+                <Input
+                  value={predicate.value || ''}
+                  onChange={(e) => updatePredicate(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="flex-1"
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  onFilterChange((current) => ({
+                    ...current,
+                    predicates: current.predicates.filter((_, itemIndex) => itemIndex !== index),
+                  }))
+                }
+                aria-label="Remove condition"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onFilterChange((current) => ({
+              ...current,
+              predicates: [...current.predicates, { column: '', operator: 'equals', value: '' }],
+            }))
+          }
+          disabled={columns.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add condition
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  datasetId,
+  formatLabel,
+  readRows,
+  saveFile,
+  columns,
+  onExport,
+}: ExportDialogProps) {
+  const [filter, setFilter] = useState<ExportRowFilter>(DEFAULT_EXPORT_FILTER);
+  const [rows, setRows] = useState<DatasetMergedRow[] | null>(null);
+  const [countFailed, setCountFailed] = useState(false);
+
+  // Rows are read once while the dialog is open; filter changes are counted
+  // against them in memory, and they are dropped again on close
+  useEffect(() => {
+    setRows(null);
+    setCountFailed(false);
+    if (!open) return;
+
+    const controller = new AbortController();
+    collectExportRows(readRows(controller.signal), {})
+      .then((loaded) => {
+        if (!controller.signal.aborted) setRows(loaded);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setCountFailed(true);
+      });
+
+    return () => controller.abort();
+  }, [open, readRows]);
+
+  const matchedRows = useMemo(() => rows && filterExportRows(rows, filter).length, [rows, filter]);
+
+  const annotatorIds = useMemo(() => {
+    const found = new Set<string>();
+    rows?.forEach((row) => row.assignedTo && found.add(row.assignedTo));
+    return Array.from(found);
+  }, [rows]);
+
+  const confirmExport = () => {
+    if (!saveFile) {
+      onExport(filter);
+      return;
+    }
+    // Opened here, before anything is awaited, while the click still allows a picker
+    pickExportFile(saveFile.name, saveFile.type).then((target) => {
+      if (target) onExport(filter, target);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="export-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5 text-gray-600" />
+            Export {formatLabel}
+          </DialogTitle>
+          <DialogDescription>
+            Choose which rows to include. All conditions must match.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          <ExportFilterFields
+            datasetId={datasetId}
+            filter={filter}
+            onFilterChange={setFilter}
+            annotatorIds={annotatorIds}
+            columns={columns}
+          />
+        </div>
+
+        <DialogFooter className="sm:justify-between sm:items-center">
+          <div className="text-sm text-gray-600" data-testid="export-filter-count">
+            {rows && matchedRows !== null ? (
+              <>
+                <span className="font-semibold text-gray-900">{matchedRows.toLocaleString()}</span>
+                {' '}of {rows.length.toLocaleString()} rows will be exported
+              </>
+            ) : countFailed ? (
+              'Could not count the matching rows'
+            ) : (
+              <span className="flex items-center">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Counting rows...
+              </span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmExport}
+              disabled={matchedRows === 0}
+              data-testid="export-dialog-confirm-button"
+            >
+              Export
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
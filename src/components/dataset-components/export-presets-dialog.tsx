@@ -0,0 +1,465 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Bookmark, Download, Loader2, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExportPreset, ExportPresetFormat, ExportPresetRequest } from '@/lib/api/export-presets';
+import { AnnotationConfig, ExportColumn } from '@/lib/dataset-export-helper';
+import { getFilterColumns, isExportFilterActive } from '@/lib/export-filter';
+import { createPresetDraft, getEditorColumns, PRESET_FORMAT_LABELS } from '@/lib/export-presets';
+import { createDefaultJsonlTemplate, getTemplateFields, validateJsonlTemplate } from '@/lib/jsonl-export';
+import { ExportFilterFields } from './export-dialog';
+import { JsonlTemplateEditor } from './jsonl-export-dialog';
+import { DeleteConfirmationDialog } from './delete-confirmation-dialog';
+
+interface ExportPresetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  datasetId: string;
+  annotationConfig: AnnotationConfig | null;
+  // Annotators found on rows, for the annotator list of the row filter
+  annotatorIds?: string[];
+  presets: ExportPreset[];
+  onSave: (request: ExportPresetRequest, presetId?: string) => Promise<unknown>;
+  onDelete: (presetId: string) => Promise<void>;
+  onExport: (preset: ExportPreset) => void;
+}
+
+interface EditorColumn {
+  column: ExportColumn;
+  included: boolean;
+}
+
+interface PresetEditorState {
+  // Unset for a new preset
+  presetId?: string;
+  draft: ExportPresetRequest;
+  columns: EditorColumn[];
+}
+
+function createEditorState(annotationConfig: AnnotationConfig | null, preset?: ExportPreset): PresetEditorState {
+  const draft = preset
+    ? {
+        name: preset.name,
+        format: preset.format,
+        columns: preset.columns,
+        cleanHtml: preset.cleanHtml,
+        rowFilter: preset.rowFilter,
+        jsonlTemplate: preset.jsonlTemplate,
+        isShared: preset.isShared,
+      }
+    : createPresetDraft(annotationConfig);
+  const { included, excluded } = getEditorColumns(draft.columns, annotationConfig);
+
+  return {
+    presetId: preset?._id,
+    draft,
+    columns: [
+      ...included.map((column) => ({ column, included: true })),
+      ...excluded.map((column) => ({ column, included: false })),
+    ],
+  };
+}
+
+export function ExportPresetsDialog({
+  open,
+  onOpenChange,
+  datasetId,
+  annotationConfig,
+  annotatorIds,
+  presets,
+  onSave,
+  onDelete,
+  onExport,
+}: ExportPresetsDialogProps) {
+  const { user } = useAuth();
+  const [editor, setEditor] = useState<PresetEditorState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [presetToDelete, setPresetToDelete] = useState<ExportPreset | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const templateFields = getTemplateFields(annotationConfig);
+  const canManage = (preset: ExportPreset) => preset.createdBy === user?._id || user?.role === 'admin';
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setEditor(null);
+      setSaveError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const updateDraft = (changes: Partial<ExportPresetRequest>) => {
+    setEditor((current) => current && { ...current, draft: { ...current.draft, ...changes } });
+  };
+
+  const updateColumn = (index: number, changes: Partial<EditorColumn>) => {
+    setEditor((current) => current && {
+      ...current,
+      columns: current.columns.map((item, itemIndex) => (itemIndex === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setEditor((current) => {
+      if (!current) return current;
+      const target = index + offset;
+      if (target < 0 || target >= current.columns.length) return current;
+      const columns = [...current.columns];
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...current, columns };
+    });
+  };
+
+  const getEditorIssues = (state: PresetEditorState): string[] => {
+    const issues: string[] = [];
+    if (!state.draft.name.trim()) issues.push('Name the preset');
+    if (state.draft.format === 'jsonl') {
+      issues.push(...validateJsonlTemplate(state.draft.jsonlTemplate ?? createDefaultJsonlTemplate(templateFields)));
+    } else {
+      const included = state.columns.filter((item) => item.included);
+      if (included.length === 0) issues.push('Include at least one column');
+      if (included.some((item) => !item.column.header.trim())) issues.push('Column headers cannot be empty');
+    }
+    return issues;
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const { draft } = editor;
+      await onSave(
+        {
+          ...draft,
+          name: draft.name.trim(),
+          columns: editor.columns
+            .filter((item) => item.included)
+            .map((item) => ({ ...item.column, header: item.column.header.trim() })),
+          jsonlTemplate: draft.format === 'jsonl'
+            ? draft.jsonlTemplate ?? createDefaultJsonlTemplate(templateFields)
+            : undefined,
+        },
+        editor.presetId
+      );
+      setEditor(null);
+    } catch (error: any) {
+      setSaveError(error.response?.data?.message || 'Failed to save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!presetToDelete) return;
+    setIsDeleting(true);
+    try {
+      await onDelete(presetToDelete._id);
+      setPresetToDelete(null);
+    } catch (error: any) {
+      setSaveError(error.response?.data?.message || 'Failed to delete preset');
+      setPresetToDelete(null);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const renderList = () => (
+    <>
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+        {presets.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No presets yet. Save the columns, format and filters you export often.
+          </p>
+        ) : (
+          presets.map((preset) => (
+            <div
+              key={preset._id}
+              className="flex items-center justify-between gap-3 rounded-md border border-gray-200 px-3 py-2"
+              data-testid={`export-preset-${preset._id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 truncate">{preset.name}</span>
+                  <Badge variant="outline" className="text-xs">{PRESET_FORMAT_LABELS[preset.format]}</Badge>
+                  {preset.isShared && (
+                    <Badge variant="secondary" className="text-xs">
+                      <Users className="h-3 w-3 mr-1" />
+                      Shared
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 truncate">
+                  {preset.format === 'jsonl' ? 'Record template' : `${preset.columns.length} columns`}
+                  {isExportFilterActive(preset.rowFilter) && ' · filtered rows'}
+                  {preset.createdBy !== user?._id && preset.createdByEmail && ` · by ${preset.createdByEmail}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    handleOpenChange(false);
+                    onExport(preset);
+                  }}
+                  aria-label={`Export with ${preset.name}`}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canManage(preset) && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditor(createEditorState(annotationConfig, preset))}
+                      aria-label={`Edit ${preset.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPresetToDelete(preset)}
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+          Close
+        </Button>
+        <Button
+          onClick={() => setEditor(createEditorState(annotationConfig))}
+          disabled={!annotationConfig}
+          data-testid="export-preset-new-button"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          New preset
+        </Button>
+      </DialogFooter>
+    </>
+  );
+
+  const renderEditor = (state: PresetEditorState) => {
+    const { draft } = state;
+    const issues = getEditorIssues(state);
+
+    return (
+      <>
+        <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="export-preset-name" className="text-sm font-medium text-gray-700">Name</Label>
+              <Input
+                id="export-preset-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Weekly review export"
+                data-testid="export-preset-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-medium text-gray-700">Format</Label>
+              <Select
+                value={draft.format}
+                onValueChange={(format) => updateDraft({ format: format as ExportPresetFormat })}
+              >
+                <SelectTrigger data-testid="export-preset-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRESET_FORMAT_LABELS) as ExportPresetFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>{PRESET_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-preset-clean-html"
+                checked={draft.cleanHtml}
+                onCheckedChange={(checked) => updateDraft({ cleanHtml: checked === true })}
+              />
+              <Label htmlFor="export-preset-clean-html" className="font-normal">Strip HTML from values</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="export-preset-shared"
+                checked={draft.isShared}
+                onCheckedChange={(checked) => updateDraft({ isShared: checked === true })}
+              />
+              <Label htmlFor="export-preset-shared" className="font-normal">Share with dataset collaborators</Label>
+            </div>
+          </div>
+
+          {draft.format === 'jsonl' ? (
+            <JsonlTemplateEditor
+              template={draft.jsonlTemplate ?? createDefaultJsonlTemplate(templateFields)}
+              onTemplateChange={(update) =>
+                setEditor((current) => current && {
+                  ...current,
+                  draft: {
+                    ...current.draft,
+                    jsonlTemplate: update(current.draft.jsonlTemplate ?? createDefaultJsonlTemplate(templateFields)),
+                  },
+                })
+              }
+              fields={templateFields}
+            />
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Columns</Label>
+              <p className="text-xs text-gray-500">Pick, order and rename the exported columns.</p>
+              <div className="space-y-1">
+                {state.columns.map((item, index) => (
+                  <div
+                    key={`${item.column.kind}:${item.column.key}`}
+                    className="flex items-center gap-2"
+                    data-testid={`export-preset-column-${index}`}
+                  >
+                    <Checkbox
+                      checked={item.included}
+                      onCheckedChange={(checked) => updateColumn(index, { included: checked === true })}
+                      aria-label={`Include ${item.column.key}`}
+                    />
+                    <span className="w-40 truncate text-sm text-gray-600" title={item.column.key}>
+                      {item.column.kind === 'imageMetadata' ? `${item.column.key} (metadata)` : item.column.key}
+                    </span>
+                    <Input
+                      value={item.column.header}
+                      onChange={(e) => updateColumn(index, { column: { ...item.column, header: e.target.value } })}
+                      disabled={!item.included}
+                      className="h-8 flex-1"
+                      aria-label={`Header for ${item.column.key}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveColumn(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveColumn(index, 1)}
+                      disabled={index === state.columns.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Row filters</Label>
+            <ExportFilterFields
+              datasetId={datasetId}
+              filter={draft.rowFilter}
+              onFilterChange={(update) =>
+                setEditor((current) => current && {
+                  ...current,
+                  draft: { ...current.draft, rowFilter: update(current.draft.rowFilter) },
+                })
+              }
+              annotatorIds={annotatorIds}
+              columns={getFilterColumns(annotationConfig)}
+            />
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="text-sm text-amber-700 list-disc pl-5">
+              {issues.map((issue) => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setEditor(null)} disabled={isSaving}>
+            Back
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={issues.length > 0 || isSaving}
+            data-testid="export-preset-save-button"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save preset
+          </Button>
+        </DialogFooter>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-2xl" data-testid="export-presets-dialog">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Bookmark className="h-5 w-5 text-gray-600" />
+              {editor ? (editor.presetId ? 'Edit export preset' : 'New export preset') : 'Export presets'}
+            </DialogTitle>
+            <DialogDescription>
+              {editor
+                ? 'Presets remember the format, columns, HTML cleaning and row filters of an export.'
+                : 'Run a saved export, or create one for yourself or your collaborators.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {editor ? renderEditor(editor) : renderList()}
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmationDialog
+        open={!!presetToDelete}
+        onOpenChange={(nextOpen) => !nextOpen && setPresetToDelete(null)}
+        onConfirm={handleDelete}
+        itemName={presetToDelete?.name || ''}
+        itemType="preset"
+        isLoading={isDeleting}
+      />
+    </>
+  );
+}
@@ -0,0 +1,419 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Download,
+  Loader2,
+  Pencil,
+  RefreshCw,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CSVImport, CSVImportsAPI, CSVRowData } from '@/lib/api/csv-imports';
+import {
+  ErrorTypeGroup,
+  IMPORT_COMPLETED_STATUS,
+  exportValidationReport,
+  getImportColumns,
+  getUnresolvedRows,
+  groupRowErrors,
+} from '@/lib/import-validation';
+import { useToast } from '@/components/ui/toast';
+
+interface ImportValidationReportProps {
+  datasetId: string;
+  csvImportId: string;
+}
+
+// Row being fixed inline: the offending values of one error, as edited
+interface RowEdit {
+  rowIndex: number;
+  message: string;
+  values: Record<string, string>;
+}
+
+export function ImportValidationReport({ datasetId, csvImportId }: ImportValidationReportProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const [csvImport, setCsvImport] = useState<CSVImport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [edit, setEdit] = useState<RowEdit | null>(null);
+  // Rows with a save or exclusion in flight
+  const [busyRows, setBusyRows] = useState<number[]>([]);
+  const [isCompleting, setIsCompleting] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCsvImport(await CSVImportsAPI.findOne(csvImportId));
+    } catch {
+      setError('Failed to load the import');
+      showToast({
+        title: 'Error',
+        description: 'Failed to load the import',
+        type: 'error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [csvImportId, showToast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const rows = useMemo(() => csvImport?.rowData ?? [], [csvImport]);
+  const groups = useMemo<ErrorTypeGroup[]>(
+    () => (csvImport ? groupRowErrors(rows, getImportColumns(csvImport)) : []),
+    [csvImport, rows]
+  );
+  const rowsWithErrors = rows.filter((row) => (row.errors?.length ?? 0) > 0);
+  const unresolvedRows = getUnresolvedRows(rows);
+  const isCompleted = csvImport?.status === IMPORT_COMPLETED_STATUS;
+
+  const replaceRows = (updated: CSVRowData[]) => {
+    setCsvImport((current) =>
+      current && {
+        ...current,
+        rowData: current.rowData.map(
+          (row) => updated.find((item) => item.rowIndex === row.rowIndex) ?? row
+        ),
+      }
+    );
+  };
+
+  const withBusyRows = async (rowIndexes: number[], action: () => Promise<void>) => {
+    setBusyRows((current) => [...current, ...rowIndexes]);
+    try {
+      await action();
+    } finally {
+      setBusyRows((current) => current.filter((rowIndex) => !rowIndexes.includes(rowIndex)));
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!edit) return;
+    const row = rows.find((item) => item.rowIndex === edit.rowIndex);
+    if (!row) return;
+
+    await withBusyRows([edit.rowIndex], async () => {
+      try {
+        const updated = await CSVImportsAPI.updateRowData(csvImportId, edit.rowIndex, {
+          ...row.data,
+          ...edit.values,
+        });
+        replaceRows([updated]);
+        setEdit(null);
+        showToast({
+          type: updated.errors?.length ? 'info' : 'success',
+          title: updated.errors?.length ? 'Row Still Has Errors' : 'Row Fixed',
+          description: updated.errors?.length
+            ? updated.errors.join('; ')
+            : `Row ${edit.rowIndex} passes validation`,
+        });
+      } catch (err: any) {
+        showToast({
+          type: 'error',
+          title: 'Save Failed',
+          description: err?.response?.data?.message || 'Failed to update the row',
+        });
+      }
+    });
+  };
+
+  const setExcluded = async (rowIndexes: number[], excluded: boolean) => {
+    await withBusyRows(rowIndexes, async () => {
+      try {
+        await CSVImportsAPI.setRowsExcluded(csvImportId, rowIndexes, excluded);
+        replaceRows(
+          rows.filter((row) => rowIndexes.includes(row.rowIndex)).map((row) => ({ ...row, excluded }))
+        );
+      } catch (err: any) {
+        showToast({
+          type: 'error',
+          title: excluded ? 'Exclude Failed' : 'Include Failed',
+          description: err?.response?.data?.message || 'Failed to update the rows',
+        });
+      }
+    });
+  };
+
+  const handleComplete = async () => {
+    try {
+      setIsCompleting(true);
+      setCsvImport(await CSVImportsAPI.completeImport(csvImportId));
+      showToast({
+        type: 'success',
+        title: 'Import Complete',
+        description: `${rows.filter((row) => !row.excluded).length} rows imported`,
+      });
+    } catch (err: any) {
+      showToast({
+        type: 'error',
+        title: 'Completion Failed',
+        description: err?.response?.data?.message || 'Failed to complete the import',
+      });
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!csvImport) return;
+    exportValidationReport(groups, csvImport.originalFileName, {
+      onSuccess: (message) => showToast({ type: 'success', title: 'Report Downloaded', description: message }),
+      onError: (message) => showToast({ type: 'error', title: 'Download Failed', description: message }),
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="ml-2 text-gray-600">Loading validation report...</span>
+      </div>
+    );
+  }
+
+  if (error || !csvImport) {
+    return (
+      <div className="text-center p-8">
+        <AlertCircle className="h-16 w-16 mx-auto text-red-300 mb-4" />
+        <p className="text-red-600 mb-4">{error || 'Import not found'}</p>
+        <Button onClick={loadReport} variant="outline">
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="import-validation-report">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push(`/dataset/${datasetId}?tab=overview`)}
+            className="flex items-center gap-2 -ml-2 mb-2 text-gray-600"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to overview
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">Validation Report</h1>
+          <p className="text-gray-600 mt-1">
+            {csvImport.originalFileName} · {csvImport.totalRows} rows ·{' '}
+            <span data-testid="import-validation-status">{csvImport.status}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={loadReport} variant="outline" className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+          <Button
+            onClick={handleDownload}
+            variant="outline"
+            disabled={groups.length === 0}
+            className="flex items-center gap-2"
+            data-testid="import-validation-download-button"
+          >
+            <Download className="h-4 w-4" />
+            Download CSV
+          </Button>
+          <Button
+            onClick={handleComplete}
+            disabled={isCompleted || isCompleting || unresolvedRows.length > 0}
+            className="flex items-center gap-2"
+            data-testid="import-validation-complete-button"
+          >
+            {isCompleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+            {isCompleted ? 'Import complete' : 'Mark import complete'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {[
+          { label: 'Rows with errors', value: rowsWithErrors.length, className: 'text-red-600' },
+          { label: 'Still to fix or exclude', value: unresolvedRows.length, className: 'text-amber-600' },
+          { label: 'Excluded rows', value: rows.filter((row) => row.excluded).length, className: 'text-gray-700' },
+        ].map(({ label, value, className }) => (
+          <Card key={label}>
+            <CardContent className="p-4">
+              <div className={cn('text-2xl font-semibold', className)}>{value}</div>
+              <div className="text-sm text-gray-500">{label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-500 text-center" data-testid="import-validation-empty">
+              Every row passed validation.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const groupRows = Array.from(new Set(group.issues.map((issue) => issue.rowIndex)));
+          const includedRows = groupRows.filter(
+            (rowIndex) => !rows.find((row) => row.rowIndex === rowIndex)?.excluded
+          );
+          return (
+            <Card key={group.type} data-testid={`import-validation-group-${group.type}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <AlertCircle className="h-5 w-5 text-red-600" />
+                      {group.type}
+                    </CardTitle>
+                    <CardDescription>
+                      {group.issues.length} error{group.issues.length === 1 ? '' : 's'} in {groupRows.length} row
+                      {groupRows.length === 1 ? '' : 's'}
+                    </CardDescription>
+                  </div>
+                  {!isCompleted && includedRows.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setExcluded(includedRows, true)}
+                      disabled={includedRows.some((rowIndex) => busyRows.includes(rowIndex))}
+                    >
+                      Exclude all
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Row</th>
+                        <th className="py-2 pr-4 font-medium">Error</th>
+                        <th className="py-2 pr-4 font-medium">Values</th>
+                        <th className="py-2 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.issues.map((issue) => {
+                        const isEditing = edit?.rowIndex === issue.rowIndex && edit.message === issue.message;
+                        const isBusy = busyRows.includes(issue.rowIndex);
+                        return (
+                          <tr
+                            key={`${issue.rowIndex}-${issue.message}`}
+                            className={cn('border-b last:border-0 align-top', issue.excluded && 'opacity-50')}
+                            data-testid={`import-validation-issue-${issue.rowIndex}`}
+                          >
+                            <td className="py-2 pr-4 text-gray-900">
+                              Row {issue.rowIndex}
+                              {issue.excluded && (
+                                <Badge variant="outline" className="ml-2 text-xs">
+                                  Excluded
+                                </Badge>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 text-red-700">{issue.message}</td>
+                            <td className="py-2 pr-4">
+                              <div className="space-y-1">
+                                {Object.entries(issue.values).map(([column, value]) => (
+                                  <div key={column} className="flex items-center gap-2 text-xs">
+                                    <span className="font-mono text-gray-500">{column}:</span>
+                                    {isEditing ? (
+                                      <Input
+                                        value={edit.values[column] ?? ''}
+                                        onChange={(e) =>
+                                          setEdit({ ...edit, values: { ...edit.values, [column]: e.target.value } })
+                                        }
+                                        className="h-7 text-xs"
+                                        aria-label={`${column} of row ${issue.rowIndex}`}
+                                      />
+                                    ) : (
+                                      <span className="font-mono bg-red-50 text-red-800 px-1 rounded break-all">
+                                        {String(value) || '(empty)'}
+                                      </span>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="py-2 text-right whitespace-nowrap">
+                              {isCompleted ? null : isEditing ? (
+                                <div className="flex justify-end gap-2">
+                                  <Button size="sm" variant="outline" onClick={() => setEdit(null)} disabled={isBusy}>
+                                    Cancel
+                                  </Button>
+                                  <Button size="sm" onClick={saveEdit} disabled={isBusy}>
+                                    {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                                  </Button>
+                                </div>
+                              ) : (
+                                <div className="flex justify-end gap-2">
+                                  {!issue.excluded && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() =>
+                                        setEdit({
+                                          rowIndex: issue.rowIndex,
+                                          message: issue.message,
+                                          values: Object.fromEntries(
+                                            Object.entries(issue.values).map(([column, value]) => [column, String(value ?? '')])
+                                          ),
+                                        })
+                                      }
+                                      disabled={isBusy}
+                                      className="flex items-center gap-1"
+                                      data-testid={`import-validation-fix-${issue.rowIndex}`}
+                                    >
+                                      <Pencil className="h-3 w-3" />
+                                      Fix
+                                    </Button>
+                                  )}
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setExcluded([issue.rowIndex], !issue.excluded)}
+                                    disabled={isBusy}
+                                    data-testid={`import-validation-exclude-${issue.rowIndex}`}
+                                  >
+                                    {issue.excluded ? 'Include' : 'Exclude'}
+                                  </Button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Braces, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { AnnotationField } from '@/lib/dataset-export-helper';
+import {
+  ChatRole,
+  createDefaultJsonlTemplate,
+  fieldPlaceholder,
+  JsonlFormat,
+  JsonlTemplate,
+  validateJsonlTemplate,
+} from '@/lib/jsonl-export';
+import { cn } from '@/lib/utils';
+
+interface JsonlExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Dataset field config fields; image fields are left out by the caller
+  fields: AnnotationField[];
+  onExport: (template: JsonlTemplate) => void;
+}
+
+interface JsonlTemplateEditorProps {
+  template: JsonlTemplate;
+  onTemplateChange: (update: (current: JsonlTemplate) => JsonlTemplate) => void;
+  fields: AnnotationField[];
+}
+
+// Template box that field buttons insert into: a message index, 'prompt' or 'completion'
+type TemplateTarget = number | 'prompt' | 'completion';
+
+const ROLES: ChatRole[] = ['system', 'user', 'assistant'];
+
+/**
+ * Template fields and format controls, shared by the export dialog and the preset editor
+ */
+export function JsonlTemplateEditor({ template, onTemplateChange: updateTemplate, fields }: JsonlTemplateEditorProps) {
+  const [target, setTarget] = useState<TemplateTarget>(0);
+  const textareaRefs = useRef(new Map<TemplateTarget, HTMLTextAreaElement>());
+
+  const issues = validateJsonlTemplate(template);
+
+  const readTarget = (key: TemplateTarget) =>
+    typeof key === 'number' ? template.messages[key]?.content ?? '' : template[key];
+
+  const writeTarget = (key: TemplateTarget, value: string) => {
+    updateTemplate((current) =>
+      typeof key === 'number'
+        ? {
+            ...current,
+            messages: current.messages.map((message, index) =>
+              index === key ? { ...message, content: value } : message
+            ),
+          }
+        : { ...current, [key]: value }
+    );
+  };
+
+  // Insert a placeholder at the cursor of the last focused template box
+  const insertField = (fieldName: string) => {
+    const key = typeof target === 'number' && template.format !== 'messages' ? 'prompt' : target;
+    const textarea = textareaRefs.current.get(key);
+    const value = readTarget(key);
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const placeholder = fieldPlaceholder(fieldName);
+
+    writeTarget(key, value.slice(0, start) + placeholder + value.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const templateBox = (key: TemplateTarget, placeholder: string) => (
+    <Textarea
+      ref={(element) => {
+        if (element) textareaRefs.current.set(key, element);
+        else textareaRefs.current.delete(key);
+      }}
+      value={readTarget(key)}
+      onChange={(e) => writeTarget(key, e.target.value)}
+      onFocus={() => setTarget(key)}
+      placeholder={placeholder}
+      className={cn('min-h-[72px] font-mono text-sm', target === key && 'border-blue-400')}
+      data-testid={`jsonl-template-${key}`}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        value={template.format}
+        onValueChange={(value) => updateTemplate((current) => ({ ...current, format: value as JsonlFormat }))}
+        className="flex gap-6"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="messages" id="jsonl-format-messages" />
+          <Label htmlFor="jsonl-format-messages" className="font-normal">Chat messages</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="prompt-completion" id="jsonl-format-prompt" />
+          <Label htmlFor="jsonl-format-prompt" className="font-normal">Prompt / completion</Label>
+        </div>
+      </RadioGroup>
+
+      <div>
+        <Label className="text-sm font-medium text-gray-700">Fields</Label>
+        <p className="text-xs text-gray-500 mb-2">Click a field to insert it into the selected template box.</p>
+        <div className="flex flex-wrap gap-2">
+          {fields.map((field) => (
+            <button
+              key={field.fieldName}
+              type="button"
+              onClick={() => insertField(field.fieldName)}
+              className={cn(
+                'px-2 py-1 rounded border text-xs font-mono',
+                field.isNewColumn || field.isAnnotationField
+                  ? 'bg-green-50 border-green-200 text-green-800 hover:bg-green-100'
+                  : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100'
+              )}
+              data-testid={`jsonl-field-${field.fieldName}`}
+            >
+              {field.fieldName}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {template.format === 'messages' ? (
+        <div className="space-y-3">
+          {template.messages.map((message, index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={message.role}
+                  onValueChange={(role) =>
+                    updateTemplate((current) => ({
+                      ...current,
+                      messages: current.messages.map((item, itemIndex) =>
+                        itemIndex === index ? { ...item, role: role as ChatRole } : item
+                      ),
+                    }))
+                  }
+                >
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    updateTemplate((current) => ({
+                      ...current,
+                      messages: current.messages.filter((_, itemIndex) => itemIndex !== index),
+                    }));
+                    setTarget(0);
+                  }}
+                  disabled={template.messages.length <= 1}
+                  aria-label="Remove message"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {templateBox(index, message.role === 'system' ? 'You are a careful medical assistant.' : `Text with ${fieldPlaceholder('field')} placeholders`)}
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              updateTemplate((current) => ({
+                ...current,
+                messages: [...current.messages, { role: 'user', content: '' }],
+              }))
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add message
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label className="text-sm font-medium text-gray-700">Prompt</Label>
+            {templateBox('prompt', `Question: ${fieldPlaceholder('field')}`)}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-sm font-medium text-gray-700">Completion</Label>
+            {templateBox('completion', fieldPlaceholder('answer'))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="jsonl-completed-only"
+          checked={template.completedOnly}
+          onCheckedChange={(checked) =>
+            updateTemplate((current) => ({ ...current, completedOnly: checked === true }))
+          }
+        />
+        <Label htmlFor="jsonl-completed-only" className="font-normal">Completed rows only</Label>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-sm text-amber-700 list-disc pl-5">
+          {issues.map((issue) => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function JsonlExportDialog({ open, onOpenChange, fields, onExport }: JsonlExportDialogProps) {
+  // Untouched, the template follows the fields (which may load after mount)
+  const [draft, setDraft] = useState<JsonlTemplate | null>(null);
+
+  const template = draft ?? createDefaultJsonlTemplate(fields);
+  const updateTemplate = (update: (current: JsonlTemplate) => JsonlTemplate) => {
+    setDraft((current) => update(current ?? createDefaultJsonlTemplate(fields)));
+  };
+
+  const issues = validateJsonlTemplate(template);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="jsonl-export-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Braces className="h-5 w-5 text-gray-600" />
+            Export JSONL for fine-tuning
+          </DialogTitle>
+          <DialogDescription>
+            Map fields into each record. Rows where any message comes out empty are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          <JsonlTemplateEditor template={template} onTemplateChange={updateTemplate} fields={fields} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onExport(template)}
+            disabled={issues.length > 0}
+            data-testid="jsonl-export-confirm-button"
+          >
+            Export JSONL
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
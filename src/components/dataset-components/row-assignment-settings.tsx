@@ -0,0 +1,521 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ClipboardList, Loader2, RefreshCw, Split, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fieldSelectionAPI } from '@/lib/api/field-config';
+import {
+  AssignRowsRequest,
+  AssignmentStrategy,
+  AssignmentSummary,
+  RowAssignmentsAPI,
+} from '@/lib/api/row-assignments';
+import { useToast } from '@/components/ui/toast';
+
+interface RowAssignmentSettingsProps {
+  datasetId: string;
+  // Users the dataset is shared with (saved access list)
+  annotators: { userId: string; email: string }[];
+}
+
+const STRATEGIES: { value: AssignmentStrategy; label: string; description: string }[] = [
+  {
+    value: 'round-robin',
+    label: 'Round-robin',
+    description: 'Deal rows out to the selected annotators in turn',
+  },
+  {
+    value: 'ranges',
+    label: 'Row ranges',
+    description: 'Give each annotator a block of consecutive rows',
+  },
+  {
+    value: 'metadata',
+    label: 'Metadata filter',
+    description: 'Assign rows whose column matches a value',
+  },
+];
+
+export function RowAssignmentSettings({ datasetId, annotators }: RowAssignmentSettingsProps) {
+  const { showToast } = useToast();
+  const [summary, setSummary] = useState<AssignmentSummary | null>(null);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  const [clearingUserId, setClearingUserId] = useState<string | null>(null);
+  const [confirmingClearUserId, setConfirmingClearUserId] = useState<string | null>(null);
+
+  // Assignment form state
+  const [strategy, setStrategy] = useState<AssignmentStrategy>('round-robin');
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [ranges, setRanges] = useState<Record<string, { startRow: string; endRow: string }>>({});
+  const [metadataColumns, setMetadataColumns] = useState<string[]>([]);
+  const [metadataField, setMetadataField] = useState('');
+  const [ruleValues, setRuleValues] = useState<Record<string, string>>({});
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [overlapEnabled, setOverlapEnabled] = useState(false);
+  const [overlapPercentage, setOverlapPercentage] = useState('10');
+  const [annotatorsPerRow, setAnnotatorsPerRow] = useState('2');
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setLoadingSummary(true);
+      setSummary(await RowAssignmentsAPI.getAssignmentSummary(datasetId));
+    } catch {
+      showToast({
+        title: 'Error',
+        description: 'Failed to load assignment progress',
+        type: 'error',
+      });
+    } finally {
+      setLoadingSummary(false);
+    }
+  }, [datasetId, showToast]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // Existing CSV columns can be used to route rows to annotators
+  useEffect(() => {
+    fieldSelectionAPI
+      .getDatasetFieldConfig(datasetId)
+      .then((config) => {
+        const columns = (config?.annotationFields || [])
+          .filter((field: any) => !field.isNewColumn)
+          .map((field: any) => field.fieldName as string);
+        setMetadataColumns(columns);
+      })
+      .catch(() => setMetadataColumns([]));
+  }, [datasetId]);
+
+  // Everyone the dataset is shared with is selected by default
+  const annotatorIds = annotators.map((annotator) => annotator.userId).join(',');
+  useEffect(() => {
+    setSelectedUserIds(annotatorIds ? annotatorIds.split(',') : []);
+  }, [annotatorIds]);
+
+  const toggleUser = (userId: string, checked: boolean) => {
+    setSelectedUserIds((ids) =>
+      checked ? [...ids, userId] : ids.filter((id) => id !== userId)
+    );
+  };
+
+  const updateRange = (userId: string, key: 'startRow' | 'endRow', value: string) => {
+    setRanges((current) => ({
+      ...current,
+      [userId]: { ...(current[userId] ?? { startRow: '', endRow: '' }), [key]: value },
+    }));
+  };
+
+  const buildRequest = (): AssignRowsRequest | string => {
+    if (selectedUserIds.length === 0) {
+      return 'Select at least one annotator';
+    }
+
+    if (strategy === 'round-robin') {
+      if (!overlapEnabled) {
+        return { strategy, userIds: selectedUserIds, replaceExisting };
+      }
+
+      const percentage = Number(overlapPercentage);
+      const perRow = Number(annotatorsPerRow);
+      if (!(percentage > 0 && percentage <= 100)) {
+        return 'Overlap must be between 1 and 100 percent of rows';
+      }
+      if (!Number.isInteger(perRow) || perRow < 2 || perRow > selectedUserIds.length) {
+        return `Overlapping rows need 2 to ${selectedUserIds.length} annotators`;
+      }
+      return {
+        strategy,
+        userIds: selectedUserIds,
+        overlap: { percentage, annotatorsPerRow: perRow },
+        replaceExisting,
+      };
+    }
+
+    if (strategy === 'ranges') {
+      const assignmentRanges = selectedUserIds.map((userId) => ({
+        userId,
+        startRow: Number(ranges[userId]?.startRow),
+        endRow: Number(ranges[userId]?.endRow),
+      }));
+      const invalid = assignmentRanges.some(
+        (range) =>
+          !Number.isInteger(range.startRow) ||
+          !Number.isInteger(range.endRow) ||
+          range.startRow < 1 ||
+          range.endRow < range.startRow ||
+          (summary !== null && range.endRow > summary.totalRows)
+      );
+      if (invalid) {
+        return 'Enter a valid row range for every selected annotator';
+      }
+      return { strategy, ranges: assignmentRanges, replaceExisting };
+    }
+
+    if (!metadataField) {
+      return 'Choose the column to match';
+    }
+    const rules = selectedUserIds
+      .filter((userId) => ruleValues[userId]?.trim())
+      .map((userId) => ({ userId, fieldName: metadataField, value: ruleValues[userId].trim() }));
+    if (rules.length === 0) {
+      return 'Enter a value for at least one annotator';
+    }
+    return { strategy, rules, replaceExisting };
+  };
+
+  const handleAssign = async () => {
+    const request = buildRequest();
+    if (typeof request === 'string') {
+      showToast({ title: 'Invalid Assignment', description: request, type: 'error' });
+      return;
+    }
+
+    try {
+      setAssigning(true);
+      const result = await RowAssignmentsAPI.assignRows(datasetId, request);
+      setSummary(result);
+      showToast({
+        title: 'Success',
+        description: `${result.assignedRows} of ${result.totalRows} rows are now assigned`,
+        type: 'success',
+      });
+    } catch (error: any) {
+      showToast({
+        title: 'Error',
+        description: error.response?.data?.message || 'Failed to assign rows',
+        type: 'error',
+      });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const handleClear = async (userId?: string) => {
+    try {
+      setClearingUserId(userId ?? 'all');
+      setSummary(await RowAssignmentsAPI.clearAssignments(datasetId, userId));
+      showToast({
+        title: 'Success',
+        description: userId ? 'Assignments removed for this annotator' : 'All assignments removed',
+        type: 'success',
+      });
+    } catch {
+      showToast({
+        title: 'Error',
+        description: 'Failed to remove assignments',
+        type: 'error',
+      });
+    } finally {
+      setClearingUserId(null);
+      setConfirmingClearUserId(null);
+    }
+  };
+
+  const annotatorEmail = (userId: string) =>
+    annotators.find((annotator) => annotator.userId === userId)?.email || userId;
+
+  return (
+    <Card className="shadow-sm" data-testid="row-assignment-settings">
+      <CardHeader className="pb-4">
+        <div className="flex items-center space-x-2">
+          <Split className="h-5 w-5 text-blue-600" />
+          <CardTitle className="text-lg">Row Assignments</CardTitle>
+        </div>
+        <CardDescription>
+          Split the dataset&apos;s rows among annotators. Each annotator only sees their assigned rows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {annotators.length === 0 ? (
+          <div className="text-center py-6 text-gray-500" data-testid="row-assignment-empty-state">
+            <ClipboardList className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Share this dataset with users to assign rows to them</p>
+          </div>
+        ) : (
+          <>
+            {/* Strategy */}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium text-gray-700">Strategy</Label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {STRATEGIES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setStrategy(option.value)}
+                    data-testid={`row-assignment-strategy-${option.value}`}
+                    className={cn(
+                      'p-3 rounded-lg border-2 text-left transition-all hover:shadow-sm',
+                      strategy === option.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-900 shadow-sm'
+                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                    )}
+                  >
+                    <span className="text-sm font-medium block">{option.label}</span>
+                    <span className="text-xs text-gray-500">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {strategy === 'metadata' && (
+              <div>
+                <Label className="text-sm font-medium text-gray-700">Column</Label>
+                <Select value={metadataField} onValueChange={setMetadataField}>
+                  <SelectTrigger className="mt-1 h-10" data-testid="row-assignment-metadata-field">
+                    <SelectValue placeholder="Choose column..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {metadataColumns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Annotators */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Annotators</Label>
+              {annotators.map((annotator) => {
+                const isSelected = selectedUserIds.includes(annotator.userId);
+                return (
+                  <div
+                    key={annotator.userId}
+                    className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg border"
+                    data-testid={`row-assignment-annotator-${annotator.userId}`}
+                  >
+                    <Checkbox
+                      id={`assign-${annotator.userId}`}
+                      checked={isSelected}
+                      onCheckedChange={(checked) => toggleUser(annotator.userId, checked)}
+                    />
+                    <Label htmlFor={`assign-${annotator.userId}`} className="flex-1 text-sm text-gray-900">
+                      {annotator.email}
+                    </Label>
+
+                    {isSelected && strategy === 'ranges' && (
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <span>Rows</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={ranges[annotator.userId]?.startRow || ''}
+                          onChange={(e) => updateRange(annotator.userId, 'startRow', e.target.value)}
+                          className="h-8 w-24"
+                          placeholder="From"
+                        />
+                        <span>to</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={ranges[annotator.userId]?.endRow || ''}
+                          onChange={(e) => updateRange(annotator.userId, 'endRow', e.target.value)}
+                          className="h-8 w-24"
+                          placeholder="To"
+                        />
+                      </div>
+                    )}
+
+                    {isSelected && strategy === 'metadata' && (
+                      <Input
+                        value={ruleValues[annotator.userId] || ''}
+                        onChange={(e) =>
+                          setRuleValues((current) => ({ ...current, [annotator.userId]: e.target.value }))
+                        }
+                        className="h-8 w-48"
+                        placeholder={metadataField ? `${metadataField} equals...` : 'Value'}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Overlap for inter-annotator agreement */}
+            {strategy === 'round-robin' && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="assign-overlap"
+                    checked={overlapEnabled}
+                    onCheckedChange={setOverlapEnabled}
+                  />
+                  <Label htmlFor="assign-overlap" className="text-sm text-gray-700">
+                    Label some rows independently by several annotators
+                  </Label>
+                </div>
+                {overlapEnabled && (
+                  <div className="flex items-center gap-2" data-testid="row-assignment-overlap">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={overlapPercentage}
+                      onChange={(e) => setOverlapPercentage(e.target.value)}
+                      className="h-8 w-20"
+                    />
+                    <span>% of rows, by</span>
+                    <Input
+                      type="number"
+                      min={2}
+                      max={selectedUserIds.length}
+                      value={annotatorsPerRow}
+                      onChange={(e) => setAnnotatorsPerRow(e.target.value)}
+                      className="h-8 w-16"
+                    />
+                    <span>annotators each</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="assign-replace-existing"
+                  checked={replaceExisting}
+                  onCheckedChange={setReplaceExisting}
+                />
+                <Label htmlFor="assign-replace-existing" className="text-sm text-gray-700">
+                  Reassign rows that already have an annotator
+                </Label>
+              </div>
+              <Button
+                onClick={handleAssign}
+                disabled={assigning}
+                data-testid="row-assignment-assign-button"
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {assigning ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Split className="h-4 w-4 mr-2" />
+                )}
+                Assign Rows
+              </Button>
+            </div>
+          </>
+        )}
+
+        {/* Per-assignee progress */}
+        <div className="space-y-3 pt-4 border-t border-gray-100" data-testid="row-assignment-progress">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium text-gray-700">Progress</Label>
+            <div className="flex items-center gap-2">
+              {summary && (
+                <span className="text-xs text-gray-500">
+                  {summary.assignedRows} assigned · {summary.unassignedRows} unassigned
+                  {summary.overlapRows > 0 && ` · ${summary.overlapRows} overlapping`}
+                </span>
+              )}
+              <Button variant="ghost" size="sm" onClick={loadSummary} disabled={loadingSummary}>
+                <RefreshCw className={cn('h-4 w-4', loadingSummary && 'animate-spin')} />
+              </Button>
+            </div>
+          </div>
+
+          {!summary || summary.assignees.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No rows are assigned yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {summary.assignees.map((assignee) => {
+                const percentage = assignee.assignedRows > 0
+                  ? Math.round((assignee.completedRows / assignee.assignedRows) * 100)
+                  : 0;
+                const name = [assignee.firstName, assignee.lastName].filter(Boolean).join(' ');
+
+                return (
+                  <div
+                    key={assignee.userId}
+                    className="p-3 bg-gray-50 rounded-lg border"
+                    data-testid={`row-assignment-progress-${assignee.userId}`}
+                  >
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {name || assignee.email || annotatorEmail(assignee.userId)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {assignee.completedRows} / {assignee.assignedRows} rows completed
+                          {assignee.lastActivityAt &&
+                            ` · last active ${new Date(assignee.lastActivityAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-sm font-medium text-gray-700">{percentage}%</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            confirmingClearUserId === assignee.userId
+                              ? handleClear(assignee.userId)
+                              : setConfirmingClearUserId(assignee.userId)
+                          }
+                          disabled={clearingUserId !== null}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          data-testid={`row-assignment-clear-${assignee.userId}`}
+                        >
+                          {clearingUserId === assignee.userId ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : confirmingClearUserId === assignee.userId ? (
+                            'Confirm'
+                          ) : (
+                            <X className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-green-500 transition-all"
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    confirmingClearUserId === 'all' ? handleClear() : setConfirmingClearUserId('all')
+                  }
+                  disabled={clearingUserId !== null}
+                  className="text-red-600 hover:text-red-700"
+                  data-testid="row-assignment-clear-all"
+                >
+                  {clearingUserId === 'all' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {confirmingClearUserId === 'all' ? 'Confirm remove all' : 'Remove all assignments'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { fieldSelectionAPI } from '@/lib/api/field-config';
 import { datasetsAPI } from '@/lib/api/datasets';
+import { AnnotationLabel } from '@/lib/api/dataset-annotation-types';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -93,6 +94,8 @@ export function FieldConfig({
     [],
   );
   const [newColumns, setNewColumns] = useState<NewColumn[]>([]);
+  // Labels are not edited here, but saving must keep them (image regions use them)
+  const [annotationLabels, setAnnotationLabels] = useState<AnnotationLabel[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [datasetLoadingError, setDatasetLoadingError] = useState<string | null>(
@@ -196,6 +199,7 @@ export function FieldConfig({
 
         setAnnotationFields(cleanFields);
         setNewColumns(config.newColumns || []);
+        setAnnotationLabels(config.annotationLabels || []);
         
         // Update selected columns based on existing annotation fields
         const existingColumnNames = cleanFields
@@ -520,7 +524,7 @@ export function FieldConfig({
           isNewColumn: field.isNewColumn,
           newColumnId: field.newColumnId,
         })),
-        annotationLabels: [], // Empty array since we removed annotation labels
+        annotationLabels,
         newColumns: newColumns.map((column) => ({
           id: column.id,
           columnName: column.columnName,
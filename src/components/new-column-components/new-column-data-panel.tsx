@@ -6,18 +6,26 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { CheckCircle, GripVertical } from 'lucide-react';
 import { AnnotationConfig } from '@/lib/api/dataset-annotation-types';
+import { ExportProgress } from '@/lib/dataset-export-helper';
 import { ExportDropdown, ExportOption } from '@/components/ui/export-dropdown';
 import { ImageThumbnails } from '@/components/annotation-components/image-thumbnails';
 import { MarkdownField } from '@/components/annotation-components/markdown-field';
 import { NumberField } from '@/components/annotation-components/number-field';
 import { cn } from '@/lib/utils';
 import { DragDropHelper } from '@/lib/drag-drop-helper';
+import { formatShortcut, NUMBER_PLACEHOLDER } from '@/lib/keyboard-shortcuts';
 import { NewColumnInput } from './new-column-input';
 
 interface NewColumnData {
   [fieldName: string]: string;
 }
 
+// A value someone else entered for a field, offered as a one-click choice
+export interface CandidateValue {
+  label: string;
+  value: string;
+}
+
 interface NewColumnDataPanelProps {
   annotationConfig: AnnotationConfig | null;
   newColumnData: NewColumnData;
@@ -26,6 +34,11 @@ interface NewColumnDataPanelProps {
   onSaveAllNewColumnData: () => void;
   onExportSelectedColumns: () => void;
   onExportAllColumns: () => void;
+  // Further formats, listed after the CSV exports
+  extraExportOptions?: ExportOption[];
+  isExporting?: boolean;
+  exportProgress?: ExportProgress | null;
+  onCancelExport?: () => void;
   isSaving: boolean;
   datasetId?: string;
   rowIndex?: number;
@@ -41,6 +54,16 @@ interface NewColumnDataPanelProps {
   onAnnotationFieldDragStart?: (e: React.DragEvent, fieldName: string) => void;
   onAnnotationFieldDragOver?: (e: React.DragEvent) => void;
   onAnnotationFieldDrop?: (e: React.DragEvent, targetFieldName: string) => void;
+  // Field targeted by keyboard shortcuts (option picking, image toggling)
+  activeFieldName?: string | null;
+  onActivateField?: (fieldName: string | null) => void;
+  // Binding used to focus the Nth field, shown as a hint next to each label
+  focusFieldShortcut?: string;
+  // Adjudication: each annotator's value per field, shown above the input
+  candidateValues?: Record<string, CandidateValue[]>;
+  title?: string;
+  description?: string;
+  saveLabel?: string;
 }
 
 export function NewColumnDataPanel({
@@ -51,6 +74,10 @@ export function NewColumnDataPanel({
   onSaveAllNewColumnData,
   onExportSelectedColumns,
   onExportAllColumns,
+  extraExportOptions = [],
+  isExporting = false,
+  exportProgress,
+  onCancelExport,
   isSaving,
   datasetId,
   rowIndex,
@@ -62,6 +89,13 @@ export function NewColumnDataPanel({
   onAnnotationFieldDragStart,
   onAnnotationFieldDragOver,
   onAnnotationFieldDrop,
+  activeFieldName,
+  onActivateField,
+  focusFieldShortcut,
+  candidateValues,
+  title = 'Annotation',
+  description = 'Enter annotation values',
+  saveLabel = 'Save and Continue',
 }: NewColumnDataPanelProps) {
   // State for managing text expansion
   const [expandedFields, setExpandedFields] = useState<Set<string>>(new Set());
@@ -87,6 +121,7 @@ export function NewColumnDataPanel({
       description: 'Export all original CSV columns plus new annotation columns',
       action: onExportAllColumns,
     },
+    ...extraExportOptions,
   ];
 
 
@@ -124,23 +159,26 @@ export function NewColumnDataPanel({
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-lg font-semibold text-gray-900" data-testid="annotation-panel-title">
-            Annotation
+              {title}
             </h2>
             <p className="text-sm text-gray-500 mt-1">
-              Enter annotation values
+              {description}
             </p>
           </div>
           <div className="flex items-center space-x-4">
             <ExportDropdown 
               options={exportOptions}
-              disabled={isSaving}
+              disabled={isSaving || isExporting}
+              isExporting={isExporting}
+              progress={exportProgress}
+              onCancel={onCancelExport}
             />
           </div>
         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {annotationFields.map((field) => {
+        {annotationFields.map((field, fieldIndex) => {
           // Use DragDropHelper to determine if field can be dragged
           const dragValidation = DragDropHelper.canDragField(field, 'annotation');
           const isDraggable = dragValidation.canDrag;
@@ -150,9 +188,18 @@ export function NewColumnDataPanel({
              <div 
                key={field.fieldName} 
                data-testid={`annotation-field-${field.fieldName}`}
+               data-shortcut-field-index={fieldIndex + 1}
+               data-shortcut-field-name={field.fieldName}
+               data-shortcut-active={activeFieldName === field.fieldName}
+               tabIndex={-1}
+               onFocusCapture={() => onActivateField?.(field.fieldName)}
+               onBlurCapture={(e) => {
+                 if (!e.currentTarget.contains(e.relatedTarget as Node | null)) onActivateField?.(null);
+               }}
                className={cn(
-                 "space-y-2 p-4 border border-gray-200 rounded-lg transition-all duration-200",
+                 "space-y-2 p-4 border border-gray-200 rounded-lg transition-all duration-200 outline-none",
                  isDraggable ? "bg-gray-50 hover:bg-gray-100 hover:shadow-md cursor-move" : "bg-white",
+                 activeFieldName === field.fieldName && "border-blue-300 ring-2 ring-blue-100",
                  (draggedField === field.csvColumnName || draggedField === field.fieldName) && "opacity-50 bg-blue-50 border-blue-300"
                )}
                draggable={isDraggable}
@@ -174,13 +221,60 @@ export function NewColumnDataPanel({
                     )}
                   </Label>
                 </div>
-                {field.isNewColumn && (
-                  <div className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded" data-testid={`annotation-field-new-column-${field.fieldName}`}>
-                    New Column
-                  </div>
-                )}
+                <div className="flex items-center space-x-2">
+                  {focusFieldShortcut && fieldIndex < 9 && (
+                    <kbd className="text-xs font-mono text-gray-400" data-testid={`annotation-field-shortcut-${field.fieldName}`}>
+                      {formatShortcut(focusFieldShortcut.replace(NUMBER_PLACEHOLDER, String(fieldIndex + 1)))}
+                    </kbd>
+                  )}
+                  {field.isNewColumn && (
+                    <div className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded" data-testid={`annotation-field-new-column-${field.fieldName}`}>
+                      New Column
+                    </div>
+                  )}
+                </div>
               </div>
-              
+
+              {/* Values entered by annotators; picking one copies it into the field */}
+              {candidateValues?.[field.fieldName] && candidateValues[field.fieldName].length > 0 && (() => {
+                const candidates = candidateValues[field.fieldName];
+                const current = (newColumnData[field.fieldName] || '').trim();
+                const isDisputed = new Set(candidates.map((candidate) => candidate.value.trim())).size > 1;
+
+                return (
+                  <div
+                    className={cn(
+                      'space-y-1 p-2 rounded-md border',
+                      isDisputed ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-gray-50'
+                    )}
+                    data-testid={`annotation-field-candidates-${field.fieldName}`}
+                  >
+                    {candidates.map((candidate, candidateIndex) => {
+                      const isChosen = candidate.value.trim() === current;
+                      return (
+                        <div key={candidateIndex} className="flex items-start justify-between gap-2 text-sm">
+                          <div className="min-w-0">
+                            <span className="text-gray-500">{candidate.label}: </span>
+                            <span className="text-gray-900 whitespace-pre-wrap break-words">
+                              {candidate.value || '(empty)'}
+                            </span>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant={isChosen ? 'default' : 'outline'}
+                            className="h-6 px-2 text-xs shrink-0"
+                            onClick={() => onNewColumnChange(field.fieldName, candidate.value)}
+                            disabled={isChosen}
+                          >
+                            {isChosen ? 'Chosen' : 'Use'}
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })()}
+
               {/* Content display with different field types */}
               {(() => {
                 const content = newColumnData[field.fieldName] || '';
@@ -196,6 +290,7 @@ export function NewColumnDataPanel({
                       rowIndex={rowIndex}
                       fieldName={field.fieldName}
                       imageAuthConfig={imageAuthConfig}
+                      annotationLabels={annotationConfig?.annotationLabels}
                     />
                   );
                 }
@@ -354,7 +449,7 @@ export function NewColumnDataPanel({
             className="bg-green-600 hover:bg-green-700 text-white font-medium px-6 py-2"
           >
             <CheckCircle className="h-4 w-4 mr-2" />
-            {isSaving ? 'Saving...' : 'Save and Continue'}
+            {isSaving ? 'Saving...' : saveLabel}
           </Button>
         </div>
       </div>
@@ -1,8 +1,9 @@
 'use client';
 
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Cloud, CloudOff, Keyboard, Loader2, Redo2, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ROW_STATUS_LABELS, RowStatus } from '@/lib/row-status';
 
 interface Task {
   id: string;
@@ -10,44 +11,107 @@ interface Task {
   fileName: string;
   fileType: 'text' | 'image' | 'audio';
   filePath: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'needs_review';
+  status: RowStatus;
   assignedTo?: string;
   metadata?: Record<string, any>;
   annotations?: any[];
-  createdAt: Date;
-  updatedAt: Date;
 }
 
 interface RowFooterProps {
-  tasks: Task[];
+  // Rows are loaded in pages, so tasks are looked up by position instead of passed as an array
+  getTaskAt: (index: number) => Task | undefined;
   currentTaskIndex: number;
   onNavigateTask: (direction: 'prev' | 'next') => void;
   onJumpToRow: (rowIndex: number) => void;
   onMarkAsCompleted?: (rowIndex: number) => void;
-  completedCount?: number;
-  totalCount?: number;
+  completedCount: number;
+  // Word after the completed count, e.g. "reviewed" in review mode
+  completedLabel?: string;
+  totalCount: number;
+  // Rows the progress covers when it differs from the rows navigated, e.g. every row
+  // that entered review while only those still awaiting review can be navigated
+  progressTotal?: number;
+  isLoadingRow?: boolean;
+  // Save queue state: edits waiting to sync, and edits needing a decision (conflict/failed)
+  pendingSaveCount?: number;
+  unresolvedSaveCount?: number;
+  currentRowSaveIssue?: 'conflict' | 'failed';
+  onResolveSaveIssue?: (resolution: 'overwrite' | 'discard') => void;
+  onShowShortcuts?: () => void;
+  // When a row filter is active, navigation skips non-matching rows and counts cover matches only
+  isFilterActive?: boolean;
+  filterCounts?: { matchingRows: number; completedRows: number } | null;
+  // Undo/redo of edits on the current row
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
+const STATUS_BUTTON_CLASSES: Record<RowStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+  in_progress: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
+  completed: 'bg-green-500 text-white hover:bg-green-600',
+  needs_review: 'bg-amber-400 text-white hover:bg-amber-500',
+  approved: 'bg-green-700 text-white hover:bg-green-800',
+  rejected: 'bg-red-500 text-white hover:bg-red-600',
+};
+
 export function RowFooter({
-  tasks,
+  getTaskAt,
   currentTaskIndex,
   onNavigateTask,
   onJumpToRow,
   onMarkAsCompleted,
   completedCount,
+  completedLabel = 'completed',
   totalCount,
+  progressTotal,
+  isLoadingRow = false,
+  pendingSaveCount = 0,
+  unresolvedSaveCount = 0,
+  currentRowSaveIssue,
+  onResolveSaveIssue,
+  onShowShortcuts,
+  isFilterActive = false,
+  filterCounts,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
 }: RowFooterProps) {
-  const annotatedTasks = tasks.filter(
-    (task) => task.status === 'completed',
-  );
-  const unannotatedTasks = tasks.filter(
-    (task) => task.status !== 'completed',
-  );
+  const countedRows = isFilterActive ? filterCounts?.matchingRows ?? 0 : progressTotal ?? totalCount;
+  const countedCompleted = isFilterActive ? filterCounts?.completedRows ?? 0 : completedCount;
+  const completionPercent = countedRows > 0 ? Math.round((countedCompleted / countedRows) * 100) : 0;
 
-  // Use provided counts or calculate from tasks
-  const finalCompletedCount = completedCount ?? annotatedTasks.length;
-  const finalTotalCount = totalCount ?? tasks.length;
-  const completionPercent = finalTotalCount > 0 ? Math.round((finalCompletedCount / finalTotalCount) * 100) : 0;
+  // Row buttons are laid out by position but labelled and jumped to by rowIndex
+  const renderRowButton = (index: number, titleSuffix = '') => {
+    const task = getTaskAt(index);
+    if (!task) {
+      return (
+        <span key={`loading-${index}`} className="px-2 py-1 text-xs text-gray-400">
+          …
+        </span>
+      );
+    }
+
+    return (
+      <button
+        key={task.rowIndex}
+        onClick={() => onJumpToRow(task.rowIndex)}
+        data-testid={`row-footer-button-${task.rowIndex}`}
+        className={cn(
+          'px-2 py-1 text-xs rounded transition-colors',
+          index === currentTaskIndex
+            ? 'bg-blue-600 text-white'
+            : STATUS_BUTTON_CLASSES[task.status]
+        )}
+        title={`Row ${task.rowIndex} - ${ROW_STATUS_LABELS[task.status]}${titleSuffix}`}
+      >
+        {task.rowIndex}
+      </button>
+    );
+  };
 
   return (
       <div className="bg-white border-t border-gray-200 p-4" data-testid="annotation-workbench-row-footer">
@@ -55,8 +119,86 @@ export function RowFooter({
           {/* Left: Row info and Progress */}
           <div className="flex items-center w-1/3 space-x-4">
             <span className="text-sm text-gray-600">
-              Total Rows: {tasks.length}
+              Total Rows: {totalCount}
             </span>
+            {onShowShortcuts && (
+              <button
+                onClick={onShowShortcuts}
+                data-testid="row-footer-shortcuts-button"
+                className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                title="Keyboard shortcuts"
+              >
+                <Keyboard className="h-4 w-4" />
+              </button>
+            )}
+            {onUndo && onRedo && (
+              <div className="flex items-center">
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  data-testid="row-footer-undo-button"
+                  className="p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                  title="Undo"
+                >
+                  <Undo2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  data-testid="row-footer-redo-button"
+                  className="p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                  title="Redo"
+                >
+                  <Redo2 className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+            {/* Save queue indicator */}
+            {unresolvedSaveCount > 0 ? (
+              <span className="flex items-center text-xs text-red-600" data-testid="row-footer-save-status" title="Some saves need your attention">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {unresolvedSaveCount} unsynced
+              </span>
+            ) : pendingSaveCount > 0 ? (
+              <span className="flex items-center text-xs text-amber-600" data-testid="row-footer-save-status" title="Saves will retry when the connection returns">
+                <CloudOff className="h-3 w-3 mr-1" />
+                {pendingSaveCount} pending
+              </span>
+            ) : (
+              <span className="flex items-center text-xs text-green-600" data-testid="row-footer-save-status">
+                <Cloud className="h-3 w-3 mr-1" />
+                Synced
+              </span>
+            )}
+            {currentRowSaveIssue && onResolveSaveIssue && (
+              <div className="flex items-center space-x-1" data-testid="row-footer-save-issue">
+                <span className="text-xs text-red-600">
+                  {currentRowSaveIssue === 'conflict' ? 'Changed on server' : 'Save rejected'}
+                </span>
+                {currentRowSaveIssue === 'conflict' && (
+                  <button
+                    onClick={() => onResolveSaveIssue('overwrite')}
+                    data-testid="row-footer-save-issue-overwrite"
+                    className="px-2 py-0.5 text-xs rounded bg-red-50 text-red-700 hover:bg-red-100"
+                  >
+                    Keep mine
+                  </button>
+                )}
+                <button
+                  onClick={() => onResolveSaveIssue('discard')}
+                  data-testid="row-footer-save-issue-discard"
+                  className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Use server
+                </button>
+              </div>
+            )}
+            {isLoadingRow && (
+              <span className="flex items-center text-xs text-gray-500" data-testid="row-footer-loading">
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                Loading row...
+              </span>
+            )}
            </div>
 
           {/* Center: Previous + Jump to Row + Next */}
@@ -72,101 +214,36 @@ export function RowFooter({
             </Button>
             
             <div className="flex space-x-2">
-              {/* Simple pagination: show all rows for small datasets */}
-              {tasks.length <= 10 ? (
+              {/* Filtered navigation: row numbers would include rows that are skipped */}
+              {isFilterActive ? (
+                <span className="text-sm text-gray-600" data-testid="row-footer-filter-status">
+                  Row {getTaskAt(currentTaskIndex)?.rowIndex ?? '…'} · {filterCounts ? `${filterCounts.matchingRows} matching` : 'counting...'}
+                </span>
+              ) : totalCount <= 10 ? (
                 // Show all rows if 10 or fewer
-                tasks.map((task, index) => (
-                  <button
-                    key={task.rowIndex}
-                    onClick={() => onJumpToRow(task.rowIndex)}
-                    data-testid={`row-footer-button-${task.rowIndex}`}
-                    className={cn(
-                      'px-2 py-1 text-xs rounded transition-colors',
-                      index === currentTaskIndex
-                        ? 'bg-blue-600 text-white'
-                        : task.status === 'completed'
-                        ? 'bg-green-500 text-white hover:bg-green-600'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    )}
-                    title={`Row ${task.rowIndex} - ${task.status || 'pending'}`}
-                  >
-                    {task.rowIndex}
-                  </button>
-                ))
+                Array.from({ length: totalCount }, (_, index) => renderRowButton(index))
               ) : (
                 // Show paginated view for larger datasets
                 <>
                   {/* First row */}
                   {currentTaskIndex > 2 && (
                     <>
-                      <button
-                        onClick={() => onJumpToRow(tasks[0].rowIndex)}
-                        data-testid={`row-footer-button-${tasks[0].rowIndex}`}
-                        className={
-                          cn(
-                            'px-2 py-1 text-xs rounded transition-colors',
-                            currentTaskIndex === 0
-                              ? 'bg-blue-600 text-white'
-                              : tasks[0].status === 'completed'
-                              ? 'bg-green-500 text-white hover:bg-green-600'
-                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
-                          )
-                        }
-                        title={`Row ${tasks[0].rowIndex} - ${tasks[0].status || 'pending'}`}
-                      >
-                        {tasks[0].rowIndex}
-                      </button>
+                      {renderRowButton(0)}
                       {currentTaskIndex > 3 && <span className="text-xs text-gray-500 px-1">...</span>}
                     </>
                   )}
                   
                   {/* Current row ±2 */}
-                  {Array.from({ length: Math.min(5, tasks.length) }, (_, i) => {
-                    const startIndex = Math.max(0, Math.min(currentTaskIndex - 2, tasks.length - 5));
-                    const taskIndex = startIndex + i;
-                    const task = tasks[taskIndex];
-                    
-                    if (!task || taskIndex >= tasks.length) return null;
-                    
-                    return (
-                      <button
-                        key={task.rowIndex}
-                        onClick={() => onJumpToRow(task.rowIndex)}
-                        data-testid={`row-footer-button-${task.rowIndex}`}
-                        className={cn(
-                          'px-2 py-1 text-xs rounded transition-colors',
-                          taskIndex === currentTaskIndex
-                            ? 'bg-blue-600 text-white'
-                            : task.status === 'completed'
-                            ? 'bg-green-500 text-white hover:bg-green-600'
-                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                        )}
-                        title={`Row ${task.rowIndex} - ${task.status || 'pending'}`}
-                      >
-                        {task.rowIndex}
-                      </button>
-                    );
+                  {Array.from({ length: Math.min(5, totalCount) }, (_, i) => {
+                    const startIndex = Math.max(0, Math.min(currentTaskIndex - 2, totalCount - 5));
+                    return renderRowButton(startIndex + i);
                   })}
                   
                   {/* Last row */}
-                  {currentTaskIndex < tasks.length - 3 && (
+                  {currentTaskIndex < totalCount - 3 && (
                     <>
-                      {currentTaskIndex < tasks.length - 4 && <span className="text-xs text-gray-500 px-1">...</span>}
-                      <button
-                        onClick={() => onJumpToRow(tasks[tasks.length - 1].rowIndex)}
-                        data-testid={`row-footer-button-${tasks[tasks.length - 1].rowIndex}`}
-                        className={cn(
-                          'px-2 py-1 text-xs rounded transition-colors',
-                          currentTaskIndex === tasks.length - 1
-                            ? 'bg-blue-600 text-white'
-                            : tasks[tasks.length - 1].status === 'completed'
-                            ? 'bg-green-500 text-white hover:bg-green-600'
-                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                        )}
-                        title={`Row ${tasks[tasks.length - 1].rowIndex} - ${(tasks[tasks.length - 1].status || 'pending')} (Last row)`}
-                      >
-                        {tasks[tasks.length - 1].rowIndex}
-                      </button>
+                      {currentTaskIndex < totalCount - 4 && <span className="text-xs text-gray-500 px-1">...</span>}
+                      {renderRowButton(totalCount - 1, ' (Last row)')}
                     </>
                   )}
                 </>
@@ -175,7 +252,7 @@ export function RowFooter({
             
             <Button
               onClick={() => onNavigateTask('next')}
-              disabled={currentTaskIndex === tasks.length - 1}
+              disabled={currentTaskIndex >= totalCount - 1}
               data-testid="row-footer-next-button"
               className="bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
@@ -196,11 +273,11 @@ export function RowFooter({
                </div>
             <div className="flex items-center space-x-1">
               <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
-              <span className="text-gray-600" data-testid="row-footer-pending-count">{finalTotalCount - finalCompletedCount} pending</span>
+              <span className="text-gray-600" data-testid="row-footer-pending-count">{countedRows - countedCompleted} pending</span>
             </div>
             <div className="flex items-center space-x-1">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span className="text-gray-600" data-testid="row-footer-completed-count">{finalCompletedCount} completed</span>
+              <span className="text-gray-600" data-testid="row-footer-completed-count">{countedCompleted} {completedLabel}</span>
             </div>
           </div>
         </div>
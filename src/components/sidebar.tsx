@@ -16,6 +16,7 @@ import {
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import { UserRole, USER_ROLE_LABELS } from '@/lib/api/users';
 import { LogoutConfirmationModal } from '@/components/ui/logout-confirmation-modal';
 
 interface SidebarProps {
@@ -150,10 +151,12 @@ export function Sidebar({ className, forceCollapsed = false }: SidebarProps) {
                       'px-2 py-0.5 text-xs font-medium rounded-full',
                       user.role === 'admin'
                         ? 'bg-gradient-to-r from-purple-100 to-pink-100 text-purple-700 border border-purple-200'
+                        : user.role === 'reviewer'
+                        ? 'bg-gradient-to-r from-amber-100 to-yellow-100 text-amber-700 border border-amber-200'
                         : 'bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-700 border border-blue-200'
                     )}
                   >
-                    {user.role === 'admin' ? 'Admin' : 'User'}
+                    {USER_ROLE_LABELS[user.role as UserRole] ?? user.role}
                   </span>
                 )}
               </div>
@@ -1,13 +1,14 @@
 'use client';
 
 import { useState } from 'react';
-import { FileText} from 'lucide-react';
+import { FileText, Loader2, X } from 'lucide-react';
 import {
   Select,
   SelectContent,
   SelectItem,
   SelectTrigger,
 } from '@/components/ui/select';
+import { ExportProgress } from '@/lib/dataset-export-helper';
 
 export interface ExportOption {
   id: string;
@@ -19,11 +20,59 @@ export interface ExportOption {
 interface ExportDropdownProps {
   options: ExportOption[];
   disabled?: boolean;
+  // While an export runs, show its progress in place of the dropdown
+  isExporting?: boolean;
+  progress?: ExportProgress | null;
+  onCancel?: () => void;
 }
 
-export function ExportDropdown({ options, disabled = false }: ExportDropdownProps) {
+function describeProgress(progress: ExportProgress | null | undefined): string {
+  if (!progress) return 'Starting export...';
+  switch (progress.phase) {
+    case 'annotations':
+      return 'Loading annotations...';
+    case 'images':
+      return `Measuring images ${progress.completed.toLocaleString()} / ${progress.total.toLocaleString()}`;
+    case 'rows':
+      return `Writing rows ${progress.completed.toLocaleString()} / ${progress.total.toLocaleString()}`;
+  }
+}
+
+export function ExportDropdown({ options, disabled = false, isExporting = false, progress, onCancel }: ExportDropdownProps) {
   const [selectedValue, setSelectedValue] = useState<string>('');
 
+  if (isExporting && onCancel) {
+    const percent = progress && progress.total > 0
+      ? Math.round((progress.completed / progress.total) * 100)
+      : 0;
+
+    return (
+      <div className="w-full rounded-md border border-green-600 bg-green-50 px-3 py-2" data-testid="export-progress">
+        <div className="flex items-center justify-between gap-2 text-sm text-green-800">
+          <div className="flex items-center min-w-0">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin flex-shrink-0" />
+            <span className="truncate">{describeProgress(progress)}</span>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center text-xs font-medium text-gray-600 hover:text-red-600"
+            data-testid="export-cancel-button"
+          >
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </button>
+        </div>
+        <div className="mt-2 w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className="bg-green-600 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   const handleValueChange = (value: string) => {
     const option = options.find(opt => opt.id === value);
     if (option) {
@@ -40,7 +89,7 @@ export function ExportDropdown({ options, disabled = false }: ExportDropdownProp
       >
         <div className="flex items-center text-white">
           <FileText className="h-4 w-4 mr-2 text-white" />
-          <span className="text-white">Export CSV</span>
+          <span className="text-white">Export</span>
         </div>
       </SelectTrigger>
       <SelectContent data-testid="export-dropdown-menu">
@@ -0,0 +1,106 @@
+'use client';
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Keyboard } from 'lucide-react';
+import {
+  formatShortcut,
+  ShortcutBindings,
+  SHORTCUT_DEFINITIONS,
+  SHORTCUT_GROUPS,
+} from '@/lib/keyboard-shortcuts';
+
+interface KeyboardShortcutsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bindings: ShortcutBindings;
+  // Extra shortcuts from the dataset configuration, e.g. annotation label hotkeys
+  extraShortcuts?: { id: string; keys: string; label: string; description?: string }[];
+}
+
+function ShortcutKeys({ keys }: { keys: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      {formatShortcut(keys).split('+').map((part, index) => (
+        <kbd
+          key={index}
+          className="min-w-[1.5rem] px-1.5 py-0.5 text-xs font-mono text-center text-gray-700 bg-gray-100 border border-gray-300 rounded"
+        >
+          {part}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+export function KeyboardShortcutsModal({
+  isOpen,
+  onClose,
+  bindings,
+  extraShortcuts = [],
+}: KeyboardShortcutsModalProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg" data-testid="keyboard-shortcuts-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="h-5 w-5 text-gray-600" />
+            Keyboard Shortcuts
+          </DialogTitle>
+          <DialogDescription>
+            Shortcuts can be changed from your profile settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {SHORTCUT_GROUPS.map((group) => (
+            <div key={group}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                {group}
+              </h3>
+              <div className="space-y-1">
+                {SHORTCUT_DEFINITIONS.filter((definition) => definition.group === group).map((definition) => (
+                  <div
+                    key={definition.id}
+                    className="flex items-center justify-between gap-4 py-1"
+                    data-testid={`keyboard-shortcut-${definition.id}`}
+                  >
+                    <div>
+                      <div className="text-sm text-gray-900">{definition.label}</div>
+                      <div className="text-xs text-gray-500">{definition.description}</div>
+                    </div>
+                    <ShortcutKeys keys={bindings[definition.id]} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {extraShortcuts.length > 0 && (
+            <div>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                Labels
+              </h3>
+              <div className="space-y-1">
+                {extraShortcuts.map((shortcut) => (
+                  <div
+                    key={shortcut.id}
+                    className="flex items-center justify-between gap-4 py-1"
+                    data-testid={`keyboard-shortcut-${shortcut.id}`}
+                  >
+                    <div>
+                      <div className="text-sm text-gray-900">{shortcut.label}</div>
+                      {shortcut.description && (
+                        <div className="text-xs text-gray-500">{shortcut.description}</div>
+                      )}
+                    </div>
+                    <ShortcutKeys keys={shortcut.keys} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
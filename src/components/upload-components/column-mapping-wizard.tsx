@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, Columns3 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ColumnMappingDraft,
+  ColumnSource,
+  getUnhandledHeaders,
+  isMappingComplete,
+  suggestColumnMapping,
+} from '@/lib/column-mapping';
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // File or sheet being mapped, for the title
+  fileLabel: string;
+  expectedHeaders: string[];
+  incomingHeaders: string[];
+  // Mapping saved earlier for this file; suggestions are used otherwise
+  initialDraft: ColumnMappingDraft | null;
+  onConfirm: (draft: ColumnMappingDraft) => void;
+}
+
+// Select value for "fill with a default value"
+const DEFAULT_SOURCE = '__default__';
+
+export function ColumnMappingWizard({
+  open,
+  onOpenChange,
+  fileLabel,
+  expectedHeaders,
+  incomingHeaders,
+  initialDraft,
+  onConfirm,
+}: ColumnMappingWizardProps) {
+  const [draft, setDraft] = useState<ColumnMappingDraft | null>(null);
+
+  const mapping = draft ?? initialDraft ?? suggestColumnMapping(expectedHeaders, incomingHeaders);
+  const updateMapping = (update: (current: ColumnMappingDraft) => ColumnMappingDraft) => {
+    setDraft(update(mapping));
+  };
+
+  const unhandledHeaders = getUnhandledHeaders(mapping, incomingHeaders);
+  const extraHeaders = incomingHeaders.filter(
+    (header) => unhandledHeaders.includes(header) || mapping.ignoredHeaders.includes(header)
+  );
+  const usedHeaders = new Set(
+    Object.values(mapping.sources).flatMap((source) => (source?.type === 'column' ? [source.header] : []))
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setDraft(null);
+    onOpenChange(nextOpen);
+  };
+
+  const setSource = (expected: string, value: string) => {
+    const source: ColumnSource = value === DEFAULT_SOURCE
+      ? { type: 'default', value: '' }
+      : { type: 'column', header: value, suggested: false };
+    updateMapping((current) => ({
+      sources: { ...current.sources, [expected]: source },
+      // A header picked for a column is no longer ignored
+      ignoredHeaders: current.ignoredHeaders.filter((header) => source.type !== 'column' || header !== source.header),
+    }));
+  };
+
+  const toggleIgnored = (header: string, ignored: boolean) => {
+    updateMapping((current) => ({
+      ...current,
+      ignoredHeaders: ignored
+        ? [...current.ignoredHeaders, header]
+        : current.ignoredHeaders.filter((item) => item !== header),
+    }));
+  };
+
+  const sourceValue = (source: ColumnSource | null) =>
+    !source ? '' : source.type === 'default' ? DEFAULT_SOURCE : source.header;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="column-mapping-wizard">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5 text-gray-600" />
+            Map columns of {fileLabel}
+          </DialogTitle>
+          <DialogDescription>
+            Pick the column that feeds each dataset column, or fill it with a default value.
+            Suggested matches are marked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Dataset columns</Label>
+            {expectedHeaders.map((expected) => {
+              const source = mapping.sources[expected];
+              return (
+                <div key={expected} className="flex items-center gap-2" data-testid={`column-mapping-row-${expected}`}>
+                  <Select value={sourceValue(source)} onValueChange={(value) => setSource(expected, value)}>
+                    <SelectTrigger className="h-8 w-48 text-xs">
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {incomingHeaders.map((header) => (
+                        <SelectItem
+                          key={header}
+                          value={header}
+                          disabled={usedHeaders.has(header) && sourceValue(source) !== header}
+                        >
+                          {header}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={DEFAULT_SOURCE}>Fill with a default value</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <span className="font-mono text-xs bg-gray-100 text-gray-800 px-1 rounded truncate" title={expected}>
+                    {expected}
+                  </span>
+                  {source?.type === 'column' && source.suggested && (
+                    <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                      Suggested
+                    </Badge>
+                  )}
+                  {source?.type === 'default' && (
+                    <Input
+                      value={source.value}
+                      onChange={(e) =>
+                        updateMapping((current) => ({
+                          ...current,
+                          sources: { ...current.sources, [expected]: { type: 'default', value: e.target.value } },
+                        }))
+                      }
+                      placeholder="Default value (may be empty)"
+                      className="h-8 flex-1 text-xs"
+                      aria-label={`Default value for ${expected}`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {extraHeaders.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Columns not in the dataset</Label>
+              <p className="text-xs text-gray-500">Ignored columns are left out of the import.</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {extraHeaders.map((header) => (
+                  <div key={header} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`column-mapping-ignore-${header}`}
+                      checked={mapping.ignoredHeaders.includes(header)}
+                      onCheckedChange={(checked) => toggleIgnored(header, checked === true)}
+                    />
+                    <Label htmlFor={`column-mapping-ignore-${header}`} className="font-normal text-xs">
+                      Ignore <span className="font-mono">{header}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!isMappingComplete(mapping, incomingHeaders) && (
+            <p className="text-sm text-amber-700">
+              Map every dataset column and ignore or map every other column to continue.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onConfirm(mapping);
+              handleOpenChange(false);
+            }}
+            disabled={!isMappingComplete(mapping, incomingHeaders)}
+            data-testid="column-mapping-confirm-button"
+          >
+            Use mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
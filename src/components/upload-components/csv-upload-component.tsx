@@ -1,7 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Upload,
   FileText,
@@ -11,17 +21,69 @@ import {
   CheckCircle,
   AlertCircle,
   Eye,
+  Pause,
+  Play,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   csvProcessingAPI,
+  CSVParseOptions,
   HeaderValidationResult,
+  ImportMode,
+  UpsertPreviewResult,
 } from '@/lib/api/csv-processing';
 import { useToast } from '@/components/ui/toast';
 import { useRouter } from 'next/navigation';
 import { CSVImportsAPI } from '@/lib/api/csv-imports';
 import { fieldSelectionAPI } from '@/lib/api/field-config';
-import * as ExcelJS from 'exceljs';
+import {
+  CSV_DELIMITER_LABELS,
+  CSV_DELIMITERS,
+  CSV_ENCODING_LABELS,
+  CsvEncoding,
+  CsvFileSample,
+  sampleCsvFile,
+} from '@/lib/csv-parser';
+import { ExcelSheet, readExcelSheets } from '@/lib/excel-import';
+import {
+  buildColumnMappings,
+  ColumnMappingDraft,
+  isMappableValidation,
+} from '@/lib/column-mapping';
+import { ColumnMappingWizard } from './column-mapping-wizard';
+import { UpsertDiffDialog } from './upsert-diff-dialog';
+import {
+  ChunkedUpload,
+  computeFileMd5,
+  findPendingUpload,
+  getPendingUploads,
+  PendingUpload,
+  readFileSample,
+  removePendingUpload,
+  UploadPausedError,
+  UploadProgress,
+} from '@/lib/chunked-upload';
+
+// How a CSV file is read: detected on preview, then adjustable by the user
+type CSVParseSettings = Pick<CsvFileSample, 'delimiter' | 'encoding' | 'hasHeader'>;
+
+// Excel sheets are converted to plain UTF-8 CSV before upload
+const SHEET_PARSE_SETTINGS: CSVParseOptions = { delimiter: ',', encoding: 'utf-8', hasHeader: true };
+
+const isPrimaryKeyConflict = (error: HeaderValidationResult['errors'][number]) =>
+  error.message.includes('Primary key conflicts detected');
+
+const UPLOAD_PHASE_LABELS: Record<UploadProgress['phase'], string> = {
+  hashing: 'Checking file',
+  uploading: 'Uploading',
+  processing: 'Processing',
+};
+
+// Upload is blocked on header mismatches, duplicate files and primary key conflicts
+const isValidationPassing = (validation: HeaderValidationResult) =>
+  validation.isValid &&
+  !validation.isDuplicate &&
+  !validation.errors.some(isPrimaryKeyConflict);
 
 interface CSVUploadComponentProps {
   selectedDatasetId: string;
@@ -42,9 +104,15 @@ export function CSVUploadComponent({
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<
-    'idle' | 'uploading' | 'success' | 'error'
+    'idle' | 'uploading' | 'paused' | 'success' | 'error'
   >('idle');
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  // Upload of the selected file, kept while paused so it can be resumed
+  const activeUploadRef = useRef<ChunkedUpload | null>(null);
+  // MD5 per file, so validating again after a settings change does not hash again
+  const fileMd5Ref = useRef(new WeakMap<File, string>());
+  // Uploads of this dataset cut off earlier, e.g. by a page reload
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
   const [csvPreview, setCSVPreview] = useState<{
     columns: string[];
     sampleRows: Record<string, any>[];
@@ -54,6 +122,27 @@ export function CSVUploadComponent({
   const [headerValidation, setHeaderValidation] =
     useState<HeaderValidationResult | null>(null);
   const [isValidatingHeaders, setIsValidatingHeaders] = useState(false);
+  // Only set for CSV files; Excel files carry their own encoding
+  const [parseSettings, setParseSettings] = useState<CSVParseSettings | null>(null);
+  const [detectedSettings, setDetectedSettings] = useState<CSVParseSettings | null>(null);
+  // Worksheets of an Excel file; with more than one the user picks which to import
+  const [excelSheets, setExcelSheets] = useState<ExcelSheet[] | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [previewSheet, setPreviewSheet] = useState<string | null>(null);
+  // Header validation per sheet name, null until the sheets have been validated
+  const [sheetValidations, setSheetValidations] =
+    useState<Record<string, HeaderValidationResult> | null>(null);
+  const isMultiSheet = (excelSheets?.length ?? 0) > 1;
+  // Column mappings chosen for files whose headers differ from the dataset,
+  // keyed by sheet name ('' for a single file)
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMappingDraft>>({});
+  const [showMappingWizard, setShowMappingWizard] = useState(false);
+  const activeMappingKey = isMultiSheet ? previewSheet ?? '' : '';
+  // Upsert updates rows whose primary key already exists instead of adding them again
+  const [importMode, setImportMode] = useState<ImportMode>('append');
+  const [primaryKeyColumn, setPrimaryKeyColumn] = useState<string | null>(null);
+  const [upsertPreview, setUpsertPreview] = useState<UpsertPreviewResult | null>(null);
+  const [showUpsertDialog, setShowUpsertDialog] = useState(false);
   const { showToast } = useToast();
   const router = useRouter();
 
@@ -66,18 +155,53 @@ export function CSVUploadComponent({
 
   // Auto-validate headers after preview is generated
   useEffect(() => {
-    if (csvPreview && csvPreview.totalRows > 0 && !headerValidation && selectedDatasetId) {
+    if (!csvPreview || csvPreview.totalRows === 0 || !selectedDatasetId || isValidatingHeaders) return;
+    if (isMultiSheet ? !sheetValidations : !headerValidation) {
       validateHeaders();
     }
-  }, [csvPreview, headerValidation, selectedDatasetId]);
+  }, [csvPreview, headerValidation, sheetValidations, selectedDatasetId]);
+
+  useEffect(() => {
+    if (selectedDatasetId) setPendingUploads(getPendingUploads(selectedDatasetId));
+  }, [selectedDatasetId]);
+
+  // Leaving the page pauses a running upload; it can be resumed later
+  useEffect(() => () => activeUploadRef.current?.pause(), []);
+
+  // Upsert matches rows on the dataset's primary key column
+  useEffect(() => {
+    if (!selectedDatasetId) return;
+    fieldSelectionAPI
+      .getDatasetFieldConfig(selectedDatasetId)
+      .then((config) =>
+        setPrimaryKeyColumn(config?.annotationFields?.find((field: any) => field.isPrimaryKey)?.csvColumnName ?? null)
+      )
+      .catch(() => setPrimaryKeyColumn(null));
+  }, [selectedDatasetId]);
+
+  // Clear everything derived from the selected file
+  const resetFileState = () => {
+    setCSVPreview(null);
+    setHeaderValidation(null);
+    setParseSettings(null);
+    setDetectedSettings(null);
+    setExcelSheets(null);
+    setSelectedSheets([]);
+    setPreviewSheet(null);
+    setSheetValidations(null);
+    setColumnMappings({});
+    setImportMode('append');
+    setUpsertPreview(null);
+    activeUploadRef.current?.pause();
+    activeUploadRef.current = null;
+  };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setSelectedFile(file);
       setUploadStatus('idle');
-      setCSVPreview(null);
-      setHeaderValidation(null);
+      resetFileState();
     }
   };
 
@@ -88,8 +212,7 @@ export function CSVUploadComponent({
     if (file && (file.type === 'text/csv' || file.name.endsWith('.csv'))) {
       setSelectedFile(file);
       setUploadStatus('idle');
-      setCSVPreview(null);
-      setHeaderValidation(null);
+      resetFileState();
     }
   };
 
@@ -105,9 +228,8 @@ export function CSVUploadComponent({
   const removeFile = () => {
     setSelectedFile(null);
     setUploadStatus('idle');
-    setCSVPreview(null);
-    setHeaderValidation(null);
-    setUploadProgress(0);
+    resetFileState();
+    setUploadProgress(null);
     // Reset the file input value so the same file can be selected again
     const fileInput = document.getElementById('csvFileInput') as HTMLInputElement;
     if (fileInput) {
@@ -134,18 +256,125 @@ export function CSVUploadComponent({
       return;
     }
 
+    if (isMultiSheet) {
+      await uploadSheets();
+      return;
+    }
+
+    if (importMode === 'upsert') {
+      await reviewUpsert();
+      return;
+    }
+
+    await uploadFile();
+  };
+
+  // The upload session is created for one mode, so switching starts a new upload
+  const changeImportMode = (mode: ImportMode) => {
+    setImportMode(mode);
+    setUpsertPreview(null);
+    activeUploadRef.current?.pause();
+    activeUploadRef.current = null;
+  };
+
+  // Upload of the selected file: the paused one, or a new one
+  const getUpload = (file: File) => {
+    const upload = activeUploadRef.current ?? new ChunkedUpload(selectedDatasetId, file, {
+      parseOptions: parseSettings ?? undefined,
+      mode: importMode,
+      md5Checksum: headerValidation?.md5Checksum,
+      onProgress: setUploadProgress,
+    });
+    activeUploadRef.current = upload;
+    return upload;
+  };
+
+  const handleUploadError = (error: any) => {
+    if (error instanceof UploadPausedError) {
+      setUploadStatus('paused');
+      return;
+    }
+    // Acknowledged chunks stay on the server; uploading again continues from them
+    activeUploadRef.current = null;
+    setUploadStatus('error');
+    const serverMessage = error?.response?.data?.message || error?.message;
+    showToast({
+      type: 'error',
+      title: 'Upload Failed',
+      description:
+        typeof serverMessage === 'string'
+          ? serverMessage
+          : 'Failed to upload CSV file. Please try again.',
+    });
+  };
+
+  // Upload the file without importing it, then show what the upsert would change
+  const reviewUpsert = async () => {
+    if (!selectedFile) return;
+    const upload = getUpload(selectedFile);
+    setIsUploading(true);
+    setUploadStatus('uploading');
+
+    let uploadId: string;
+    try {
+      uploadId = await upload.send();
+      setUploadStatus('idle');
+    } catch (error: any) {
+      handleUploadError(error);
+      return;
+    } finally {
+      setIsUploading(false);
+      setPendingUploads(getPendingUploads(selectedDatasetId));
+    }
+
+    setUpsertPreview(null);
+    setShowUpsertDialog(true);
+    try {
+      setUpsertPreview(await csvProcessingAPI.previewUpsert(uploadId));
+    } catch (error: any) {
+      setShowUpsertDialog(false);
+      const serverMessage = error?.response?.data?.message || error?.message;
+      showToast({
+        type: 'error',
+        title: 'Comparison Failed',
+        description:
+          typeof serverMessage === 'string'
+            ? serverMessage
+            : 'Failed to compare the file with the dataset. Please try again.',
+      });
+    }
+  };
+
+  // Starts the chunked upload of the selected file, or resumes it after a pause.
+  // An upsert has sent its chunks for the review already and only completes here.
+  const uploadFile = async () => {
+    if (!selectedFile) return;
+    const upload = getUpload(selectedFile);
+    setShowUpsertDialog(false);
     setIsUploading(true);
     setUploadStatus('uploading');
-    setUploadProgress(0);
 
     try {
-      const result = await csvProcessingAPI.uploadCSV(
-        selectedDatasetId,
-        selectedFile,
-      );
+      // Appended rows must not repeat existing primary keys anywhere in the file
+      if (importMode === 'append') {
+        const keyConflict = await findKeyConflict(await upload.send());
+        if (keyConflict) {
+          setUploadStatus('error');
+          showToast({
+            type: 'error',
+            title: 'Primary Key Conflict',
+            description: keyConflict.message,
+          });
+          return;
+        }
+      }
+
+      const mappings = importMode === 'append' ? getColumnMappings('') : undefined;
+      const result = await upload.start(mappings);
+      activeUploadRef.current = null;
+      const rowsCreated = !mappings || (await createMappedRows(result.csvImportId));
 
       setUploadStatus('success');
-      setUploadProgress(100);
 
       // Call callback with upload result
       if (onCSVUploaded) {
@@ -153,11 +382,21 @@ export function CSVUploadComponent({
       }
 
       // Show success toast and redirect
-      showToast({
-        type: 'success',
-        title: 'CSV Upload Successful',
-        description: `${result.totalRows} rows processed successfully`,
-      });
+      if (rowsCreated) {
+        showToast({
+          type: 'success',
+          title: 'CSV Upload Successful',
+          description: result.upsert
+            ? `${result.upsert.added} rows added, ${result.upsert.updated} updated, ${result.upsert.conflicting} skipped`
+            : `${result.totalRows} rows processed successfully`,
+        });
+      } else {
+        showToast({
+          type: 'error',
+          title: 'Column Mapping Failed',
+          description: 'The file was imported, but rows could not be created from its mapped columns.',
+        });
+      }
 
       // Reset form and redirect after successful upload
       setTimeout(() => {
@@ -166,19 +405,137 @@ export function CSVUploadComponent({
         checkAndRedirectAfterUpload();
       }, 2000);
     } catch (error: any) {
-      setUploadStatus('error');
-      const serverMessage = error?.response?.data?.message || error?.message;
+      handleUploadError(error);
+    } finally {
+      setIsUploading(false);
+      setPendingUploads(getPendingUploads(selectedDatasetId));
+    }
+  };
+
+  const pauseUpload = () => {
+    activeUploadRef.current?.pause();
+  };
+
+  const discardPendingUpload = (upload: PendingUpload) => {
+    removePendingUpload(selectedDatasetId, upload.md5Checksum);
+    setPendingUploads(getPendingUploads(selectedDatasetId));
+  };
+
+  // Header validation only sees a leading sample, so primary keys are checked
+  // again on the uploaded file before it is imported
+  const findKeyConflict = async (uploadId: string) => {
+    const validation = await csvProcessingAPI.validateUpload(uploadId);
+    return validation.errors.find(isPrimaryKeyConflict) ?? null;
+  };
+
+  // Column mapping chosen for a file, sent with the upload so it is stored before the import
+  const getColumnMappings = (mappingKey: string) => {
+    const draft = columnMappings[mappingKey];
+    return draft ? buildColumnMappings(draft) : undefined;
+  };
+
+  // Create the rows of an import with mapped columns. The file is imported by then,
+  // so a failure is reported apart from the upload rather than uploading it again.
+  const createMappedRows = async (csvImportId: string) => {
+    try {
+      await csvProcessingAPI.validateAndCreateAssets(csvImportId);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // Header mismatches no longer block the upload once the columns are mapped;
+  // in upsert mode existing primary keys are the rows to update
+  const passesValidation = (validation: HeaderValidationResult, mappingKey: string) =>
+    isValidationPassing(validation) ||
+    (importMode === 'upsert'
+      ? !validation.isDuplicate && validation.errors.every(isPrimaryKeyConflict)
+      : isMappableValidation(validation) && !!columnMappings[mappingKey]);
+
+  // Each selected sheet becomes its own CSV import
+  const uploadSheets = async () => {
+    const sheets = (excelSheets || []).filter((sheet) => selectedSheets.includes(sheet.name));
+    const totalBytes = sheets.reduce((sum, sheet) => sum + sheet.csvFile.size, 0);
+    setIsUploading(true);
+    setUploadStatus('uploading');
+    setUploadProgress(null);
+
+    let importedRows = 0;
+    let doneBytes = 0;
+    const failedSheets: string[] = [];
+    const conflictingSheets: string[] = [];
+    const unmappedSheets: string[] = [];
+    for (const sheet of sheets) {
+      try {
+        // Progress covers all selected sheets
+        const upload = new ChunkedUpload(selectedDatasetId, sheet.csvFile, {
+          parseOptions: SHEET_PARSE_SETTINGS,
+          md5Checksum: sheetValidations?.[sheet.name]?.md5Checksum,
+          onProgress: (progress) =>
+            setUploadProgress({ ...progress, loadedBytes: doneBytes + progress.loadedBytes, totalBytes }),
+        });
+        if (await findKeyConflict(await upload.send())) {
+          conflictingSheets.push(sheet.name);
+        } else {
+          const mappings = getColumnMappings(sheet.name);
+          const result = await upload.start(mappings);
+          if (mappings && !(await createMappedRows(result.csvImportId))) {
+            unmappedSheets.push(sheet.name);
+          }
+          importedRows += result.totalRows;
+          onCSVUploaded?.(result.csvImportId, result.fileName, result.totalRows);
+        }
+      } catch (error) {
+        failedSheets.push(sheet.name);
+      }
+      doneBytes += sheet.csvFile.size;
+    }
+    setIsUploading(false);
+    setPendingUploads(getPendingUploads(selectedDatasetId));
+
+    if (unmappedSheets.length > 0) {
       showToast({
         type: 'error',
-        title: 'Upload Failed',
-        description:
-          typeof serverMessage === 'string'
-            ? serverMessage
-            : 'Failed to upload CSV file. Please try again.',
+        title: 'Column Mapping Failed',
+        description: `${unmappedSheets.join(', ')} ${unmappedSheets.length === 1 ? 'was' : 'were'} imported, but rows could not be created from the mapped columns.`,
       });
-    } finally {
-      setIsUploading(false);
     }
+
+    if (conflictingSheets.length > 0) {
+      showToast({
+        type: 'error',
+        title: 'Primary Key Conflict',
+        description: `${conflictingSheets.join(', ')} not imported: primary key values conflict with existing data.`,
+      });
+    }
+
+    if (failedSheets.length > 0 || conflictingSheets.length > 0) {
+      setUploadStatus('error');
+      if (failedSheets.length > 0) {
+        const importedSheets = sheets.length - failedSheets.length - conflictingSheets.length;
+        showToast({
+          type: 'error',
+          title: 'Upload Failed',
+          description: `Failed to import ${failedSheets.join(', ')}. ${importedSheets} of ${sheets.length} sheets were imported.`,
+        });
+      }
+      return;
+    }
+
+    setUploadStatus('success');
+    if (unmappedSheets.length === 0) {
+      showToast({
+        type: 'success',
+        title: 'Excel Upload Successful',
+        description: `${sheets.length} sheets imported with ${importedRows} rows`,
+      });
+    }
+
+    setTimeout(() => {
+      removeFile();
+      checkAndRedirectAfterUpload(sheets.length);
+    }, 2000);
   };
 
   // Helper function to find duplicate columns
@@ -197,7 +554,34 @@ export function CSVUploadComponent({
     return Array.from(duplicates);
   };
 
-  const previewCSV = async () => {
+  const showSheetPreview = (sheet: ExcelSheet) => {
+    // Check for duplicate columns
+    const duplicateColumns = findDuplicateColumns(sheet.columns);
+    if (duplicateColumns.length > 0) {
+      showToast({
+        type: 'error',
+        title: 'Duplicate Columns Found',
+        description: `The following columns appear multiple times in ${sheet.name}: ${duplicateColumns.join(', ')}`,
+      });
+    }
+
+    setPreviewSheet(sheet.name);
+    setCSVPreview({
+      columns: sheet.columns,
+      sampleRows: sheet.sampleRows,
+      totalRows: sheet.rowCount,
+      duplicateColumns: duplicateColumns.length > 0 ? duplicateColumns : undefined, // Store duplicate columns info only if found
+    });
+  };
+
+  const toggleSheet = (sheetName: string, checked: boolean) => {
+    setSelectedSheets((current) =>
+      checked ? [...current, sheetName] : current.filter((name) => name !== sheetName)
+    );
+  };
+
+  // Settings left out are detected from the file
+  const previewCSV = async (settings?: CSVParseSettings) => {
     if (!selectedFile) return;
 
     // Check if it's an Excel file
@@ -205,90 +589,17 @@ export function CSVUploadComponent({
       selectedFile.name.endsWith('.xlsx') || selectedFile.name.endsWith('.xls');
 
     if (isExcelFile) {
-      // For Excel files, use exceljs to parse
+      // For Excel files, read every worksheet with exceljs
       try {
-        const workbook = new ExcelJS.Workbook();
-        const buffer = await selectedFile.arrayBuffer();
-        await workbook.xlsx.load(buffer);
-
-        const worksheet = workbook.worksheets[0];
-        if (!worksheet) {
+        const sheets = await readExcelSheets(selectedFile);
+        if (sheets.length === 0) {
           throw new Error('No worksheet found');
         }
 
-        // Helper function to convert Excel values to displayable strings
-        const formatExcelValue = (value: any): string => {
-          if (value === null || value === undefined) {
-            return '';
-          }
-          if (value instanceof Date) {
-            return value.toLocaleDateString();
-          }
-          if (typeof value === 'object') {
-            // Handle arrays by joining with newlines
-            if (Array.isArray(value)) {
-              return value
-                .map(item => String(item))
-                .filter(item => item.trim() !== '')
-                .join('\n');
-            }
-            // Handle objects with proper stringification
-            try {
-              const stringified = JSON.stringify(value);
-              // If it's a simple object with URL-like properties, extract them
-              if (stringified.includes('url') || stringified.includes('href') || stringified.includes('src')) {
-                const parsed = JSON.parse(stringified);
-                if (parsed.url) return parsed.url;
-                if (parsed.href) return parsed.href;
-                if (parsed.src) return parsed.src;
-                if (parsed.value) return parsed.value;
-              }
-              return stringified;
-            } catch (e) {
-              return String(value);
-            }
-          }
-          return String(value);
-        };
-
-        // Get the first row as headers
-        const headerRow = worksheet.getRow(1);
-        const columns = headerRow.values as any[];
-        // Remove the first element (ExcelJS includes undefined as first element)
-        const cleanColumns = columns
-          .slice(1)
-          .map((col: any) => formatExcelValue(col));
-
-        // Get sample rows (rows 2-6) - process once for both duplicate and normal cases
-        const sampleRows: Record<string, any>[] = [];
-        for (let i = 2; i <= Math.min(6, worksheet.rowCount); i++) {
-          const row = worksheet.getRow(i);
-          const values = row.values as any[];
-          const cleanValues = values.slice(1); // Remove first undefined element
-
-          const rowData: Record<string, any> = {};
-          cleanColumns.forEach((col, index) => {
-            rowData[col] = formatExcelValue(cleanValues[index]);
-          });
-          sampleRows.push(rowData);
-        }
-
-        // Check for duplicate columns
-        const duplicateColumns = findDuplicateColumns(cleanColumns);
-        if (duplicateColumns.length > 0) {
-          showToast({
-            type: 'error',
-            title: 'Duplicate Columns Found',
-            description: `The following columns appear multiple times: ${duplicateColumns.join(', ')}`,
-          });
-        }
-
-        setCSVPreview({
-          columns: cleanColumns,
-          sampleRows,
-          totalRows: worksheet.rowCount - 1, // Subtract header row
-          duplicateColumns: duplicateColumns.length > 0 ? duplicateColumns : undefined, // Store duplicate columns info only if found
-        });
+        const sheetsWithRows = sheets.filter((sheet) => sheet.rowCount > 0);
+        setExcelSheets(sheets);
+        setSelectedSheets(sheetsWithRows.map((sheet) => sheet.name));
+        showSheetPreview(sheetsWithRows[0] ?? sheets[0]);
       } catch (error) {
         showToast({
           type: 'error',
@@ -312,19 +623,20 @@ export function CSVUploadComponent({
       return;
     }
 
-    // For CSV files, use the existing text parsing
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const csv = e.target?.result as string;
-      const lines = csv.split('\n');
-      const columns = lines[0]?.split(',').map((col) => col.trim()) || [];
-      
-      // Process sample rows once for both duplicate and normal cases
-      const sampleRows = lines.slice(1, 6).map((line) => {
-        const values = line.split(',').map((val) => val.trim());
+    // For CSV files, stream the file through the CSV parser
+    try {
+      const { header, rows, totalRows, delimiter, encoding, hasHeader } =
+        await sampleCsvFile(selectedFile, 5, settings);
+      setParseSettings({ delimiter, encoding, hasHeader });
+      if (!settings) {
+        setDetectedSettings({ delimiter, encoding, hasHeader });
+      }
+      const columns = header.map((col) => col.trim());
+
+      const sampleRows = rows.map((values) => {
         const row: Record<string, any> = {};
         columns.forEach((col, index) => {
-          row[col] = values[index] || '';
+          row[col] = values[index]?.trim() || '';
         });
         return row;
       });
@@ -342,22 +654,110 @@ export function CSVUploadComponent({
       setCSVPreview({
         columns,
         sampleRows,
-        totalRows: lines.length - 1,
+        totalRows,
         duplicateColumns: duplicateColumns.length > 0 ? duplicateColumns : undefined, // Store duplicate columns info only if found
       });
-    };
-    reader.readAsText(selectedFile);
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'CSV Parse Error',
+        description: 'Failed to read the CSV file. Please check the file format.',
+      });
+
+      setCSVPreview({
+        columns: ['Error'],
+        sampleRows: [{ Error: 'Failed to read the CSV file. Please check the file format.' }],
+        totalRows: 0,
+      });
+    }
+  };
+
+  // Re-read the file with the changed settings; headers are validated again once the preview is ready
+  const changeParseSettings = (changes: Partial<CSVParseSettings>) => {
+    if (!parseSettings) return;
+    setCSVPreview(null);
+    setHeaderValidation(null);
+    setColumnMappings({});
+    previewCSV({ ...parseSettings, ...changes });
+  };
+
+  const getFileMd5 = async (file: File) => {
+    const known = fileMd5Ref.current.get(file);
+    if (known) return known;
+    const md5Checksum = await computeFileMd5(file);
+    fileMd5Ref.current.set(file, md5Checksum);
+    return md5Checksum;
+  };
+
+  // Headers are checked on a leading sample of the file, duplicates by its MD5
+  const validateFileHeaders = async (
+    sampleSource: File,
+    uploadedFile: File,
+    parseOptions?: CSVParseOptions,
+  ): Promise<HeaderValidationResult> => {
+    const [sample, md5Checksum] = await Promise.all([
+      readFileSample(sampleSource, parseOptions?.encoding),
+      getFileMd5(uploadedFile),
+    ]);
+    const validation = await csvProcessingAPI.validateHeaders(selectedDatasetId, sample, md5Checksum, parseOptions);
+    return { ...validation, md5Checksum };
+  };
+
+  // Validate every sheet that has rows, as the CSV file it would be imported as
+  const validateSheets = async (showToasts = true) => {
+    if (!excelSheets || !selectedDatasetId) return;
+
+    setIsValidatingHeaders(true);
+    try {
+      const results: Record<string, HeaderValidationResult> = {};
+      for (const sheet of excelSheets.filter((item) => item.rowCount > 0)) {
+        results[sheet.name] = await validateFileHeaders(sheet.csvFile, sheet.csvFile, SHEET_PARSE_SETTINGS);
+      }
+      setSheetValidations(results);
+
+      if (showToasts) {
+        const failedSheets = Object.keys(results).filter((name) => !isValidationPassing(results[name]));
+        if (failedSheets.length > 0) {
+          showToast({
+            type: 'error',
+            title: 'Header Validation Failed',
+            description: `${failedSheets.length} of ${Object.keys(results).length} sheets have issues: ${failedSheets.join(', ')}`,
+          });
+        } else {
+          showToast({
+            type: 'success',
+            title: 'Headers Validated',
+            description: 'Every sheet matches the headers of existing files in this dataset.',
+          });
+        }
+      }
+    } catch (error: any) {
+      if (showToasts) {
+        showToast({
+          type: 'error',
+          title: 'Validation Error',
+          description: 'Failed to validate sheet headers. Please try again.',
+        });
+      }
+    } finally {
+      setIsValidatingHeaders(false);
+    }
   };
 
   const validateHeaders = async (showToasts = true) => {
+    if (isMultiSheet) {
+      await validateSheets(showToasts);
+      return;
+    }
     if (!selectedFile || !selectedDatasetId) return;
 
     setIsValidatingHeaders(true);
     try {
-      const validation = await csvProcessingAPI.validateHeaders(
-        selectedDatasetId,
-        selectedFile,
-      );
+      // A single-sheet Excel file is uploaded as is but sampled from its CSV conversion
+      const sheet = excelSheets?.[0];
+      const validation = sheet
+        ? await validateFileHeaders(sheet.csvFile, selectedFile, SHEET_PARSE_SETTINGS)
+        : await validateFileHeaders(selectedFile, selectedFile, parseSettings ?? undefined);
       setHeaderValidation(validation);
 
       if (showToasts) {
@@ -367,8 +767,8 @@ export function CSVUploadComponent({
             title: 'Duplicate File',
             description: 'This file already exists in the dataset. Upload is blocked.',
           });
-        } else if (validation.errors.some(error => error.message.includes('Primary key conflicts detected'))) {
-          const pkError = validation.errors.find(error => error.message.includes('Primary key conflicts detected'));
+        } else if (validation.errors.some(isPrimaryKeyConflict)) {
+          const pkError = validation.errors.find(isPrimaryKeyConflict);
           showToast({
             type: 'error',
             title: 'Primary Key Conflict',
@@ -414,6 +814,8 @@ export function CSVUploadComponent({
         return <div className="h-3 w-3 rounded-full bg-gray-300" />;
       case 'uploading':
         return <Loader2 className="h-3 w-3 animate-spin text-blue-500" />;
+      case 'paused':
+        return <Pause className="h-3 w-3 text-amber-500" />;
       case 'success':
         return <CheckCircle className="h-3 w-3 text-green-500" />;
       case 'error':
@@ -431,7 +833,7 @@ export function CSVUploadComponent({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const checkAndRedirectAfterUpload = async () => {
+  const checkAndRedirectAfterUpload = async (importCount = 1) => {
     try {
       // Check existing CSV imports for this dataset
       const existingImports = await CSVImportsAPI.getByDataset(selectedDatasetId);
@@ -440,7 +842,7 @@ export function CSVUploadComponent({
       const fieldConfig = await fieldSelectionAPI.checkDatasetFieldConfig(selectedDatasetId);
       
       // If this is the first CSV upload and no field config exists, redirect to field config
-      if (existingImports.length === 1 && !fieldConfig.hasConfig) {
+      if (existingImports.length === importCount && !fieldConfig.hasConfig) {
         router.push(`/dataset/${selectedDatasetId}?tab=field-configuration`);
       } else {
         // For subsequent uploads or if field config already exists, redirect to overview
@@ -452,8 +854,59 @@ export function CSVUploadComponent({
     }
   };
 
+  const uploadPercent = uploadProgress && uploadProgress.totalBytes > 0
+    ? Math.round((uploadProgress.loadedBytes / uploadProgress.totalBytes) * 100)
+    : 0;
+
+  // Unfinished upload the selected file continues, matched before the file is hashed
+  const resumableUpload = selectedFile && !isMultiSheet ? findPendingUpload(pendingUploads, selectedFile) : null;
+
+  // Validation shown in the results panel: the previewed sheet's for multi-sheet workbooks
+  const activeValidation = isMultiSheet
+    ? (previewSheet && sheetValidations?.[previewSheet]) || null
+    : headerValidation;
+
+  const isUploadBlocked = isMultiSheet
+    ? selectedSheets.length === 0 ||
+      (excelSheets || []).some((sheet) => {
+        if (!selectedSheets.includes(sheet.name)) return false;
+        const validation = sheetValidations?.[sheet.name];
+        return (validation && !passesValidation(validation, sheet.name)) || findDuplicateColumns(sheet.columns).length > 0;
+      })
+    : (headerValidation && !passesValidation(headerValidation, '')) ||
+      csvPreview?.totalRows === 0 ||
+      (csvPreview?.duplicateColumns && csvPreview.duplicateColumns.length > 0);
+
   return (
     <div className={cn('space-y-6', className)}>
+      {/* Unfinished uploads - select the same file again to continue */}
+      {!selectedFile && pendingUploads.length > 0 && (
+        <div className="space-y-2" data-testid="csv-upload-pending-uploads">
+          {pendingUploads.map((upload) => (
+            <div
+              key={upload.md5Checksum}
+              className="flex items-center justify-between gap-3 p-3 bg-amber-50 rounded-lg border border-amber-200"
+            >
+              <div className="min-w-0 text-sm text-amber-900">
+                <p className="font-medium truncate">Unfinished upload: {upload.fileName}</p>
+                <p className="text-xs text-amber-700">
+                  {formatFileSize(upload.acknowledgedBytes)} of {formatFileSize(upload.fileSize)} uploaded.
+                  Select the same file to continue.
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 flex-shrink-0"
+                onClick={() => discardPendingUpload(upload)}
+              >
+                Discard
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Upload Area - Only show when no file is selected */}
       {!selectedFile && (
         <div
@@ -574,7 +1027,7 @@ export function CSVUploadComponent({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={previewCSV}
+                onClick={() => previewCSV(parseSettings ?? undefined)}
                 data-testid="csv-upload-preview-button"
                 className="h-7 px-2"
               >
@@ -584,12 +1037,156 @@ export function CSVUploadComponent({
             </div>
           </div>
 
+          {/* Sheet picker (Excel workbooks with several sheets) */}
+          {isMultiSheet && excelSheets && (
+            <div className="bg-white rounded-lg border border-gray-200 p-4" data-testid="csv-upload-sheet-picker">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-sm font-medium text-gray-900">Sheets</h4>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="csv-upload-all-sheets"
+                    checked={excelSheets.every((sheet) => sheet.rowCount === 0 || selectedSheets.includes(sheet.name))}
+                    onCheckedChange={(checked) =>
+                      setSelectedSheets(
+                        checked === true
+                          ? excelSheets.filter((sheet) => sheet.rowCount > 0).map((sheet) => sheet.name)
+                          : []
+                      )
+                    }
+                    data-testid="csv-upload-all-sheets-checkbox"
+                  />
+                  <Label htmlFor="csv-upload-all-sheets" className="text-xs font-normal text-gray-700">
+                    Import all sheets
+                  </Label>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mb-3">
+                Each selected sheet is imported as a separate file. Click a sheet to preview it.
+              </p>
+              <div className="space-y-2">
+                {excelSheets.map((sheet) => {
+                  const validation = sheetValidations?.[sheet.name];
+                  return (
+                    <div
+                      key={sheet.name}
+                      className={cn(
+                        'flex items-start gap-3 rounded border p-2',
+                        previewSheet === sheet.name ? 'border-blue-300 bg-blue-50' : 'border-gray-200',
+                      )}
+                      data-testid={`csv-upload-sheet-${sheet.name}`}
+                    >
+                      <Checkbox
+                        checked={selectedSheets.includes(sheet.name)}
+                        onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+                        disabled={sheet.rowCount === 0}
+                        aria-label={`Import ${sheet.name}`}
+                        className="mt-0.5"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => showSheetPreview(sheet)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-900 truncate">{sheet.name}</span>
+                          <span className="text-xs text-gray-500 flex-shrink-0">{sheet.rowCount} rows</span>
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {sheet.columns.slice(0, 6).map((column, index) => (
+                            <span key={index} className="font-mono bg-gray-100 text-gray-700 px-1 rounded text-xs">
+                              {column}
+                            </span>
+                          ))}
+                          {sheet.columns.length > 6 && (
+                            <span className="text-xs text-gray-500">+{sheet.columns.length - 6} more</span>
+                          )}
+                        </div>
+                      </button>
+                      {validation && (
+                        <span
+                          className={cn(
+                            'text-xs px-2 py-0.5 rounded-full flex-shrink-0',
+                            passesValidation(validation, sheet.name) ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800',
+                          )}
+                        >
+                          {isValidationPassing(validation)
+                            ? 'Valid'
+                            : columnMappings[sheet.name] && passesValidation(validation, sheet.name)
+                              ? 'Mapped'
+                              : validation.isDuplicate ? 'Duplicate' : 'Invalid'}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Encoding, delimiter and header settings (CSV only) */}
+          {parseSettings && (
+            <div
+              className="flex flex-wrap items-end gap-4 bg-white rounded-lg border border-gray-200 p-4"
+              data-testid="csv-upload-parse-settings"
+            >
+              <div className="space-y-1">
+                <Label className="text-xs font-medium text-gray-700">Encoding</Label>
+                <Select
+                  value={parseSettings.encoding}
+                  onValueChange={(encoding) => changeParseSettings({ encoding: encoding as CsvEncoding })}
+                >
+                  <SelectTrigger className="h-8 w-52 text-xs" data-testid="csv-upload-encoding-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map((encoding) => (
+                      <SelectItem key={encoding} value={encoding}>
+                        {CSV_ENCODING_LABELS[encoding]}
+                        {detectedSettings?.encoding === encoding && ' (detected)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs font-medium text-gray-700">Delimiter</Label>
+                <Select
+                  value={parseSettings.delimiter}
+                  onValueChange={(delimiter) => changeParseSettings({ delimiter })}
+                >
+                  <SelectTrigger className="h-8 w-44 text-xs" data-testid="csv-upload-delimiter-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map((delimiter) => (
+                      <SelectItem key={delimiter} value={delimiter}>
+                        {CSV_DELIMITER_LABELS[delimiter]}
+                        {detectedSettings?.delimiter === delimiter && ' (detected)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 h-8">
+                <Checkbox
+                  id="csv-upload-has-header"
+                  checked={parseSettings.hasHeader}
+                  onCheckedChange={(checked) => changeParseSettings({ hasHeader: checked === true })}
+                  data-testid="csv-upload-has-header-checkbox"
+                />
+                <Label htmlFor="csv-upload-has-header" className="text-xs font-normal text-gray-700">
+                  First row is header
+                </Label>
+              </div>
+            </div>
+          )}
+
           {/* File Preview */}
           {csvPreview && (
             <div className="bg-white rounded-lg border border-gray-200 p-4" data-testid="csv-upload-file-preview">
               <div className="flex items-center justify-between mb-3">
                 <h4 className="text-sm font-medium text-gray-900">
-                  File Preview
+                  {isMultiSheet ? `Sheet Preview: ${previewSheet}` : 'File Preview'}
                 </h4>
                 {csvPreview.totalRows > 0 && (
                   <span className="text-xs text-gray-500">
@@ -668,11 +1265,11 @@ export function CSVUploadComponent({
           )}
 
           {/* Header Validation Results */}
-          {headerValidation && (
+          {activeValidation && (
             <div
               className={cn(
                 'rounded-lg border p-4',
-                headerValidation.isValid && !headerValidation.isDuplicate
+                activeValidation.isValid && !activeValidation.isDuplicate
                   ? 'bg-green-50 border-green-200'
                   : 'bg-red-50 border-red-200',
               )}
@@ -682,7 +1279,7 @@ export function CSVUploadComponent({
                 <h4
                   className={cn(
                     'text-sm font-medium',
-                    headerValidation.isValid
+                    activeValidation.isValid
                       ? 'text-green-900'
                       : 'text-red-900',
                   )}
@@ -692,41 +1289,46 @@ export function CSVUploadComponent({
                 <span
                   className={cn(
                     'text-xs px-2 py-1 rounded-full',
-                    headerValidation.isValid && !headerValidation.isDuplicate
+                    activeValidation.isValid && !activeValidation.isDuplicate
                       ? 'bg-green-100 text-green-800'
                       : 'bg-red-100 text-red-800',
                   )}
                   data-testid="csv-upload-validation-status-badge"
                 >
-                  {headerValidation.isValid && !headerValidation.isDuplicate
+                  {activeValidation.isValid && !activeValidation.isDuplicate
                     ? 'Valid'
-                    : headerValidation.isDuplicate
+                    : activeValidation.isDuplicate
                       ? 'Duplicate File'
-                      : headerValidation.errors.some(error => error.message.includes('Primary key conflicts detected'))
+                      : activeValidation.errors.some(isPrimaryKeyConflict)
                         ? 'Primary Key Conflict'
-                        : `${headerValidation.errors.length} Error(s)`}
+                        : `${activeValidation.errors.length} Error(s)`}
                 </span>
               </div>
 
-              {headerValidation.isDuplicate ? (
+              {activeValidation.isDuplicate ? (
                 <div className="space-y-3">
                   <div className="text-sm text-red-700">
                     <p className="mb-2" data-testid="csv-upload-duplicate-file-message">❌ Duplicate file detected. Please upload a different file.</p>
                   </div>
                 </div>
-              ) : headerValidation.errors.some(error => error.message.includes('Primary key conflicts detected')) ? (
+              ) : activeValidation.errors.some(isPrimaryKeyConflict) ? (
                 <div className="space-y-3">
                   <div className="text-sm text-red-700">
-                    <p className="mb-2" data-testid="csv-upload-primary-key-conflict-message">❌ {headerValidation.errors.find(error => error.message.includes('Primary key conflicts detected'))?.message}</p>
+                    <p className="mb-2" data-testid="csv-upload-primary-key-conflict-message">❌ {activeValidation.errors.find(isPrimaryKeyConflict)?.message}</p>
+                    {importMode === 'upsert' && (
+                      <p className="text-xs text-blue-800">
+                        In update mode these rows are updated instead of added. Review the changes before they are applied.
+                      </p>
+                    )}
                   </div>
                 </div>
-              ) : headerValidation.isValid ? (
+              ) : activeValidation.isValid ? (
                 <div className="text-sm text-green-700">
                   <p className="mb-2" data-testid="csv-upload-headers-match-message">
                     ✅ CSV headers match existing files in this dataset.
                   </p>
                   <p className="text-xs text-green-600">
-                    Found {headerValidation.existingImportCount} existing CSV
+                    Found {activeValidation.existingImportCount} existing CSV
                     file(s) with matching headers.
                   </p>
                 </div>
@@ -739,8 +1341,30 @@ export function CSVUploadComponent({
                     </p>
                   </div>
 
+                  {importMode === 'append' && isMappableValidation(activeValidation) && (
+                    <div
+                      className="flex items-center justify-between gap-3 p-2 bg-white rounded border border-blue-200"
+                      data-testid="csv-upload-column-mapping"
+                    >
+                      <p className="text-xs text-blue-800">
+                        {columnMappings[activeMappingKey]
+                          ? '✅ Columns are mapped to the dataset headers. The upload will use this mapping.'
+                          : 'Map the columns to the dataset headers instead of editing the file.'}
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 flex-shrink-0"
+                        onClick={() => setShowMappingWizard(true)}
+                        data-testid="csv-upload-map-columns-button"
+                      >
+                        {columnMappings[activeMappingKey] ? 'Edit mapping' : 'Map columns'}
+                      </Button>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
-                    {headerValidation.errors.map((error, index) => (
+                    {activeValidation.errors.map((error, index) => (
                       <div
                         key={index}
                         className="flex items-start space-x-2 p-2 bg-white rounded border border-red-200"
@@ -780,7 +1404,7 @@ export function CSVUploadComponent({
                   <div className="text-xs text-red-600 bg-white p-2 rounded border border-red-200" data-testid="csv-upload-expected-headers">
                     <p className="font-medium mb-1">Expected headers:</p>
                     <div className="flex flex-wrap gap-1">
-                      {headerValidation.expectedHeaders.map((header, index) => (
+                      {activeValidation.expectedHeaders.map((header, index) => (
                         <span
                           key={index}
                           className="font-mono bg-red-100 text-red-800 px-1 rounded text-xs"
@@ -794,7 +1418,7 @@ export function CSVUploadComponent({
                   <div className="text-xs text-red-600 bg-white p-2 rounded border border-red-200" data-testid="csv-upload-actual-headers">
                     <p className="font-medium mb-1">Your CSV headers:</p>
                     <div className="flex flex-wrap gap-1">
-                      {headerValidation.newHeaders.map((header, index) => (
+                      {activeValidation.newHeaders.map((header, index) => (
                         <span
                           key={index}
                           className="font-mono bg-red-100 text-red-800 px-1 rounded text-xs"
@@ -809,21 +1433,42 @@ export function CSVUploadComponent({
             </div>
           )}
 
+          {!isMultiSheet && activeValidation && activeValidation.existingImportCount > 0 && !activeValidation.isDuplicate && (
+            <div className="p-3 bg-gray-50 rounded-lg border space-y-2" data-testid="csv-upload-import-mode">
+              <Label className="text-sm font-medium text-gray-700">Import mode</Label>
+              <RadioGroup
+                value={importMode}
+                onValueChange={(value) => changeImportMode(value as ImportMode)}
+                className="gap-2"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="append" id="csv-upload-mode-append" />
+                  <Label htmlFor="csv-upload-mode-append" className="font-normal text-sm">
+                    Add all rows as new rows
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="upsert" id="csv-upload-mode-upsert" disabled={!primaryKeyColumn} />
+                  <Label htmlFor="csv-upload-mode-upsert" className="font-normal text-sm">
+                    Update rows with an existing primary key and add the rest
+                  </Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-gray-500">
+                {primaryKeyColumn
+                  ? <>Rows are matched on <span className="font-mono">{primaryKeyColumn}</span>. Annotations in new columns are kept.</>
+                  : 'Set a primary key in the field configuration to update existing rows.'}
+              </p>
+            </div>
+          )}
+
           <div className="pt-2">
             <Button
               className="w-full"
               size="sm"
               onClick={handleUpload}
               data-testid="csv-upload-upload-button"
-              disabled={
-                isUploading ||
-                !selectedDatasetId ||
-                headerValidation?.isValid === false ||
-                headerValidation?.isDuplicate === true ||
-                headerValidation?.errors?.some(error => error.message.includes('Primary key conflicts detected')) ||
-                csvPreview?.totalRows === 0 ||
-                (csvPreview?.duplicateColumns && csvPreview.duplicateColumns.length > 0)
-              }
+              disabled={isUploading || !selectedDatasetId || isUploadBlocked}
             >
               {isUploading ? (
                 <>
@@ -833,25 +1478,73 @@ export function CSVUploadComponent({
               ) : (
                 <>
                   <Upload className="h-4 w-4 mr-2" />
-                  <span data-testid="csv-upload-upload-file-text">Upload file</span>
+                  <span data-testid="csv-upload-upload-file-text">
+                    {isMultiSheet
+                      ? `Upload ${selectedSheets.length} sheet${selectedSheets.length === 1 ? '' : 's'}`
+                      : uploadStatus === 'paused'
+                        ? 'Resume upload'
+                        : importMode === 'upsert'
+                          ? 'Review changes'
+                          : 'Upload file'}
+                  </span>
                 </>
               )}
             </Button>
+            {resumableUpload && uploadStatus === 'idle' && (
+              <p className="text-xs text-gray-500 mt-2" data-testid="csv-upload-resume-note">
+                An earlier upload of this file stopped at {formatFileSize(resumableUpload.acknowledgedBytes)} of{' '}
+                {formatFileSize(resumableUpload.fileSize)}. Uploading continues from there.
+              </p>
+            )}
           </div>
         </div>
       )}
 
       {/* Upload Progress */}
-      {uploadStatus === 'uploading' && (
+      {(uploadStatus === 'uploading' || uploadStatus === 'paused') && (
         <div className="space-y-2" data-testid="csv-upload-progress">
-          <div className="flex justify-between text-sm text-gray-600">
-            <span>Uploading...</span>
-            <span>{uploadProgress}%</span>
+          <div className="flex justify-between items-center text-sm text-gray-600">
+            <span>
+              {uploadStatus === 'paused' ? 'Paused' : uploadProgress ? UPLOAD_PHASE_LABELS[uploadProgress.phase] : 'Uploading'}
+              {uploadProgress && (
+                <span className="text-xs text-gray-500 ml-2">
+                  {formatFileSize(uploadProgress.loadedBytes)} of {formatFileSize(uploadProgress.totalBytes)}
+                </span>
+              )}
+            </span>
+            <div className="flex items-center gap-2">
+              <span>{uploadPercent}%</span>
+              {!isMultiSheet && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={uploadStatus === 'paused' ? handleUpload : pauseUpload}
+                  disabled={uploadStatus === 'uploading' && uploadProgress?.phase === 'processing'}
+                  data-testid="csv-upload-pause-button"
+                >
+                  {uploadStatus === 'paused' ? (
+                    <>
+                      <Play className="h-3 w-3 mr-1" />
+                      Resume
+                    </>
+                  ) : (
+                    <>
+                      <Pause className="h-3 w-3 mr-1" />
+                      Pause
+                    </>
+                  )}
+                </Button>
+              )}
+            </div>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
             <div
-              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${uploadProgress}%` }}
+              className={cn(
+                'h-2 rounded-full transition-all duration-300',
+                uploadStatus === 'paused' ? 'bg-amber-500' : 'bg-blue-600',
+              )}
+              style={{ width: `${uploadPercent}%` }}
             />
           </div>
         </div>
@@ -867,11 +1560,32 @@ export function CSVUploadComponent({
         </div>
          <div className="grid grid-cols-2 gap-2 text-xs text-blue-700">
            <div>Formats: CSV, Excel (.xlsx, .xls)</div>
-           <div>Encoding: UTF‑8</div>
-           <div>Max size: 10 MB per file</div>
+           <div>Encoding: UTF‑8, UTF‑16 or Windows‑1252</div>
+           <div>Large files: resumable chunked upload</div>
            <div>Notes: Metadata columns supported</div>
          </div>
       </div>
+
+      {activeValidation && (
+        <ColumnMappingWizard
+          open={showMappingWizard}
+          onOpenChange={setShowMappingWizard}
+          fileLabel={isMultiSheet ? previewSheet ?? '' : selectedFile?.name ?? ''}
+          expectedHeaders={activeValidation.expectedHeaders}
+          incomingHeaders={activeValidation.newHeaders}
+          initialDraft={columnMappings[activeMappingKey] ?? null}
+          onConfirm={(draft) => setColumnMappings((current) => ({ ...current, [activeMappingKey]: draft }))}
+        />
+      )}
+
+      <UpsertDiffDialog
+        open={showUpsertDialog}
+        onOpenChange={setShowUpsertDialog}
+        fileName={selectedFile?.name ?? ''}
+        preview={upsertPreview}
+        isUploading={isUploading}
+        onConfirm={uploadFile}
+      />
     </div>
   );
 }
@@ -0,0 +1,142 @@
+'use client';
+
+import { GitCompare, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { UpsertPreviewResult } from '@/lib/api/csv-processing';
+
+interface UpsertDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  preview: UpsertPreviewResult | null;
+  isUploading: boolean;
+  onConfirm: () => void;
+}
+
+// Conflicts listed before the rest are summarised
+const MAX_LISTED_CONFLICTS = 20;
+
+export function UpsertDiffDialog({
+  open,
+  onOpenChange,
+  fileName,
+  preview,
+  isUploading,
+  onConfirm,
+}: UpsertDiffDialogProps) {
+  const counts = preview
+    ? [
+        { label: 'Added', value: preview.added, className: 'bg-green-50 text-green-800 border-green-200' },
+        { label: 'Updated', value: preview.updated, className: 'bg-blue-50 text-blue-800 border-blue-200' },
+        { label: 'Unchanged', value: preview.unchanged, className: 'bg-gray-50 text-gray-700 border-gray-200' },
+        { label: 'Conflicting', value: preview.conflicting, className: 'bg-red-50 text-red-800 border-red-200' },
+      ]
+    : [];
+  const hasChanges = !!preview && preview.added + preview.updated > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isUploading && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-2xl" data-testid="upsert-diff-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-gray-600" />
+            Review changes from {fileName}
+          </DialogTitle>
+          <DialogDescription>
+            {preview
+              ? <>Rows are matched on <span className="font-mono">{preview.primaryKey}</span>. Updated rows keep the annotations in their new columns; conflicting rows are skipped.</>
+              : 'Comparing the file with the dataset...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {counts.map(({ label, value, className }) => (
+                <div key={label} className={`rounded-md border p-3 text-center ${className}`} data-testid={`upsert-count-${label.toLowerCase()}`}>
+                  <div className="text-2xl font-semibold">{value.toLocaleString()}</div>
+                  <div className="text-xs">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {preview.sampleChanges.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Sample updates</h4>
+                <div className="border rounded-md divide-y text-xs">
+                  {preview.sampleChanges.map((row) => (
+                    <div key={row.key} className="p-2 space-y-1">
+                      <div className="font-mono font-medium text-gray-900">{row.key}</div>
+                      {row.changes.map((change) => (
+                        <div key={change.column} className="flex flex-wrap items-center gap-1 text-gray-600">
+                          <span className="font-mono">{change.column}:</span>
+                          <span className="line-through text-red-700 break-all">{change.oldValue || '(empty)'}</span>
+                          <span>→</span>
+                          <span className="text-green-700 break-all">{change.newValue || '(empty)'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700">Conflicting rows</h4>
+                <table className="w-full text-xs border rounded-md">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left p-2 font-medium">Row</th>
+                      <th className="text-left p-2 font-medium">Key</th>
+                      <th className="text-left p-2 font-medium">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {preview.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict) => (
+                      <tr key={`${conflict.rowNumber}-${conflict.reason}`}>
+                        <td className="p-2">{conflict.rowNumber}</td>
+                        <td className="p-2 font-mono">{conflict.key || '(empty)'}</td>
+                        <td className="p-2 text-red-700">{conflict.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.conflicts.length > MAX_LISTED_CONFLICTS && (
+                  <p className="text-xs text-gray-500">
+                    and {preview.conflicts.length - MAX_LISTED_CONFLICTS} more
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!hasChanges && (
+              <p className="text-sm text-amber-700">This file adds or changes no rows.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isUploading}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!hasChanges || isUploading} data-testid="upsert-confirm-button">
+            {isUploading ? 'Importing...' : 'Apply changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
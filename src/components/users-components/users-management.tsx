@@ -10,6 +10,13 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Search,
   Users,
@@ -18,18 +25,26 @@ import {
   Mail,
   Shield,
   ShieldCheck,
+  ClipboardCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { usersAPI, UserResponse } from '@/lib/api/users';
+import { usersAPI, UserResponse, UserRole, USER_ROLE_LABELS } from '@/lib/api/users';
 import { useToast } from '@/components/ui/toast';
+import { useAuth } from '@/contexts/AuthContext';
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = (['user', 'reviewer', 'admin'] as UserRole[]).map(
+  (role) => ({ value: role, label: USER_ROLE_LABELS[role] })
+);
 
 export function UsersManagement() {
   const { showToast } = useToast();
+  const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<UserResponse[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [filteredUsers, setFilteredUsers] = useState<UserResponse[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [updatingRoleUserId, setUpdatingRoleUserId] = useState<string | null>(null);
 
   const loadUsers = useCallback(async () => {
     try {
@@ -69,6 +84,29 @@ export function UsersManagement() {
     }
   }, [searchQuery, users]);
 
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    try {
+      setUpdatingRoleUserId(userId);
+      const updated = await usersAPI.updateRole(userId, role);
+      setUsers((current) =>
+        current.map((u) => (u._id === userId ? { ...u, role: updated.role ?? role } : u))
+      );
+      showToast({
+        title: 'Success',
+        description: `Role changed to ${role}`,
+        type: 'success',
+      });
+    } catch {
+      showToast({
+        title: 'Error',
+        description: 'Failed to update user role',
+        type: 'error',
+      });
+    } finally {
+      setUpdatingRoleUserId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -81,6 +119,8 @@ export function UsersManagement() {
     switch (role) {
       case 'admin':
         return 'bg-purple-100 text-purple-800';
+      case 'reviewer':
+        return 'bg-amber-100 text-amber-800';
       case 'user':
         return 'bg-blue-100 text-blue-800';
       default:
@@ -89,6 +129,7 @@ export function UsersManagement() {
   };
 
   const getRoleIcon = (role: string) => {
+    if (role === 'reviewer') return ClipboardCheck;
     return role === 'admin' ? ShieldCheck : Shield;
   };
 
@@ -211,6 +252,29 @@ export function UsersManagement() {
                         {user.isActive ? 'Active' : 'Inactive'}
                       </span>
                     </div>
+                    {/* Admins cannot change their own role */}
+                    {user._id !== currentUser?._id && (
+                      <div className="flex items-center gap-2 text-sm text-gray-500">
+                        <span>Role</span>
+                        <Select
+                          value={user.role}
+                          onValueChange={(role) => handleRoleChange(user._id, role as UserRole)}
+                          disabled={updatingRoleUserId === user._id}
+                        >
+                          <SelectTrigger className="h-8 w-[130px] text-sm" data-testid={`user-role-select-${user._id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLE_OPTIONS.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {updatingRoleUserId === user._id && <Loader2 className="h-4 w-4 animate-spin" />}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
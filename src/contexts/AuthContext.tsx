@@ -25,6 +25,8 @@ interface User {
     locale?: string;
     verifiedEmail?: boolean;
   }
+  // Per-user overrides of the annotation workbench shortcuts, keyed by shortcut id
+  keyboardShortcuts?: Record<string, string>;
 }
 
 interface AuthContextType {
@@ -52,6 +54,9 @@ interface AuthContextType {
     lastName: string;
     email: string;
   }) => Promise<{ success: boolean; error?: string }>;
+  updateKeyboardShortcuts: (
+    keyboardShortcuts: Record<string, string>,
+  ) => Promise<{ success: boolean; error?: string }>;
   changePassword: (passwordData: {
     newPassword: string;
     confirmPassword: string;
@@ -213,6 +218,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateKeyboardShortcuts = async (keyboardShortcuts: Record<string, string>) => {
+    try {
+      const response = await usersAPI.updateKeyboardShortcuts(keyboardShortcuts);
+
+      // Update local user data
+      localStorage.setItem('user', JSON.stringify(response));
+      setUser(response);
+
+      return { success: true };
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || 'Shortcut update failed';
+      return { success: false, error: errorMessage };
+    }
+  };
+
   const changePassword = async (passwordData: {
     newPassword: string;
     confirmPassword: string;
@@ -241,6 +261,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     signup,
     signupAdmin,
     updateProfile,
+    updateKeyboardShortcuts,
     changePassword,
     logout,
   };
@@ -0,0 +1,38 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ExportPreset, ExportPresetRequest, ExportPresetsAPI } from '@/lib/api/export-presets';
+
+/**
+ * Export presets of a dataset: the user's own and those shared with them.
+ * Saving with a preset id updates it, otherwise a new preset is created.
+ */
+export function useExportPresets(datasetId: string) {
+  const [presets, setPresets] = useState<ExportPreset[]>([]);
+
+  useEffect(() => {
+    if (!datasetId) return;
+    ExportPresetsAPI.getPresets(datasetId)
+      .then(setPresets)
+      .catch(() => setPresets([]));
+  }, [datasetId]);
+
+  const savePreset = useCallback(async (request: ExportPresetRequest, presetId?: string) => {
+    const saved = presetId
+      ? await ExportPresetsAPI.updatePreset(presetId, request)
+      : await ExportPresetsAPI.createPreset(datasetId, request);
+    setPresets((current) =>
+      presetId
+        ? current.map((preset) => (preset._id === presetId ? saved : preset))
+        : [...current, saved]
+    );
+    return saved;
+  }, [datasetId]);
+
+  const deletePreset = useCallback(async (presetId: string) => {
+    await ExportPresetsAPI.deletePreset(presetId);
+    setPresets((current) => current.filter((preset) => preset._id !== presetId));
+  }, []);
+
+  return { presets, savePreset, deletePreset };
+}
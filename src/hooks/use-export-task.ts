@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DatasetExportOptions, ExportProgress } from '@/lib/dataset-export-helper';
+
+export type ExportTaskOptions = Pick<DatasetExportOptions, 'signal' | 'onProgress'>;
+
+/**
+ * Run one export at a time with progress and cancellation.
+ * The task receives options to spread into the export helper call.
+ */
+export function useExportTask() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const runExport = useCallback(async (task: (options: ExportTaskOptions) => Promise<void>) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(null);
+
+    try {
+      await task({ signal: controller.signal, onProgress: setProgress });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsExporting(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  const cancelExport = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Leaving the page stops any export still running
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { isExporting, progress, runExport, cancelExport };
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  isTypingTarget,
+  matchShortcut,
+  rememberFocusedField,
+  resolveShortcutBindings,
+  ShortcutBindings,
+  ShortcutId,
+  ShortcutMatch,
+  SHORTCUT_DEFINITIONS,
+} from '@/lib/keyboard-shortcuts';
+
+// Return false to let the key press through to other listeners
+export type ShortcutHandler = (match: ShortcutMatch, event: KeyboardEvent) => boolean | void;
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, ShortcutHandler>>;
+
+// Shortcuts defined by dataset configuration rather than the registry (e.g. label hotkeys)
+export interface CustomShortcut {
+  id: string;
+  keys: string;
+  label: string;
+  description?: string;
+  onTrigger: (event: KeyboardEvent) => boolean | void;
+}
+
+interface UseKeyboardShortcutsOptions {
+  enabled?: boolean;
+  customShortcuts?: CustomShortcut[];
+}
+
+/**
+ * Bind registry shortcuts to handlers using the signed-in user's overrides.
+ * Returns the resolved bindings so callers can display them.
+ */
+export function useKeyboardShortcuts(
+  handlers: ShortcutHandlers,
+  { enabled = true, customShortcuts = [] }: UseKeyboardShortcutsOptions = {},
+): ShortcutBindings {
+  const { user } = useAuth();
+  const overrides = user?.keyboardShortcuts;
+  const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides]);
+
+  // Keep the latest handlers without re-registering the listener on every render
+  const handlersRef = useRef(handlers);
+  const customShortcutsRef = useRef(customShortcuts);
+  useEffect(() => {
+    handlersRef.current = handlers;
+    customShortcutsRef.current = customShortcuts;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+
+      const typing = isTypingTarget(event.target);
+      const candidates: { keys: string; run: ShortcutHandler }[] = [
+        ...SHORTCUT_DEFINITIONS.flatMap((definition) => {
+          const handler = handlersRef.current[definition.id];
+          return handler ? [{ keys: bindings[definition.id], run: handler }] : [];
+        }),
+        ...customShortcutsRef.current.map((shortcut) => ({
+          keys: shortcut.keys,
+          run: (_match: ShortcutMatch, keyEvent: KeyboardEvent) => shortcut.onTrigger(keyEvent),
+        })),
+      ];
+
+      for (const candidate of candidates) {
+        const match = matchShortcut(event, candidate.keys);
+        // Unmodified keys keep typing inside text fields
+        if (!match || (typing && !match.hasModifier)) continue;
+        if (candidate.run(match, event) === false) continue;
+
+        event.preventDefault();
+        return;
+      }
+    };
+
+    const handleFocusIn = (event: FocusEvent) => rememberFocusedField(event.target);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('focusin', handleFocusIn);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('focusin', handleFocusIn);
+    };
+  }, [bindings, enabled]);
+
+  return bindings;
+}
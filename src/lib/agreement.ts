@@ -0,0 +1,265 @@
+/**
+ * Inter-Annotator Agreement
+ * Agreement statistics for rows labelled independently by several annotators.
+ * Categorical columns (select, multiselect, selectrange) use Cohen's kappa when
+ * the same two annotators rated every row, and Fleiss' kappa otherwise; other
+ * columns use the exact-match rate.
+ */
+
+import { getNewColumnTypes, NewColumnType } from './field-config';
+
+export type AgreementMetric = 'cohen' | 'fleiss' | 'exact';
+
+export interface AnnotatorRating {
+  userId: string;
+  value: string;
+}
+
+export interface RowRatings {
+  rowIndex: number;
+  ratings: AnnotatorRating[];
+}
+
+export interface FieldAgreement {
+  fieldName: string;
+  columnType: NewColumnType;
+  metric: AgreementMetric;
+  // Kappa, or the exact-match rate; null when no row has two ratings
+  score: number | null;
+  // Share of compared rows where every annotator gave the same value
+  observedAgreement: number | null;
+  rowsCompared: number;
+  disagreeingRows: number[];
+}
+
+export const AGREEMENT_METRIC_LABELS: Record<AgreementMetric, string> = {
+  cohen: "Cohen's kappa",
+  fleiss: "Fleiss' kappa",
+  exact: 'Exact match',
+};
+
+// A column compared between annotators
+export interface AgreementField {
+  fieldName: string;
+  columnType: NewColumnType;
+}
+
+const CATEGORICAL_TYPES: NewColumnType[] = ['select', 'multiselect', 'selectrange'];
+
+/**
+ * Canonical form of a value, so formatting differences do not count as disagreement.
+ * Multiselect values are compared as sets of options.
+ */
+export function normalizeRatingValue(value: unknown, columnType: NewColumnType): string {
+  const text = value === undefined || value === null ? '' : String(value).trim();
+
+  switch (columnType) {
+    case 'multiselect':
+      return text
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean)
+        .sort()
+        .join(', ');
+    case 'number':
+    case 'selectrange':
+      return text !== '' && !Number.isNaN(Number(text)) ? String(Number(text)) : text;
+    default:
+      return text.replace(/\s+/g, ' ');
+  }
+}
+
+/**
+ * Cohen's kappa for two raters; each pair holds both raters' labels for one item
+ */
+export function cohensKappa(pairs: [string, string][]): number | null {
+  if (pairs.length === 0) return null;
+
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  let agreements = 0;
+
+  pairs.forEach(([a, b]) => {
+    if (a === b) agreements++;
+    countsA.set(a, (countsA.get(a) || 0) + 1);
+    countsB.set(b, (countsB.get(b) || 0) + 1);
+  });
+
+  const n = pairs.length;
+  const observed = agreements / n;
+  let expected = 0;
+  countsA.forEach((countA, category) => {
+    expected += (countA / n) * ((countsB.get(category) || 0) / n);
+  });
+
+  return chanceCorrected(observed, expected);
+}
+
+/**
+ * Fleiss' kappa; every item must have the same number (at least two) of ratings
+ */
+export function fleissKappa(items: string[][]): number | null {
+  if (items.length === 0) return null;
+
+  const raters = items[0].length;
+  if (raters < 2 || items.some((ratings) => ratings.length !== raters)) return null;
+
+  const categoryTotals = new Map<string, number>();
+  let agreementSum = 0;
+
+  items.forEach((ratings) => {
+    const counts = new Map<string, number>();
+    ratings.forEach((rating) => counts.set(rating, (counts.get(rating) || 0) + 1));
+
+    let squares = 0;
+    counts.forEach((count, category) => {
+      squares += count * count;
+      categoryTotals.set(category, (categoryTotals.get(category) || 0) + count);
+    });
+    agreementSum += (squares - raters) / (raters * (raters - 1));
+  });
+
+  const observed = agreementSum / items.length;
+  let expected = 0;
+  categoryTotals.forEach((total) => {
+    const share = total / (items.length * raters);
+    expected += share * share;
+  });
+
+  return chanceCorrected(observed, expected);
+}
+
+/**
+ * Columns annotators fill in, from a dataset field config. Only new columns
+ * are annotated; their type decides the agreement metric.
+ */
+export function getAgreementFields(config: any): AgreementField[] {
+  return Array.from(getNewColumnTypes(config), ([fieldName, columnType]) => ({ fieldName, columnType }));
+}
+
+/**
+ * Ratings of one column per row. Only completed annotations are compared;
+ * work in progress is not a disagreement.
+ */
+export function collectFieldRatings(
+  fieldName: string,
+  rows: {
+    rowIndex: number;
+    annotations: { userId: string; values: Record<string, string>; completed: boolean }[];
+  }[],
+): RowRatings[] {
+  return rows.map((row) => ({
+    rowIndex: row.rowIndex,
+    ratings: row.annotations
+      .filter((annotation) => annotation.completed)
+      .map((annotation) => ({ userId: annotation.userId, value: annotation.values[fieldName] })),
+  }));
+}
+
+/**
+ * Agreement for one column across all overlapping rows. Empty values are
+ * treated as not annotated, so a row needs two non-empty ratings to count.
+ */
+export function computeFieldAgreement(
+  fieldName: string,
+  columnType: NewColumnType,
+  rows: RowRatings[],
+): FieldAgreement {
+  const compared = rows
+    .map((row) => ({
+      rowIndex: row.rowIndex,
+      ratings: row.ratings
+        .map((rating) => ({ ...rating, value: normalizeRatingValue(rating.value, columnType) }))
+        .filter((rating) => rating.value !== ''),
+    }))
+    .filter((row) => row.ratings.length >= 2);
+
+  const disagreeingRows = compared
+    .filter((row) => new Set(row.ratings.map((rating) => rating.value)).size > 1)
+    .map((row) => row.rowIndex);
+
+  const observedAgreement = compared.length > 0
+    ? 1 - disagreeingRows.length / compared.length
+    : null;
+
+  if (!CATEGORICAL_TYPES.includes(columnType)) {
+    return {
+      fieldName,
+      columnType,
+      metric: 'exact',
+      score: observedAgreement,
+      observedAgreement,
+      rowsCompared: compared.length,
+      disagreeingRows,
+    };
+  }
+
+  // Cohen's kappa assumes the same two raters for every item
+  const raters = new Set(compared.flatMap((row) => row.ratings.map((rating) => rating.userId)));
+  if (raters.size === 2 && compared.every((row) => row.ratings.length === 2)) {
+    const [first] = Array.from(raters);
+    const pairs = compared.map((row) => {
+      const a = row.ratings.find((rating) => rating.userId === first)!;
+      const b = row.ratings.find((rating) => rating.userId !== first)!;
+      return [a.value, b.value] as [string, string];
+    });
+
+    return {
+      fieldName,
+      columnType,
+      metric: 'cohen',
+      score: cohensKappa(pairs),
+      observedAgreement,
+      rowsCompared: compared.length,
+      disagreeingRows,
+    };
+  }
+
+  // Fleiss' kappa needs a fixed number of ratings per row: use the most common count
+  const raterCount = mostCommon(compared.map((row) => row.ratings.length));
+  const items = compared
+    .filter((row) => row.ratings.length === raterCount)
+    .map((row) => row.ratings.map((rating) => rating.value));
+
+  return {
+    fieldName,
+    columnType,
+    metric: 'fleiss',
+    score: fleissKappa(items),
+    observedAgreement,
+    rowsCompared: compared.length,
+    disagreeingRows,
+  };
+}
+
+/**
+ * Landis & Koch reading of a kappa value
+ */
+export function describeKappa(kappa: number): string {
+  if (kappa < 0) return 'Poor';
+  if (kappa <= 0.2) return 'Slight';
+  if (kappa <= 0.4) return 'Fair';
+  if (kappa <= 0.6) return 'Moderate';
+  if (kappa <= 0.8) return 'Substantial';
+  return 'Almost perfect';
+}
+
+function chanceCorrected(observed: number, expected: number): number {
+  // Every rating in one category: kappa is undefined, report perfect agreement as 1
+  if (expected >= 1) return observed >= 1 ? 1 : 0;
+  return (observed - expected) / (1 - expected);
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
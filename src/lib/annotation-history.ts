@@ -0,0 +1,183 @@
+/**
+ * Annotation History
+ * Per-row undo/redo stacks for the current browser session. Edits are plain
+ * data; the caller applies them (locally and, when persisted, on the server).
+ */
+
+import { ImageFieldAnnotation } from './api/annotations';
+import { createLocalId } from './utils';
+
+const MAX_ENTRIES_PER_ROW = 100;
+// Consecutive edits to the same target within this window become one entry
+const COALESCE_WINDOW_MS = 1000;
+
+interface BaseEdit {
+  datasetId: string;
+  rowIndex: number;
+  fieldName: string;
+  // Whether the "after" value has been saved to the server
+  persisted: boolean;
+  // Edits with the same key (e.g. keystrokes in one field) are merged
+  coalesceKey?: string;
+}
+
+export type AnnotationEdit =
+  | (BaseEdit & { kind: 'newColumn' | 'metadata'; before: string; after: string })
+  | (BaseEdit & { kind: 'imageMetadata'; before: ImageFieldAnnotation; after: ImageFieldAnnotation });
+
+export type HistoryEntry = AnnotationEdit & {
+  id: string;
+  recordedAt: number;
+};
+
+export type HistoryDirection = 'undo' | 'redo';
+
+// Applies an entry's target value ("before" for undo, "after" for redo); throw to abort
+export type HistoryApplier = (entry: HistoryEntry, direction: HistoryDirection) => Promise<void>;
+
+export type HistoryEvent =
+  | { type: 'changed' }
+  | { type: 'applied'; entry: HistoryEntry; direction: HistoryDirection };
+
+interface RowStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export class AnnotationHistory {
+  private rows = new Map<string, RowStacks>();
+  private listeners = new Set<(event: HistoryEvent) => void>();
+  private isApplying = false;
+
+  subscribe(listener: (event: HistoryEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record an edit, clearing the row's redo stack
+   */
+  record(edit: AnnotationEdit): void {
+    // Edits replayed by undo/redo must not be recorded again
+    if (this.isApplying || valuesEqual(edit.before, edit.after)) return;
+
+    const stacks = this.getStacks(edit.datasetId, edit.rowIndex, true)!;
+    const now = Date.now();
+    const last = stacks.undo[stacks.undo.length - 1];
+
+    if (
+      last &&
+      edit.coalesceKey &&
+      last.coalesceKey === edit.coalesceKey &&
+      last.persisted === edit.persisted &&
+      now - last.recordedAt < COALESCE_WINDOW_MS
+    ) {
+      stacks.undo[stacks.undo.length - 1] = { ...last, after: edit.after, recordedAt: now } as HistoryEntry;
+    } else {
+      stacks.undo.push({ ...edit, id: createLocalId(), recordedAt: now } as HistoryEntry);
+      if (stacks.undo.length > MAX_ENTRIES_PER_ROW) {
+        stacks.undo.shift();
+      }
+    }
+
+    stacks.redo = [];
+    this.notify({ type: 'changed' });
+  }
+
+  canUndo(datasetId: string, rowIndex: number): boolean {
+    return (this.getStacks(datasetId, rowIndex)?.undo.length ?? 0) > 0;
+  }
+
+  canRedo(datasetId: string, rowIndex: number): boolean {
+    return (this.getStacks(datasetId, rowIndex)?.redo.length ?? 0) > 0;
+  }
+
+  /**
+   * Undo the row's latest edit. Stacks are left untouched if applying fails.
+   */
+  async undo(datasetId: string, rowIndex: number, apply: HistoryApplier): Promise<HistoryEntry | null> {
+    return this.move(datasetId, rowIndex, 'undo', apply);
+  }
+
+  async redo(datasetId: string, rowIndex: number, apply: HistoryApplier): Promise<HistoryEntry | null> {
+    return this.move(datasetId, rowIndex, 'redo', apply);
+  }
+
+  /**
+   * Flag a row's local edits as saved, so undoing them is re-issued to the server
+   */
+  markPersisted(datasetId: string, rowIndex: number, kind: AnnotationEdit['kind'], fieldName?: string): void {
+    const stacks = this.getStacks(datasetId, rowIndex);
+    if (!stacks) return;
+
+    const matches = (entry: HistoryEntry) =>
+      entry.kind === kind && (!fieldName || entry.fieldName === fieldName);
+    stacks.undo = stacks.undo.map((entry) => (matches(entry) ? { ...entry, persisted: true } : entry));
+    stacks.redo = stacks.redo.map((entry) => (matches(entry) ? { ...entry, persisted: true } : entry));
+  }
+
+  /**
+   * Drop unsaved edits of a row, e.g. when navigating away discards them
+   */
+  discardUnpersisted(datasetId: string, rowIndex: number): void {
+    const stacks = this.getStacks(datasetId, rowIndex);
+    if (!stacks) return;
+
+    stacks.undo = stacks.undo.filter((entry) => entry.persisted);
+    stacks.redo = stacks.redo.filter((entry) => entry.persisted);
+    this.notify({ type: 'changed' });
+  }
+
+  clear(): void {
+    this.rows.clear();
+    this.notify({ type: 'changed' });
+  }
+
+  private async move(
+    datasetId: string,
+    rowIndex: number,
+    direction: HistoryDirection,
+    apply: HistoryApplier,
+  ): Promise<HistoryEntry | null> {
+    const stacks = this.getStacks(datasetId, rowIndex);
+    const source = direction === 'undo' ? stacks?.undo : stacks?.redo;
+    if (!stacks || !source?.length || this.isApplying) return null;
+
+    const entry = source[source.length - 1];
+    this.isApplying = true;
+    try {
+      await apply(entry, direction);
+      // Notify while still applying so listeners' state updates are not recorded
+      this.notify({ type: 'applied', entry, direction });
+    } finally {
+      this.isApplying = false;
+    }
+
+    source.pop();
+    (direction === 'undo' ? stacks.redo : stacks.undo).push(entry);
+    this.notify({ type: 'changed' });
+    return entry;
+  }
+
+  private getStacks(datasetId: string, rowIndex: number, create = false): RowStacks | undefined {
+    const key = `${datasetId}:${rowIndex}`;
+    let stacks = this.rows.get(key);
+    if (!stacks && create) {
+      stacks = { undo: [], redo: [] };
+      this.rows.set(key, stacks);
+    }
+    return stacks;
+  }
+
+  private notify(event: HistoryEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export const annotationHistory = new AnnotationHistory();
@@ -0,0 +1,433 @@
+/**
+ * Annotation Save Queue
+ * Persistent (IndexedDB-backed) write queue for row data patches, so edits made
+ * on unreliable networks are retried instead of lost.
+ */
+
+import {
+  DatasetMergedRowsAPI,
+  PatchRowDataRequest,
+  PatchRowDataResponse,
+  RowWithCSVInfo,
+} from './api/dataset-merged-rows';
+import { RowAssignmentsAPI } from './api/row-assignments';
+import { createLocalId } from './utils';
+
+const DB_NAME = 'data-annotation';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingRowPatches';
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+export type PendingRowPatchStatus = 'pending' | 'conflict' | 'failed';
+
+export interface PendingRowPatch extends PatchRowDataRequest {
+  id: string;
+  datasetId: string;
+  rowIndex: number;
+  // Values of the patched fields when the row was loaded, used for conflict detection
+  baseValues: Record<string, any>;
+  // Row updatedAt when the row was loaded; field values are compared when unknown
+  baseUpdatedAt?: string;
+  // Send without a conflict check, once the user chose to keep their change
+  overwrite?: boolean;
+  // Mark the row as completed once the data is saved
+  markCompleted?: boolean;
+  // Row comes from the user's assigned queue, so conflicts are checked against their own values
+  assigned?: boolean;
+  status: PendingRowPatchStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export interface EnqueueRowPatchRequest extends PatchRowDataRequest {
+  datasetId: string;
+  rowIndex: number;
+  baseValues: Record<string, any>;
+  baseUpdatedAt?: string;
+  markCompleted?: boolean;
+  assigned?: boolean;
+}
+
+export type SaveOutcome =
+  | { status: 'synced'; response: PatchRowDataResponse | null }
+  | { status: 'queued' }
+  | { status: 'conflict'; serverRow: RowWithCSVInfo | null }
+  | { status: 'failed'; error: string };
+
+export type SaveQueueEvent =
+  | { type: 'changed' }
+  | { type: 'synced'; entry: PendingRowPatch; response: PatchRowDataResponse | null }
+  | { type: 'conflict'; entry: PendingRowPatch; serverRow: RowWithCSVInfo | null };
+
+class ConflictError extends Error {
+  serverRow: RowWithCSVInfo | null;
+
+  constructor(
+    serverRow: RowWithCSVInfo | null,
+    message = 'Row was changed on the server since it was loaded',
+  ) {
+    super(message);
+    this.name = 'ConflictError';
+    this.serverRow = serverRow;
+  }
+}
+
+const isRetryableError = (error: any): boolean => {
+  const status = error?.response?.status;
+  // No response means the request never reached the server (offline, timeout)
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+const getErrorMessage = (error: any): string =>
+  error?.response?.data?.message ||
+  (error instanceof Error ? error.message : 'Unknown error');
+
+const valuesEqual = (a: any, b: any): boolean =>
+  (a ?? '') === (b ?? '') || JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+// ============================================
+// INDEXEDDB HELPERS
+// ============================================
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    // Fall back to an in-memory queue (e.g. private browsing)
+    request.onerror = () => resolve(null);
+  });
+}
+
+function runRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ============================================
+// SAVE QUEUE
+// ============================================
+
+export class AnnotationSaveQueue {
+  private entries: PendingRowPatch[] = [];
+  private db: IDBDatabase | null = null;
+  private ready: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(event: SaveQueueEvent) => void>();
+
+  /**
+   * Load persisted entries and start syncing when connectivity returns
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        this.db = await openDatabase();
+        if (this.db) {
+          try {
+            this.entries = await runRequest<PendingRowPatch[]>(this.db, 'readonly', (store) =>
+              store.getAll(),
+            );
+            this.entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+          } catch {
+            this.entries = [];
+          }
+        }
+
+        if (typeof window !== 'undefined') {
+          window.addEventListener('online', () => {
+            // Retry immediately instead of waiting for the backoff
+            this.entries.forEach((entry) => {
+              entry.nextAttemptAt = 0;
+            });
+            this.flush();
+          });
+        }
+
+        this.emit({ type: 'changed' });
+        this.flush();
+      })();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Subscribe to queue changes, successful syncs and detected conflicts
+   */
+  subscribe(listener: (event: SaveQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get queued entries for a dataset (optionally a single row)
+   */
+  getEntries(datasetId: string, rowIndex?: number): PendingRowPatch[] {
+    return this.entries.filter(
+      (entry) =>
+        entry.datasetId === datasetId &&
+        (rowIndex === undefined || entry.rowIndex === rowIndex),
+    );
+  }
+
+  /**
+   * Queue a row patch and try to send it right away
+   */
+  async enqueue(request: EnqueueRowPatchRequest): Promise<SaveOutcome> {
+    await this.init();
+
+    const entry: PendingRowPatch = {
+      ...request,
+      id: createLocalId(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: new Date().toISOString(),
+    };
+    await this.persist(entry);
+    this.entries.push(entry);
+    this.emit({ type: 'changed' });
+
+    // Capture the outcome of this entry while the queue is flushed
+    let outcome: SaveOutcome | null = null;
+    const unsubscribe = this.subscribe((event) => {
+      if (event.type === 'synced' && event.entry.id === entry.id) {
+        outcome = { status: 'synced', response: event.response };
+      } else if (event.type === 'conflict' && event.entry.id === entry.id) {
+        outcome = { status: 'conflict', serverRow: event.serverRow };
+      }
+    });
+    try {
+      await this.flush();
+      // An in-progress flush may have started before this entry was added
+      if (!outcome) await this.flush();
+    } finally {
+      unsubscribe();
+    }
+
+    if (outcome) return outcome;
+
+    const current = this.entries.find((queued) => queued.id === entry.id);
+    if (!current) {
+      return { status: 'synced', response: null };
+    }
+    if (current.status === 'failed') {
+      return { status: 'failed', error: current.lastError || 'Unknown error' };
+    }
+    return { status: 'queued' };
+  }
+
+  /**
+   * Resolve a conflicting or failed entry: overwrite the server or drop the local change
+   */
+  async resolve(id: string, resolution: 'overwrite' | 'discard'): Promise<void> {
+    const entry = this.entries.find((queued) => queued.id === id);
+    if (!entry) return;
+
+    if (resolution === 'discard') {
+      await this.remove(entry);
+      return;
+    }
+
+    entry.status = 'pending';
+    entry.overwrite = true;
+    entry.attempts = 0;
+    entry.nextAttemptAt = 0;
+    entry.lastError = undefined;
+    await this.persist(entry);
+    this.emit({ type: 'changed' });
+    await this.flush();
+  }
+
+  /**
+   * Send due entries in order; a row with an unresolved entry blocks its later entries
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.processEntries().finally(() => {
+        this.flushing = null;
+        this.scheduleRetry();
+      });
+    }
+    return this.flushing;
+  }
+
+  private async processEntries(): Promise<void> {
+    const blockedRows = new Set<string>();
+
+    for (const entry of [...this.entries]) {
+      const rowKey = `${entry.datasetId}:${entry.rowIndex}`;
+      if (blockedRows.has(rowKey)) continue;
+
+      if (entry.status !== 'pending' || entry.nextAttemptAt > Date.now()) {
+        blockedRows.add(rowKey);
+        continue;
+      }
+
+      try {
+        const response = await this.send(entry);
+        await this.remove(entry);
+        this.emit({ type: 'synced', entry, response });
+      } catch (error: any) {
+        blockedRows.add(rowKey);
+
+        if (error instanceof ConflictError || error?.response?.status === 409) {
+          entry.status = 'conflict';
+          entry.lastError = getErrorMessage(error);
+          await this.persist(entry);
+          this.emit({
+            type: 'conflict',
+            entry,
+            serverRow: error instanceof ConflictError ? error.serverRow : null,
+          });
+        } else if (isRetryableError(error)) {
+          entry.attempts += 1;
+          entry.nextAttemptAt =
+            Date.now() +
+            Math.min(RETRY_BASE_DELAY_MS * 2 ** (entry.attempts - 1), RETRY_MAX_DELAY_MS);
+          entry.lastError = getErrorMessage(error);
+          await this.persist(entry);
+        } else {
+          entry.status = 'failed';
+          entry.lastError = getErrorMessage(error);
+          await this.persist(entry);
+        }
+        this.emit({ type: 'changed' });
+      }
+    }
+  }
+
+  private async send(entry: PendingRowPatch): Promise<PatchRowDataResponse | null> {
+    let response: PatchRowDataResponse | null = null;
+
+    if (Object.keys(entry.data).length > 0) {
+      await this.checkForConflict(entry);
+      response = await DatasetMergedRowsAPI.patchRowData(
+        entry.datasetId,
+        entry.rowIndex,
+        entry.data,
+      );
+    }
+
+    if (entry.markCompleted) {
+      try {
+        await DatasetMergedRowsAPI.markRowCompleted(entry.datasetId, entry.rowIndex);
+      } catch (error) {
+        // The data is saved; only retry the completion from now on
+        entry.data = {};
+        entry.baseValues = {};
+        throw error;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * A conflict is a server-side change, made after the row was loaded, to a field
+   * this entry is about to overwrite with a different value. Timestamps rule out
+   * changes cheaply; otherwise the loaded values are compared with the server's.
+   * Without either there is no telling, so the entry is held as a conflict.
+   */
+  private async checkForConflict(entry: PendingRowPatch): Promise<void> {
+    if (entry.overwrite) return;
+
+    const serverRow = entry.assigned
+      ? await RowAssignmentsAPI.getMyRow(entry.datasetId, entry.rowIndex)
+      : await DatasetMergedRowsAPI.getRowByIndex(entry.datasetId, entry.rowIndex);
+    if (!serverRow) {
+      throw new ConflictError(null, 'Row could not be loaded from the server to check for changes');
+    }
+
+    if (
+      entry.baseUpdatedAt &&
+      serverRow.updatedAt &&
+      new Date(serverRow.updatedAt).getTime() <= new Date(entry.baseUpdatedAt).getTime()
+    ) {
+      return;
+    }
+
+    const fieldNames = Object.keys(entry.data);
+    if (fieldNames.some((fieldName) => !(fieldName in entry.baseValues))) {
+      throw new ConflictError(serverRow, 'Row has no version information to check for changes');
+    }
+
+    const hasConflict = fieldNames.some((fieldName) => {
+      const serverValue = serverRow.data?.[fieldName];
+      return (
+        !valuesEqual(serverValue, entry.baseValues[fieldName]) &&
+        !valuesEqual(serverValue, entry.data[fieldName])
+      );
+    });
+
+    if (hasConflict) {
+      throw new ConflictError(serverRow);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const pending = this.entries.filter((entry) => entry.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAttemptAt = Math.min(...pending.map((entry) => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(
+      () => this.flush(),
+      Math.max(nextAttemptAt - Date.now(), 0),
+    );
+  }
+
+  private async persist(entry: PendingRowPatch): Promise<void> {
+    if (!this.db) return;
+    try {
+      await runRequest(this.db, 'readwrite', (store) => store.put(entry));
+    } catch {
+      // Keep the in-memory entry even if it cannot be persisted
+    }
+  }
+
+  private async remove(entry: PendingRowPatch): Promise<void> {
+    this.entries = this.entries.filter((queued) => queued.id !== entry.id);
+    if (this.db) {
+      try {
+        await runRequest(this.db, 'readwrite', (store) => store.delete(entry.id));
+      } catch {
+        // The entry is already gone from the in-memory queue
+      }
+    }
+    this.emit({ type: 'changed' });
+  }
+
+  private emit(event: SaveQueueEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+export const annotationSaveQueue = new AnnotationSaveQueue();
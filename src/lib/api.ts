@@ -127,6 +127,14 @@ export const usersAPI = {
     return response.data;
   },
 
+  // Update keyboard shortcut overrides stored on the profile
+  updateKeyboardShortcuts: async (keyboardShortcuts: Record<string, string>) => {
+    const response = await jsonApi.put('/users/profile/keyboard-shortcuts', {
+      keyboardShortcuts,
+    });
+    return response.data;
+  },
+
   // Change password
   changePassword: async (passwordData: {
     newPassword: string;
@@ -11,11 +11,39 @@ export interface ImageMetadata {
   order: number;
 }
 
+export type RegionShape = 'rectangle' | 'polygon';
+
+// Coordinates are fractions (0-1) of the image's natural width and height
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+export interface ImageRegion {
+  id: string;
+  imageUrl: string;
+  shape: RegionShape;
+  // Name of one of the dataset's annotation labels
+  label: string;
+  // Rectangles hold the top-left and bottom-right corners
+  points: RegionPoint[];
+  // Natural image size when the region was drawn, for pixel coordinates on export
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+// Everything saved for one image field of a row
+export interface ImageFieldAnnotation {
+  images: ImageMetadata[];
+  regions: ImageRegion[];
+}
+
 export interface SaveImageMetadataRequest {
   datasetId: string;
   rowIndex: number;
   fieldName: string;
   images: ImageMetadata[];
+  regions?: ImageRegion[];
   isAiGenerated?: boolean;
 }
 
@@ -25,6 +53,7 @@ export interface AnnotationResponse {
   rowIndex: number;
   fieldName: string;
   images: ImageMetadata[];
+  regions?: ImageRegion[];
   userId?: string;
   isAiGenerated: boolean;
   createdAt: string;
@@ -62,11 +91,13 @@ export class AnnotationsAPI {
    * Get all image metadata annotations for a dataset
    */
   static async getDatasetAnnotations(
-    datasetId: string
+    datasetId: string,
+    signal?: AbortSignal
   ): Promise<AnnotationResponse[]> {
     try {
       const response = await jsonApi.get(
-        `/annotations/image-metadata/dataset/${datasetId}`
+        `/annotations/image-metadata/dataset/${datasetId}`,
+        { signal }
       );
       return response.data;
     } catch (error) {
@@ -5,6 +5,8 @@ export interface CSVRowData {
   data: Record<string, any>;
   processed: boolean;
   errors?: string[];
+  // Left out of the import from the validation report
+  excluded?: boolean;
   // NEW: Progress tracking fields
   completed?: boolean;
   completedAt?: string; // ISO string date
@@ -64,6 +66,39 @@ export class CSVImportsAPI {
   }
 
 
+  // Replace the values of one row; the row is validated again and returned with its new errors
+  static async updateRowData(
+    id: string,
+    rowIndex: number,
+    data: Record<string, any>,
+  ): Promise<CSVRowData> {
+    const response = await jsonApi.patch(
+      `/csv-processing/imports/${id}/rows/${rowIndex}`,
+      { data },
+    );
+    return response.data;
+  }
+
+  // Leave rows out of the import, or take them back in. A POST action rather than
+  // PATCH rows/excluded, which would be routed as the row with index "excluded"
+  static async setRowsExcluded(
+    id: string,
+    rowIndexes: number[],
+    excluded: boolean,
+  ): Promise<{ success: boolean; updated: number }> {
+    const response = await jsonApi.post(
+      `/csv-processing/imports/${id}/rows/exclude`,
+      { rowIndexes, excluded },
+    );
+    return response.data;
+  }
+
+  // Mark the import complete; rows with errors must be fixed or excluded first
+  static async completeImport(id: string): Promise<CSVImport> {
+    const response = await jsonApi.post(`/csv-processing/imports/${id}/complete`);
+    return response.data;
+  }
+
   // Delete CSV import
   static async deleteCSVImport(
     datasetId: string,
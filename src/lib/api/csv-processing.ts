@@ -1,6 +1,18 @@
 import api from '../api';
 
 // Types for CSV processing API
+
+// Append adds every row; upsert updates rows whose primary key exists and appends the rest
+export type ImportMode = 'append' | 'upsert';
+
+export interface UpsertCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  // Rows skipped because their key is missing, repeated in the file or matches several rows
+  conflicting: number;
+}
+
 export interface CSVUploadResult {
   csvImportId: string;
   md5Checksum: string;
@@ -8,6 +20,55 @@ export interface CSVUploadResult {
   totalRows: number;
   columns: string[];
   status: string;
+  // Set for upsert imports
+  upsert?: UpsertCounts;
+}
+
+export interface UploadSessionRequest {
+  // MD5 of the whole file; an unfinished session for the same file is resumed
+  md5Checksum: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  parseOptions?: CSVParseOptions;
+  mode?: ImportMode;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  // Chunks stored by the server, counted from the start of the file
+  acknowledgedChunks: number;
+}
+
+export type UpsertConflictReason = 'MISSING_KEY' | 'DUPLICATE_KEY_IN_FILE' | 'AMBIGUOUS_EXISTING_KEY';
+
+export interface UpsertConflict {
+  // 1-based data row of the file
+  rowNumber: number;
+  key: string;
+  reason: UpsertConflictReason;
+  message: string;
+}
+
+export interface UpsertValueChange {
+  column: string;
+  oldValue: string;
+  newValue: string;
+}
+
+export interface UpsertRowChange {
+  key: string;
+  changes: UpsertValueChange[];
+}
+
+export interface UpsertPreviewResult extends UpsertCounts {
+  // CSV column holding the primary key
+  primaryKey: string;
+  conflicts: UpsertConflict[];
+  // First updated rows with their changed source columns
+  sampleChanges: UpsertRowChange[];
 }
 
 export interface CSVPreviewResult {
@@ -22,6 +83,17 @@ export interface CSVPreviewResult {
   };
 }
 
+// How the server should read an uploaded CSV, as detected or chosen in the upload preview
+export type CSVParseOptions = Pick<CSVPreviewResult['metadata'], 'delimiter' | 'encoding' | 'hasHeader'>;
+
+// Form fields carrying the parse options next to the file
+const appendParseOptions = (formData: FormData, parseOptions?: CSVParseOptions) => {
+  if (!parseOptions) return;
+  formData.append('delimiter', parseOptions.delimiter);
+  formData.append('encoding', parseOptions.encoding);
+  formData.append('hasHeader', String(parseOptions.hasHeader));
+};
+
 export interface ColumnMapping {
   csvColumnName: string;
   projectMetadataField: string;
@@ -79,26 +151,63 @@ export interface HeaderValidationResult {
 
 // CSV Processing API endpoints
 export const csvProcessingAPI = {
-  // Upload CSV file
-  uploadCSV: async (
+  // Start a chunked upload, or resume the unfinished one for the same file
+  createUploadSession: async (
     datasetId: string,
-    file: File,
-  ): Promise<CSVUploadResult> => {
-    const formData = new FormData();
-    formData.append('file', file);
+    request: UploadSessionRequest,
+  ): Promise<UploadSession> => {
+    const response = await api.post(`/csv-processing/uploads/${datasetId}`, request);
+    return response.data;
+  },
 
-    const response = await api.post(
-      `/csv-processing/upload/${datasetId}`,
-      formData,
+  // Send one chunk of the file; the server acknowledges the chunks it has stored
+  uploadChunk: async (
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    options: { signal?: AbortSignal; onUploadProgress?: (loadedBytes: number) => void } = {},
+  ): Promise<Pick<UploadSession, 'acknowledgedChunks'>> => {
+    const response = await api.put(
+      `/csv-processing/uploads/${uploadId}/chunks/${index}`,
+      chunk,
       {
         headers: {
-          'Content-Type': 'multipart/form-data',
+          'Content-Type': 'application/octet-stream',
         },
+        signal: options.signal,
+        onUploadProgress: (event) => options.onUploadProgress?.(event.loaded),
       },
     );
     return response.data;
   },
 
+  // Assemble the uploaded chunks and import the file; column mappings, when
+  // given, are checked and stored before any row is imported
+  completeUpload: async (
+    uploadId: string,
+    columnMappings?: ColumnMapping[],
+  ): Promise<CSVUploadResult> => {
+    const response = await api.post(
+      `/csv-processing/uploads/${uploadId}/complete`,
+      columnMappings ? { columnMappings } : undefined,
+    );
+    return response.data;
+  },
+
+  // Compare an uploaded, not yet completed file with the dataset by primary key
+  previewUpsert: async (uploadId: string): Promise<UpsertPreviewResult> => {
+    const response = await api.post(`/csv-processing/uploads/${uploadId}/upsert-preview`);
+    return response.data;
+  },
+
+  // Validate an uploaded, not yet completed file against the dataset. Unlike
+  // validateHeaders every row is read, so primary key conflicts anywhere in the
+  // file are found.
+  validateUpload: async (uploadId: string): Promise<HeaderValidationResult> => {
+    const response = await api.post(`/csv-processing/uploads/${uploadId}/validate`);
+    return response.data;
+  },
+
   // Preview CSV content
   previewCSV: async (csvImportId: string): Promise<CSVPreviewResult> => {
     const response = await api.get(`/csv-processing/preview/${csvImportId}`);
@@ -141,13 +250,18 @@ export const csvProcessingAPI = {
     return response.data;
   },
 
-  // Validate CSV headers before upload
+  // Validate CSV headers before upload from the leading part of the file; the
+  // MD5 of the whole file is checked against files already in the dataset
   validateHeaders: async (
     datasetId: string,
-    file: File,
+    sample: File,
+    md5Checksum: string,
+    parseOptions?: CSVParseOptions,
   ): Promise<HeaderValidationResult> => {
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append('file', sample);
+    formData.append('md5Checksum', md5Checksum);
+    appendParseOptions(formData, parseOptions);
 
     const response = await api.post(
       `/csv-processing/validate-headers/${datasetId}`,
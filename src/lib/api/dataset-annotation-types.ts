@@ -15,12 +15,20 @@ export interface AnnotationField {
   newColumnId?: string; // Reference to NewColumn if isNewColumn is true
 }
 
+// Dataset-wide label, used for hotkeys and image regions
+export interface AnnotationLabel {
+  name: string;
+  color: string;
+  description?: string;
+  hotkey?: string;
+}
+
 export interface AnnotationConfig {
   _id: string;
   csvImportId: string; // Not used in dataset-level annotation but kept for compatibility
   userId?: string;
   annotationFields: AnnotationField[];
-  annotationLabels?: any[]; // Add annotation labels
+  annotationLabels?: AnnotationLabel[];
   rowAnnotations: any[];
   totalRows: number;
   completedRows: number;
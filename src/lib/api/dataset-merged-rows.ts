@@ -1,11 +1,22 @@
 import { jsonApi } from '../api';
 
+// Review state of a completed row; rejected rows go back to the annotator as not completed
+export type ReviewStatus = 'needs_review' | 'approved' | 'rejected';
+
 export interface DatasetMergedRow {
   rowIndex: number;
   data: Record<string, any>;
   processed: boolean;
   completed?: boolean;
   completedAt?: Date;
+  updatedAt?: string;
+  // Annotator the row is assigned to, when the dataset is split among users
+  assignedTo?: string;
+  reviewStatus?: ReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  // Final values chosen by an adjudicator on overlapping rows; they take precedence on export
+  adjudicated?: Record<string, string>;
 }
 
 export interface CSVInfo {
@@ -20,9 +31,34 @@ export interface RowWithCSVInfo {
   processed: boolean;
   completed?: boolean;
   completedAt?: Date;
+  updatedAt?: string;
+  assignedTo?: string;
+  // Labelled independently by several annotators; values are stored per annotator
+  isOverlap?: boolean;
+  reviewStatus?: ReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
   csvInfo?: CSVInfo | null;
 }
 
+// Row filter understood by the row count and lookup endpoints
+export interface RowQueryFilter {
+  status?: 'completed' | 'incomplete';
+  emptyField?: string;
+  search?: string;
+  searchFields?: string[];
+  // Only rows assigned to this user
+  assignedTo?: string;
+  // Only rows waiting for review, in review queue order
+  reviewQueue?: boolean;
+}
+
+// A row with its position in the paginated order of the same filter
+export interface LocatedRow {
+  row: RowWithCSVInfo;
+  position: number;
+}
+
 export interface DatasetRowsResponse {
   rows: RowWithCSVInfo[];
   totalRows: number;
@@ -87,9 +123,9 @@ export class DatasetMergedRowsAPI {
   /**
    * Get dataset merged rows data
    */
-  static async getDatasetData(datasetId: string): Promise<DatasetMergedRowsData> {
+  static async getDatasetData(datasetId: string, signal?: AbortSignal): Promise<DatasetMergedRowsData> {
     try {
-      const response = await jsonApi.get(`/dataset-merged-rows/dataset/${datasetId}/debug`);
+      const response = await jsonApi.get(`/dataset-merged-rows/dataset/${datasetId}/debug`, { signal });
       return response.data;
     } catch (error) {
       
@@ -111,6 +147,49 @@ export class DatasetMergedRowsAPI {
     return response.data;
   }
 
+  /**
+   * Count rows matching a workbench row filter
+   */
+  static async countFilteredRows(
+    datasetId: string,
+    filter: RowQueryFilter
+  ): Promise<{ matchingRows: number; completedRows: number }> {
+    const response = await jsonApi.get(
+      `/dataset-merged-rows/dataset/${datasetId}/rows/count`,
+      {
+        params: {
+          ...filter,
+          searchFields: filter.searchFields?.join(','),
+        },
+      }
+    );
+    return response.data;
+  }
+
+  /**
+   * Find the nearest row after (or before) a rowIndex that matches a row filter.
+   * Returns null when no row matches in that direction.
+   */
+  static async findAdjacentRow(
+    datasetId: string,
+    rowIndex: number,
+    direction: 'prev' | 'next',
+    filter: RowQueryFilter = {}
+  ): Promise<LocatedRow | null> {
+    const response = await jsonApi.get(
+      `/dataset-merged-rows/dataset/${datasetId}/rows/adjacent`,
+      {
+        params: {
+          ...filter,
+          searchFields: filter.searchFields?.join(','),
+          rowIndex,
+          direction,
+        },
+      }
+    );
+    return response.data;
+  }
+
   /**
    * Get specific row by index
    */
@@ -185,6 +264,23 @@ export class DatasetMergedRowsAPI {
     }
   }
 
+  /**
+   * Get saved annotation progress (last viewed row) without loading row data
+   */
+  static async getResumeProgress(datasetId: string): Promise<{
+    totalRows: number;
+    completedRows: number;
+    lastViewedRow: number;
+  }> {
+    const response = await jsonApi.get(`/field-selection/dataset/${datasetId}/progress`);
+    const progress = response.data || {};
+    return {
+      totalRows: progress.totalRows || 0,
+      completedRows: progress.completedRows || 0,
+      lastViewedRow: progress.lastViewedRow || 0,
+    };
+  }
+
   /**
    * Get detailed progress with row completion statuses
    */
@@ -0,0 +1,71 @@
+import { jsonApi } from '../api';
+import { ExportColumn } from '../dataset-export-helper';
+import { ExportRowFilter } from '../export-filter';
+import { JsonlTemplate } from '../jsonl-export';
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export type ExportPresetFormat = 'csv' | 'xlsx' | 'jsonl';
+
+export interface ExportPreset {
+  _id: string;
+  datasetId: string;
+  name: string;
+  format: ExportPresetFormat;
+  // Exported columns in order, with their (possibly renamed) headers; unused by JSONL
+  columns: ExportColumn[];
+  cleanHtml: boolean;
+  rowFilter: ExportRowFilter;
+  // Record template, only for JSONL presets
+  jsonlTemplate?: JsonlTemplate;
+  // Shared presets are listed for every collaborator on the dataset
+  isShared: boolean;
+  createdBy: string;
+  createdByEmail?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ExportPresetRequest = Pick<
+  ExportPreset,
+  'name' | 'format' | 'columns' | 'cleanHtml' | 'rowFilter' | 'jsonlTemplate' | 'isShared'
+>;
+
+// ============================================
+// EXPORT PRESETS API
+// ============================================
+
+export class ExportPresetsAPI {
+  /**
+   * Get the current user's presets and those shared on the dataset
+   */
+  static async getPresets(datasetId: string): Promise<ExportPreset[]> {
+    const response = await jsonApi.get(`/export-presets/dataset/${datasetId}`);
+    return response.data;
+  }
+
+  /**
+   * Save a new preset for a dataset
+   */
+  static async createPreset(datasetId: string, preset: ExportPresetRequest): Promise<ExportPreset> {
+    const response = await jsonApi.post(`/export-presets/dataset/${datasetId}`, preset);
+    return response.data;
+  }
+
+  /**
+   * Update a preset (its creator or an admin)
+   */
+  static async updatePreset(presetId: string, preset: ExportPresetRequest): Promise<ExportPreset> {
+    const response = await jsonApi.put(`/export-presets/${presetId}`, preset);
+    return response.data;
+  }
+
+  /**
+   * Delete a preset (its creator or an admin)
+   */
+  static async deletePreset(presetId: string): Promise<void> {
+    await jsonApi.delete(`/export-presets/${presetId}`);
+  }
+}
@@ -0,0 +1,195 @@
+import { jsonApi } from '../api';
+import { DatasetRowsResponse, RowWithCSVInfo } from './dataset-merged-rows';
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export type AssignmentStrategy = 'round-robin' | 'ranges' | 'metadata';
+
+// Inclusive range of row positions (1-based, as shown in the workbench)
+export interface AssignmentRange {
+  userId: string;
+  startRow: number;
+  endRow: number;
+}
+
+// Rows whose metadata field equals the value go to the user
+export interface MetadataAssignmentRule {
+  userId: string;
+  fieldName: string;
+  value: string;
+}
+
+// Share of rows labelled independently by several annotators, for agreement checks
+export interface AssignmentOverlap {
+  // Percentage of the assigned rows (0-100)
+  percentage: number;
+  annotatorsPerRow: number;
+}
+
+export interface AssignRowsRequest {
+  strategy: AssignmentStrategy;
+  // Assignees for round-robin
+  userIds?: string[];
+  ranges?: AssignmentRange[];
+  rules?: MetadataAssignmentRule[];
+  overlap?: AssignmentOverlap;
+  // Replace existing assignments instead of only assigning unassigned rows
+  replaceExisting?: boolean;
+}
+
+export interface AssigneeProgress {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  assignedRows: number;
+  completedRows: number;
+  lastActivityAt?: string;
+}
+
+export interface AssignmentSummary {
+  totalRows: number;
+  assignedRows: number;
+  unassignedRows: number;
+  // Rows assigned to more than one annotator
+  overlapRows: number;
+  assignees: AssigneeProgress[];
+}
+
+export interface MyAssignment {
+  // Whether the dataset's rows are split among annotators at all
+  hasAssignments: boolean;
+  assignedRows: number;
+  completedRows: number;
+}
+
+export interface AnnotatorInfo {
+  userId: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// One annotator's own values for an overlapping row
+export interface AnnotatorRowValues {
+  userId: string;
+  values: Record<string, string>;
+  completed: boolean;
+  updatedAt?: string;
+}
+
+export interface OverlapRow {
+  rowIndex: number;
+  // Source (metadata) columns of the row
+  data: Record<string, any>;
+  annotations: AnnotatorRowValues[];
+  // Final values set by an adjudicator, when the row has been adjudicated
+  adjudicated?: Record<string, string>;
+  adjudicatedBy?: string;
+  adjudicatedAt?: string;
+}
+
+export interface OverlapRowsResponse {
+  annotators: AnnotatorInfo[];
+  rows: OverlapRow[];
+}
+
+// ============================================
+// ROW ASSIGNMENTS API
+// ============================================
+
+export class RowAssignmentsAPI {
+  /**
+   * Split a dataset's rows among annotators
+   */
+  static async assignRows(
+    datasetId: string,
+    request: AssignRowsRequest
+  ): Promise<AssignmentSummary> {
+    const response = await jsonApi.post(`/row-assignments/dataset/${datasetId}`, request);
+    return response.data;
+  }
+
+  /**
+   * Get assignment counts and progress per assignee (admin)
+   */
+  static async getAssignmentSummary(datasetId: string): Promise<AssignmentSummary> {
+    const response = await jsonApi.get(`/row-assignments/dataset/${datasetId}/summary`);
+    return response.data;
+  }
+
+  /**
+   * Remove assignments, for one user or the whole dataset
+   */
+  static async clearAssignments(datasetId: string, userId?: string): Promise<AssignmentSummary> {
+    const response = await jsonApi.delete(`/row-assignments/dataset/${datasetId}`, {
+      params: userId ? { userId } : undefined,
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the current user's assignment counts for a dataset
+   */
+  static async getMyAssignment(datasetId: string): Promise<MyAssignment> {
+    const response = await jsonApi.get(`/row-assignments/dataset/${datasetId}/me`);
+    return response.data;
+  }
+
+  /**
+   * Get a page of the rows assigned to the current user. On overlapping rows
+   * the row data holds the user's own values, and saves only update those.
+   */
+  static async getMyRows(
+    datasetId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<DatasetRowsResponse> {
+    const response = await jsonApi.get(
+      `/row-assignments/dataset/${datasetId}/me/rows?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get one row of the current user's assignment by index, holding the user's own
+   * values like getMyRows; null when the row is not assigned to them
+   */
+  static async getMyRow(datasetId: string, rowIndex: number): Promise<RowWithCSVInfo | null> {
+    const response = await jsonApi.get(
+      `/row-assignments/dataset/${datasetId}/me/rows/${rowIndex}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Get every overlapping row with each annotator's values (admins and reviewers)
+   */
+  static async getOverlapRows(datasetId: string): Promise<OverlapRowsResponse> {
+    const response = await jsonApi.get(`/row-assignments/dataset/${datasetId}/overlap`);
+    return response.data;
+  }
+
+  /**
+   * Record the final values of an overlapping row (admins and reviewers).
+   * Adjudicated values replace the annotators' values on export.
+   */
+  static async adjudicateRow(
+    datasetId: string,
+    rowIndex: number,
+    values: Record<string, string>
+  ): Promise<OverlapRow> {
+    try {
+      const response = await jsonApi.post(
+        `/row-assignments/dataset/${datasetId}/row/${rowIndex}/adjudication`,
+        { values }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to adjudicate row:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { jsonApi } from '../api';
+import { PatchRowDataResponse } from './dataset-merged-rows';
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export type RowChangeSource =
+  | 'annotation'
+  | 'metadata'
+  | 'image'
+  | 'completion'
+  | 'restore'
+  | 'import';
+
+export interface RowChangeEvent {
+  _id: string;
+  datasetId: string;
+  rowIndex: number;
+  fieldName: string;
+  oldValue: any;
+  newValue: any;
+  userId: string;
+  user?: {
+    _id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  source?: RowChangeSource;
+  // Event this change restored, for restore events
+  restoredFromEventId?: string;
+  createdAt: string;
+}
+
+export interface RowHistoryResponse {
+  events: RowChangeEvent[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface RestoreRowValueResponse extends PatchRowDataResponse {
+  event: RowChangeEvent;
+}
+
+// ============================================
+// ROW HISTORY API
+// ============================================
+
+export class RowHistoryAPI {
+  /**
+   * Get change events for a row, newest first
+   */
+  static async getRowHistory(
+    datasetId: string,
+    rowIndex: number,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<RowHistoryResponse> {
+    const response = await jsonApi.get(
+      `/row-history/dataset/${datasetId}/row/${rowIndex}?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Restore the value a field had before a change event (admin only).
+   * The restore itself is recorded as a new change event.
+   */
+  static async restoreValue(
+    datasetId: string,
+    rowIndex: number,
+    eventId: string
+  ): Promise<RestoreRowValueResponse> {
+    try {
+      const response = await jsonApi.post(
+        `/row-history/dataset/${datasetId}/row/${rowIndex}/restore`,
+        { eventId }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to restore row value:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { jsonApi } from '../api';
+import { DatasetRowsResponse, RowWithCSVInfo } from './dataset-merged-rows';
+
+// ============================================
+// INTERFACES
+// ============================================
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+export interface ReviewComment {
+  _id: string;
+  datasetId: string;
+  rowIndex: number;
+  fieldName: string;
+  text: string;
+  userId: string;
+  user?: {
+    _id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface ReviewQueueCounts {
+  needsReview: number;
+  approved: number;
+  rejected: number;
+}
+
+export interface SubmitReviewResponse {
+  row: RowWithCSVInfo;
+}
+
+// ============================================
+// ROW REVIEWS API
+// ============================================
+
+export class RowReviewsAPI {
+  /**
+   * Get a page of completed rows waiting for review
+   */
+  static async getReviewQueue(
+    datasetId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<DatasetRowsResponse> {
+    const response = await jsonApi.get(
+      `/row-reviews/dataset/${datasetId}/queue?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Count rows per review state
+   */
+  static async getReviewCounts(datasetId: string): Promise<ReviewQueueCounts> {
+    const response = await jsonApi.get(`/row-reviews/dataset/${datasetId}/counts`);
+    return response.data;
+  }
+
+  /**
+   * Approve or reject a row (reviewers and admins only).
+   * Rejecting returns the row to the annotator as not completed.
+   */
+  static async submitReview(
+    datasetId: string,
+    rowIndex: number,
+    decision: ReviewDecision
+  ): Promise<SubmitReviewResponse> {
+    try {
+      const response = await jsonApi.post(
+        `/row-reviews/dataset/${datasetId}/row/${rowIndex}/decision`,
+        { decision }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to submit review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get review comments of a row, oldest first
+   */
+  static async getComments(datasetId: string, rowIndex: number): Promise<ReviewComment[]> {
+    const response = await jsonApi.get(
+      `/row-reviews/dataset/${datasetId}/row/${rowIndex}/comments`
+    );
+    return response.data;
+  }
+
+  /**
+   * Comment on a field of a row
+   */
+  static async addComment(
+    datasetId: string,
+    rowIndex: number,
+    fieldName: string,
+    text: string
+  ): Promise<ReviewComment> {
+    const response = await jsonApi.post(
+      `/row-reviews/dataset/${datasetId}/row/${rowIndex}/comments`,
+      { fieldName, text }
+    );
+    return response.data;
+  }
+
+  static async deleteComment(datasetId: string, rowIndex: number, commentId: string): Promise<void> {
+    await jsonApi.delete(
+      `/row-reviews/dataset/${datasetId}/row/${rowIndex}/comments/${commentId}`
+    );
+  }
+}
@@ -2,12 +2,20 @@ import axios from 'axios';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+export type UserRole = 'admin' | 'reviewer' | 'user';
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  user: 'User',
+  reviewer: 'Reviewer',
+  admin: 'Admin',
+};
+
 export interface UserResponse {
   _id: string;
   email: string;
   firstName: string;
   lastName: string;
-  role: 'admin' | 'user';
+  role: UserRole;
   isActive: boolean;
   authProvider: 'local' | 'google';
   createdAt: string;
@@ -25,4 +33,19 @@ export const usersAPI = {
     });
     return response.data;
   },
+
+  // Change a user's role (Admin only)
+  async updateRole(userId: string, role: UserRole): Promise<UserResponse> {
+    const token = localStorage.getItem('accessToken');
+    const response = await axios.patch(
+      `${API_BASE_URL}/auth/users/${userId}/role`,
+      { role },
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+    return response.data;
+  },
 };
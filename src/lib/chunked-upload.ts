@@ -0,0 +1,292 @@
+/**
+ * Chunked Upload
+ * Resumable upload of large CSV and Excel files. The file is sent in chunks to
+ * an upload session the server keys by the file's MD5, so an upload that was
+ * paused, dropped or cut off by a page reload continues from the last chunk
+ * the server acknowledged. Unfinished uploads are remembered per dataset so
+ * the upload page can offer to resume them. Before uploading, headers are
+ * validated from a small leading sample of the file and its MD5; send() lets
+ * the whole uploaded file be checked before start() imports it.
+ */
+
+import axios from 'axios';
+import {
+  ColumnMapping,
+  csvProcessingAPI,
+  CSVParseOptions,
+  CSVUploadResult,
+  ImportMode,
+} from './api/csv-processing';
+import { Md5 } from './md5';
+
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Bytes sent for header validation; enough for the header and the first rows
+export const HEADER_SAMPLE_SIZE = 256 * 1024;
+
+const STORAGE_KEY_PREFIX = 'pendingCsvUploads:';
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export type UploadPhase = 'hashing' | 'uploading' | 'processing';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  // Bytes hashed or acknowledged by the server so far
+  loadedBytes: number;
+  totalBytes: number;
+}
+
+// An upload that has not been completed, kept in localStorage
+export interface PendingUpload {
+  md5Checksum: string;
+  fileName: string;
+  fileSize: number;
+  acknowledgedBytes: number;
+  updatedAt: string;
+}
+
+export interface ChunkedUploadOptions {
+  parseOptions?: CSVParseOptions;
+  mode?: ImportMode;
+  // MD5 already known for the file, e.g. from header validation; computed otherwise
+  md5Checksum?: string;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+export class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused');
+    this.name = 'UploadPausedError';
+  }
+}
+
+const isRetryableError = (error: any): boolean => {
+  const status = error?.response?.status;
+  // No response means the request never reached the server (offline, timeout)
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const storageKey = (datasetId: string) => `${STORAGE_KEY_PREFIX}${datasetId}`;
+
+/**
+ * Unfinished uploads of a dataset, most recent first
+ */
+export function getPendingUploads(datasetId: string): PendingUpload[] {
+  try {
+    const uploads: PendingUpload[] = JSON.parse(localStorage.getItem(storageKey(datasetId)) || '[]');
+    return uploads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+}
+
+function savePendingUpload(datasetId: string, upload: Omit<PendingUpload, 'updatedAt'>) {
+  const others = getPendingUploads(datasetId).filter((item) => item.md5Checksum !== upload.md5Checksum);
+  localStorage.setItem(
+    storageKey(datasetId),
+    JSON.stringify([{ ...upload, updatedAt: new Date().toISOString() }, ...others])
+  );
+}
+
+/**
+ * Forget an unfinished upload, once completed or when the user discards it
+ */
+export function removePendingUpload(datasetId: string, md5Checksum: string) {
+  const remaining = getPendingUploads(datasetId).filter((item) => item.md5Checksum !== md5Checksum);
+  if (remaining.length > 0) {
+    localStorage.setItem(storageKey(datasetId), JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(storageKey(datasetId));
+  }
+}
+
+/**
+ * Pending upload the file is likely to continue, matched on name and size
+ * before the file has been hashed
+ */
+export function findPendingUpload(uploads: PendingUpload[], file: File): PendingUpload | null {
+  return uploads.find((upload) => upload.fileName === file.name && upload.fileSize === file.size) ?? null;
+}
+
+/**
+ * MD5 of a file, read chunk by chunk so large files are never held in memory
+ */
+export async function computeFileMd5(
+  file: Blob,
+  options: { signal?: AbortSignal; onProgress?: (loadedBytes: number) => void } = {}
+): Promise<string> {
+  const md5 = new Md5();
+  for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_SIZE) {
+    if (options.signal?.aborted) throw new UploadPausedError();
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+    md5.update(new Uint8Array(await chunk.arrayBuffer()));
+    options.onProgress?.(offset + chunk.size);
+  }
+  return md5.digest();
+}
+
+/**
+ * Leading part of a file for header validation, cut after the last complete
+ * line so the server does not read a truncated row. The whole file when it is
+ * smaller than the sample.
+ */
+export async function readFileSample(file: File, encoding: string = 'utf-8'): Promise<File> {
+  if (file.size <= HEADER_SAMPLE_SIZE) return file;
+
+  const bytes = new Uint8Array(await file.slice(0, HEADER_SAMPLE_SIZE).arrayBuffer());
+  let end = bytes.length;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    if (bytes[i] !== 0x0a) continue;
+    // UTF-16 line feeds are two bytes, aligned to the code unit
+    if (encoding === 'utf-16le') {
+      if (i % 2 === 0 && bytes[i + 1] === 0) {
+        end = i + 2;
+        break;
+      }
+    } else if (encoding === 'utf-16be') {
+      if (i % 2 === 1 && bytes[i - 1] === 0) {
+        end = i + 1;
+        break;
+      }
+    } else {
+      end = i + 1;
+      break;
+    }
+  }
+  return new File([bytes.slice(0, end)], file.name, { type: file.type });
+}
+
+/**
+ * One file's upload. start() runs until the file is imported or the upload is
+ * paused; calling it again after a pause resumes from the acknowledged chunks.
+ * send() stops once every chunk is acknowledged, so the uploaded file can be
+ * previewed before start() imports it.
+ */
+export class ChunkedUpload {
+  private readonly datasetId: string;
+  private readonly file: File;
+  private readonly options: ChunkedUploadOptions;
+  private md5Checksum: string | null;
+  private controller: AbortController | null = null;
+
+  constructor(datasetId: string, file: File, options: ChunkedUploadOptions = {}) {
+    this.datasetId = datasetId;
+    this.file = file;
+    this.options = options;
+    this.md5Checksum = options.md5Checksum ?? null;
+  }
+
+  /**
+   * Upload the remaining chunks and import the file, with its column mapping if any
+   */
+  async start(columnMappings?: ColumnMapping[]): Promise<CSVUploadResult> {
+    return this.runExclusive(async (signal) => {
+      const { uploadId, md5Checksum } = await this.sendChunks(signal);
+      this.options.onProgress?.({ phase: 'processing', loadedBytes: this.file.size, totalBytes: this.file.size });
+      const result = await csvProcessingAPI.completeUpload(uploadId, columnMappings);
+      removePendingUpload(this.datasetId, md5Checksum);
+      return result;
+    });
+  }
+
+  /**
+   * Upload every chunk without importing the file; resolves to the upload id
+   */
+  async send(): Promise<string> {
+    return this.runExclusive(async (signal) => (await this.sendChunks(signal)).uploadId);
+  }
+
+  private async runExclusive<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (this.controller) throw new Error('Upload is already running');
+    const controller = new AbortController();
+    this.controller = controller;
+
+    try {
+      return await task(controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted || axios.isCancel(error)) {
+        throw new UploadPausedError();
+      }
+      throw error;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Stop sending chunks; the chunk in flight is sent again on resume
+   */
+  pause() {
+    this.controller?.abort();
+  }
+
+  private async sendChunks(signal: AbortSignal): Promise<{ uploadId: string; md5Checksum: string }> {
+    const { onProgress } = this.options;
+    const totalBytes = this.file.size;
+
+    if (!this.md5Checksum) {
+      this.md5Checksum = await computeFileMd5(this.file, {
+        signal,
+        onProgress: (loadedBytes) => onProgress?.({ phase: 'hashing', loadedBytes, totalBytes }),
+      });
+    }
+    const md5Checksum = this.md5Checksum;
+
+    const session = await csvProcessingAPI.createUploadSession(this.datasetId, {
+      md5Checksum,
+      fileName: this.file.name,
+      fileSize: totalBytes,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      parseOptions: this.options.parseOptions,
+      mode: this.options.mode,
+    });
+    // The server may keep the chunk size of an earlier session for this file
+    const { uploadId, chunkSize, totalChunks } = session;
+    const acknowledgedBytes = (chunks: number) => Math.min(chunks * chunkSize, totalBytes);
+    const remember = (chunks: number) =>
+      savePendingUpload(this.datasetId, {
+        md5Checksum,
+        fileName: this.file.name,
+        fileSize: totalBytes,
+        acknowledgedBytes: acknowledgedBytes(chunks),
+      });
+
+    let acknowledged = session.acknowledgedChunks;
+    remember(acknowledged);
+    onProgress?.({ phase: 'uploading', loadedBytes: acknowledgedBytes(acknowledged), totalBytes });
+
+    while (acknowledged < totalChunks) {
+      const index = acknowledged;
+      const chunk = this.file.slice(index * chunkSize, (index + 1) * chunkSize);
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          ({ acknowledgedChunks: acknowledged } = await csvProcessingAPI.uploadChunk(uploadId, index, chunk, {
+            signal,
+            onUploadProgress: (loadedBytes) =>
+              onProgress?.({
+                phase: 'uploading',
+                loadedBytes: acknowledgedBytes(index) + Math.min(loadedBytes, chunk.size),
+                totalBytes,
+              }),
+          }));
+          if (acknowledged <= index) {
+            throw new Error(`Chunk ${index + 1} of ${totalChunks} was not acknowledged`);
+          }
+          break;
+        } catch (error) {
+          if (signal.aborted || attempt >= MAX_CHUNK_ATTEMPTS || !isRetryableError(error)) throw error;
+          await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+
+      remember(acknowledged);
+      onProgress?.({ phase: 'uploading', loadedBytes: acknowledgedBytes(acknowledged), totalBytes });
+    }
+
+    return { uploadId, md5Checksum };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Column Mapping
+ * Matches the headers of an incoming file to the headers a dataset expects,
+ * suggesting fuzzy matches, and builds the column mappings sent with the import.
+ */
+
+import { ColumnMapping, HeaderValidationResult } from './api/csv-processing';
+
+// Source of one expected column: an incoming header, or a default value for every row
+export type ColumnSource =
+  | { type: 'column'; header: string; suggested: boolean }
+  | { type: 'default'; value: string };
+
+export interface ColumnMappingDraft {
+  // Keyed by expected header
+  sources: Record<string, ColumnSource | null>;
+  // Incoming headers left out of the import
+  ignoredHeaders: string[];
+}
+
+// Header differences a mapping can fix; duplicate files and key conflicts cannot be mapped away
+const MAPPABLE_ERRORS = ['MISSING_COLUMN', 'EXTRA_COLUMN', 'COLUMN_NAME_MISMATCH', 'COLUMN_ORDER_MISMATCH'];
+
+// Lowest similarity offered as a suggestion
+const SUGGESTION_THRESHOLD = 0.6;
+
+export function isMappableValidation(validation: HeaderValidationResult): boolean {
+  return (
+    !validation.isValid &&
+    !validation.isDuplicate &&
+    validation.errors.length > 0 &&
+    validation.errors.every((error) => MAPPABLE_ERRORS.includes(error.errorType))
+  );
+}
+
+// Case, spacing and punctuation do not matter: "Patient ID" matches "patient_id"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two headers from 0 to 1; one containing the other scores high
+ */
+export function headerSimilarity(a: string, b: string): number {
+  const left = normalizeHeader(a);
+  const right = normalizeHeader(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) {
+    return 0.7 + 0.3 * (Math.min(left.length, right.length) / Math.max(left.length, right.length));
+  }
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Suggested mapping: exact names first, then the most similar pairs above the
+ * threshold, each incoming header used once. Unmatched incoming headers are ignored.
+ */
+export function suggestColumnMapping(expectedHeaders: string[], incomingHeaders: string[]): ColumnMappingDraft {
+  const sources: Record<string, ColumnSource | null> = {};
+  const used = new Set<string>();
+
+  expectedHeaders.forEach((expected) => {
+    if (incomingHeaders.includes(expected)) {
+      sources[expected] = { type: 'column', header: expected, suggested: false };
+      used.add(expected);
+    } else {
+      sources[expected] = null;
+    }
+  });
+
+  const candidates = expectedHeaders
+    .filter((expected) => !sources[expected])
+    .flatMap((expected) =>
+      incomingHeaders
+        .filter((incoming) => !used.has(incoming))
+        .map((incoming) => ({ expected, incoming, score: headerSimilarity(expected, incoming) }))
+    )
+    .filter((candidate) => candidate.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  candidates.forEach(({ expected, incoming }) => {
+    if (sources[expected] || used.has(incoming)) return;
+    sources[expected] = { type: 'column', header: incoming, suggested: true };
+    used.add(incoming);
+  });
+
+  return { sources, ignoredHeaders: incomingHeaders.filter((incoming) => !used.has(incoming)) };
+}
+
+/**
+ * Incoming headers neither mapped nor ignored; the mapping is incomplete while any remain
+ */
+export function getUnhandledHeaders(draft: ColumnMappingDraft, incomingHeaders: string[]): string[] {
+  const mapped = new Set(
+    Object.values(draft.sources).flatMap((source) => (source?.type === 'column' ? [source.header] : []))
+  );
+  return incomingHeaders.filter((header) => !mapped.has(header) && !draft.ignoredHeaders.includes(header));
+}
+
+export function isMappingComplete(draft: ColumnMappingDraft, incomingHeaders: string[]): boolean {
+  return (
+    Object.values(draft.sources).every((source) => source !== null) &&
+    getUnhandledHeaders(draft, incomingHeaders).length === 0
+  );
+}
+
+/**
+ * Column mappings sent with csvProcessingAPI.completeUpload. Columns filled with
+ * a default have no CSV column name; ignored headers are left out.
+ */
+export function buildColumnMappings(draft: ColumnMappingDraft): ColumnMapping[] {
+  return Object.entries(draft.sources).flatMap(([expected, source]) => {
+    if (!source) return [];
+    return [
+      source.type === 'column'
+        ? { csvColumnName: source.header, projectMetadataField: expected, dataType: 'string', isRequired: false }
+        : {
+            csvColumnName: '',
+            projectMetadataField: expected,
+            dataType: 'string',
+            isRequired: false,
+            defaultValue: source.value,
+          },
+    ];
+  });
+}
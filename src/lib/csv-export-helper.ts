@@ -96,6 +96,20 @@ export function formatCsvValue(value: any, cleanHtml: boolean = true): string {
   return stringValue;
 }
 
+/**
+ * Format values as one CSV line
+ */
+export function formatCsvValues(values: any[], cleanHtml: boolean = true): string {
+  return values.map((value) => formatCsvValue(value, cleanHtml)).join(',');
+}
+
+/**
+ * Format one row as a CSV line in header order
+ */
+export function formatCsvRow(headers: string[], row: Record<string, any>, cleanHtml: boolean = true): string {
+  return formatCsvValues(headers.map((header) => row[header]), cleanHtml);
+}
+
 /**
  * Convert export data to CSV content
  */
@@ -112,16 +126,29 @@ export function generateCsvContent(
 
   const csvContent = [
     headers.join(','),
-    ...rows.map((row) =>
-      headers
-        .map((header) => formatCsvValue(row[header], cleanHtml))
-        .join(',')
-    ),
+    ...rows.map((row) => formatCsvRow(headers, row, cleanHtml)),
   ].join('\n');
 
   return csvContent;
 }
 
+/**
+ * Save a file through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Download CSV file
  */
@@ -144,17 +171,7 @@ export function downloadCsv(
     
     // Create and download CSV file
     const blob = new Blob([csvWithBOM], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
 
     if (showSuccess && onSuccess) {
       const lines = csvContent.split('\n');
@@ -0,0 +1,280 @@
+/**
+ * CSV Parser
+ * Streaming RFC 4180 parser: quoted fields may hold delimiters, line breaks and
+ * doubled quotes. Accepts CRLF, LF or CR line endings, skips a leading BOM and
+ * supports other delimiters such as ';' and tab. Files are decoded with a
+ * sniffed or chosen encoding, so Excel's Windows-1252 and UTF-16 exports read
+ * correctly.
+ */
+
+export type CsvRecord = string[];
+
+export interface CsvParserOptions {
+  // Field separator, a single character (default ',')
+  delimiter?: string;
+}
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export interface CsvFileOptions extends CsvParserOptions {
+  encoding?: CsvEncoding;
+  // Without a header row every record is data and columns are numbered
+  hasHeader?: boolean;
+}
+
+export interface CsvFileSample {
+  header: CsvRecord;
+  // First data rows, up to the requested sample size
+  rows: CsvRecord[];
+  // Data rows in the file, not counting the header
+  totalRows: number;
+  // Settings the file was read with, detected unless given
+  delimiter: string;
+  encoding: CsvEncoding;
+  hasHeader: boolean;
+}
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+export const CSV_DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+};
+
+// Bytes read to sniff the encoding
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
+const QUOTE = '"';
+const BOM = '\uFEFF';
+
+/**
+ * Incremental parser: push text chunks as they are read and collect the
+ * records they complete, then flush once the input ends. Blank lines are not
+ * records; a line holding only a quoted empty field ("") is.
+ */
+export class CsvParser {
+  private readonly delimiter: string;
+  private field = '';
+  private record: CsvRecord = [];
+  private inQuotes = false;
+  // The current record has a quoted field, so it is not a blank line even when empty
+  private recordQuoted = false;
+  // A quote inside a quoted field: either the closing quote or the first of a doubled pair
+  private quotePending = false;
+  // CR seen at the end of a chunk; a following LF belongs to the same line break
+  private skipLineFeed = false;
+  private atStart = true;
+
+  constructor(options: CsvParserOptions = {}) {
+    this.delimiter = options.delimiter || ',';
+    if (this.delimiter.length !== 1 || this.delimiter === QUOTE || /[\r\n]/.test(this.delimiter)) {
+      throw new Error(`Invalid CSV delimiter: ${JSON.stringify(this.delimiter)}`);
+    }
+  }
+
+  /**
+   * Parse a chunk of text and return the records it completed
+   */
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let start = 0;
+    if (this.atStart && chunk.length > 0) {
+      this.atStart = false;
+      if (chunk[0] === BOM) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === QUOTE) {
+          this.field += QUOTE;
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === QUOTE) {
+          this.quotePending = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === QUOTE && this.field === '') {
+        this.inQuotes = true;
+        this.recordQuoted = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.skipLineFeed = char === '\r';
+        const record = this.endRecord();
+        if (record) records.push(record);
+      } else {
+        // Stray quotes inside unquoted fields are kept as text
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Finish the input; returns the last record when the text did not end with a line break
+   */
+  flush(): CsvRecord[] {
+    this.quotePending = false;
+    this.inQuotes = false;
+    this.skipLineFeed = false;
+    const record = this.endRecord();
+    return record ? [record] : [];
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+  }
+
+  /**
+   * Close the current record; null for a blank line
+   */
+  private endRecord(): CsvRecord | null {
+    this.endField();
+    const record = this.record;
+    const blank = record.length === 1 && record[0] === '' && !this.recordQuoted;
+    this.record = [];
+    this.recordQuoted = false;
+    return blank ? null : record;
+  }
+}
+
+/**
+ * Parse CSV text into records, leaving out blank lines
+ */
+export function parseCsv(text: string, options: CsvParserOptions = {}): CsvRecord[] {
+  const parser = new CsvParser(options);
+  return [...parser.push(text), ...parser.flush()];
+}
+
+/**
+ * Delimiter that splits the sample's first lines into the most, equally sized,
+ * records. Counting happens outside quotes, so quoted commas do not count.
+ */
+export function detectDelimiter(sample: string): string {
+  let best = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const records = parseCsv(sample, { delimiter }).slice(0, 20);
+    // The sample may cut the last record short
+    const complete = records.length > 1 ? records.slice(0, -1) : records;
+    const width = complete[0]?.length ?? 0;
+    if (width < 2) return;
+    const consistent = complete.filter((record) => record.length === width).length;
+    const score = width * (consistent / complete.length);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Encoding of the leading bytes of a file: a byte order mark decides, then
+ * UTF-16 without a BOM shows as zero bytes in every other position, and text
+ * that is not valid UTF-8 is taken to be Windows-1252 (Excel on Windows)
+ */
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const pairs = Math.floor(Math.min(bytes.length, 4096) / 2);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs; i++) {
+    if (bytes[i * 2] === 0) evenZeros++;
+    if (bytes[i * 2 + 1] === 0) oddZeros++;
+  }
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+
+  try {
+    // stream: true leaves a multi-byte character cut off at the end of the sample alone
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Header, first rows and row count of a CSV file, read as a stream so large
+ * files are never held in memory as a whole. Encoding and delimiter are
+ * detected unless given.
+ */
+export async function sampleCsvFile(
+  file: Blob,
+  sampleSize: number = 5,
+  options: CsvFileOptions = {}
+): Promise<CsvFileSample> {
+  const encoding = options.encoding
+    ?? detectEncoding(new Uint8Array(await file.slice(0, ENCODING_SAMPLE_SIZE).arrayBuffer()));
+  const hasHeader = options.hasHeader ?? true;
+  const reader = file.stream().pipeThrough(new TextDecoderStream(encoding)).getReader();
+  let header: CsvRecord | null = hasHeader ? null : [];
+  const rows: CsvRecord[] = [];
+  let totalRows = 0;
+  let parser: CsvParser | null = options.delimiter ? new CsvParser({ delimiter: options.delimiter }) : null;
+  let delimiter = options.delimiter || ',';
+
+  const collect = (records: CsvRecord[]) => {
+    records.forEach((record) => {
+      if (!header) {
+        header = record;
+        return;
+      }
+      totalRows++;
+      if (rows.length < sampleSize) rows.push(record);
+    });
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!parser) {
+      // The first chunk is enough to recognise the delimiter
+      delimiter = detectDelimiter(value);
+      parser = new CsvParser({ delimiter });
+    }
+    collect(parser.push(value));
+  }
+  collect(parser?.flush() ?? []);
+
+  if (!hasHeader) {
+    const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    header = Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  }
+
+  return { header: header ?? [], rows, totalRows, delimiter, encoding, hasHeader };
+}
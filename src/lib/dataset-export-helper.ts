@@ -3,18 +3,47 @@
  * Handles dataset-level CSV exports with proper data validation and debugging
  */
 
-import { ExportData, generateCsvContent, downloadCsv } from './csv-export-helper';
-import { DatasetMergedRowsData } from './api/dataset-merged-rows';
+import { formatCsvValues } from './csv-export-helper';
+import { CSV_FILE_TYPE, createExportStream, ExportFileTarget, ExportFileType } from './export-stream';
+import { ExportRowFilter, filterExportRows } from './export-filter';
+import { DatasetMergedRow, DatasetMergedRowsAPI, DatasetMergedRowsData } from './api/dataset-merged-rows';
 import { datasetsAPI } from './api/datasets';
-import { AnnotationsAPI } from './api/annotations';
+import { AnnotationResponse, AnnotationsAPI } from './api/annotations';
+import { NewColumnRef } from './field-config';
+
+export type ExportPhase = 'annotations' | 'images' | 'rows';
+
+export interface ExportProgress {
+  phase: ExportPhase;
+  completed: number;
+  total: number;
+}
 
 export interface DatasetExportOptions {
   cleanHtml?: boolean;
   showSuccess?: boolean;
   onSuccess?: (message: string) => void;
   onError?: (error: string) => void;
+  onProgress?: (progress: ExportProgress) => void;
+  // Only rows matching the filter are exported
+  rowFilter?: ExportRowFilter;
+  // Columns in order with their headers; defaults to the configured fields
+  columns?: ExportColumn[];
+  // Aborting stops the export without downloading or reporting an error
+  signal?: AbortSignal;
+  // File picked when the export was started (see pickExportFile); downloaded when omitted
+  fileTarget?: ExportFileTarget;
+}
+
+// A page of rows read by an export, with the number of rows it reads in total
+export interface ExportRowPage {
+  rows: DatasetMergedRow[];
+  totalRows: number;
 }
 
+// Rows an export reads, page by page
+export type ExportRowSource = AsyncIterable<ExportRowPage>;
+
 export interface AnnotationField {
   csvColumnName: string;
   fieldName: string;
@@ -25,177 +54,307 @@ export interface AnnotationField {
 
 export interface AnnotationConfig {
   annotationFields: AnnotationField[];
+  // Definitions of the new columns, giving typed exports their column types
+  newColumns?: NewColumnRef[];
+}
+
+// One exported column; presets reorder and rename these
+export interface ExportColumn {
+  // Row data key (CSV column name, or field name for annotated columns);
+  // the image field name for image metadata columns
+  key: string;
+  header: string;
+  kind: 'value' | 'imageMetadata';
+}
+
+// Rows between progress reports; each report also yields to the UI
+const PROGRESS_INTERVAL = 250;
+
+// Rows fetched per request when streaming dataset rows
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Thrown inside an export when its signal is aborted; exports end quietly on it
+ */
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ExportCancelledError();
+  }
+}
+
+/**
+ * Report row progress and yield, so the progress bar repaints and cancel can land
+ */
+async function reportRowProgress(options: DatasetExportOptions, completed: number, total: number): Promise<void> {
+  throwIfCancelled(options.signal);
+  options.onProgress?.({ phase: 'rows', completed, total });
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Dataset rows read page by page from the paginated rows endpoint, so an export
+ * never needs the whole dataset in memory
+ */
+export async function* streamDatasetRows(datasetId: string, signal?: AbortSignal): ExportRowSource {
+  for (let page = 1; ; page++) {
+    throwIfCancelled(signal);
+    const response = await DatasetMergedRowsAPI.getDatasetRows(datasetId, page, EXPORT_PAGE_SIZE);
+    yield { rows: response.rows || [], totalRows: response.totalRows };
+    if (!response.hasMore || !response.rows?.length) return;
+  }
+}
+
+/**
+ * All rows of a source that match the export filter, for formats built in memory
+ */
+export async function collectExportRows(
+  source: ExportRowSource,
+  options: DatasetExportOptions
+): Promise<DatasetMergedRow[]> {
+  const rows: DatasetMergedRow[] = [];
+  let read = 0;
+  for await (const page of source) {
+    read += page.rows.length;
+    rows.push(...filterExportRows(page.rows, options.rowFilter));
+    await reportRowProgress(options, read, page.totalRows);
+  }
+  return rows;
+}
+
+export const annotationKey = (rowIndex: number, fieldName: string) => `${rowIndex}:${fieldName}`;
+
+/**
+ * Fetch every image annotation of the dataset in one request, indexed by row and field
+ */
+export async function loadAnnotationIndex(
+  datasetId: string,
+  options: DatasetExportOptions
+): Promise<Map<string, AnnotationResponse>> {
+  options.onProgress?.({ phase: 'annotations', completed: 0, total: 1 });
+  const annotations = await AnnotationsAPI.getDatasetAnnotations(datasetId, options.signal);
+  options.onProgress?.({ phase: 'annotations', completed: 1, total: 1 });
+
+  const index = new Map<string, AnnotationResponse>();
+  annotations.forEach((annotation) => {
+    index.set(annotationKey(annotation.rowIndex, annotation.fieldName), annotation);
+  });
+  return index;
 }
 
 /**
- * Fetch image metadata from annotations API and format as structured string
+ * Format image metadata of one annotation as a structured string
  * Returns format: "url1,caption1\nurl2,caption2\nurl3,caption3"
  * Only exports images where isSelected === true
  * Each image is on a new line with format: url,caption
  */
-async function getImageMetadataFormatted(
+function formatImageMetadata(imageAnnotation: AnnotationResponse | undefined): string {
+  if (!imageAnnotation || !imageAnnotation.images || imageAnnotation.images.length === 0) {
+    return '';
+  }
+
+  // Filter only selected images and sort by order
+  const selectedImages = imageAnnotation.images
+    .filter(img => img.isSelected)
+    .sort((a, b) => a.order - b.order);
+
+  // Format each image as: "url,caption" and join with newline
+  const formattedParts = selectedImages.map((img) => [
+    img.url || '',
+    (img.caption || '').replace(/,/g, '\\,').replace(/\n/g, '\\n') // Escape commas and newlines in captions
+  ].join(','));
+
+  return formattedParts.join('\n');
+}
+
+/**
+ * Columns of the selected-columns export: configured fields in order, with
+ * image metadata columns at the end
+ */
+export function getSelectedExportColumns(annotationConfig: AnnotationConfig | null): ExportColumn[] {
+  const columns: ExportColumn[] = [];
+  const metadataColumns: ExportColumn[] = [];
+
+  (annotationConfig?.annotationFields || []).forEach((field) => {
+    if (field.fieldType === 'image') {
+      // Original image column unchanged, annotation data in a separate column
+      const originalColumnName = field.csvColumnName || field.fieldName;
+      columns.push({ key: originalColumnName, header: originalColumnName, kind: 'value' });
+      metadataColumns.push({ key: field.fieldName, header: `${field.fieldName}_metadata`, kind: 'imageMetadata' });
+    } else if (!field.isAnnotationField && !field.isNewColumn) {
+      columns.push({ key: field.csvColumnName, header: field.csvColumnName, kind: 'value' });
+    } else {
+      columns.push({ key: field.fieldName, header: field.fieldName, kind: 'value' });
+    }
+  });
+
+  return [...columns, ...metadataColumns];
+}
+
+/**
+ * Value of one export column; an adjudicated value wins over the annotator's
+ */
+export function readExportValue(
+  row: DatasetMergedRow,
+  column: ExportColumn,
+  annotationIndex: Map<string, AnnotationResponse>
+): any {
+  if (column.kind === 'imageMetadata') {
+    return formatImageMetadata(annotationIndex.get(annotationKey(row.rowIndex, column.key)));
+  }
+  if (row.adjudicated && row.adjudicated.hasOwnProperty(column.key)) {
+    return row.adjudicated[column.key] || '';
+  }
+  if (row.data && row.data.hasOwnProperty(column.key)) {
+    return row.data[column.key] || '';
+  }
+  return '';
+}
+
+/**
+ * Stream a header and one chunk per row to the export file, reading rows page by
+ * page and reporting progress between batches. Rows outside the export filter or
+ * mapped to null are left out. The file is discarded if the export fails or is
+ * cancelled. Returns the number of rows written.
+ */
+export async function writeExportFile(
+  fileName: string,
+  fileType: ExportFileType,
+  header: string,
+  source: ExportRowSource,
+  toChunk: (row: DatasetMergedRow) => string | null,
+  options: DatasetExportOptions
+): Promise<number> {
+  const stream = await createExportStream(fileName, fileType, options.fileTarget);
+  const writer = stream.getWriter();
+  let written = 0;
+  let read = 0;
+  try {
+    if (header) {
+      await writer.write(header);
+    }
+    for await (const page of source) {
+      for (let start = 0; start < page.rows.length; start += PROGRESS_INTERVAL) {
+        await reportRowProgress(options, read, page.totalRows);
+        const batch = page.rows.slice(start, start + PROGRESS_INTERVAL);
+        const chunks = filterExportRows(batch, options.rowFilter)
+          .map(toChunk)
+          .filter((chunk): chunk is string => chunk !== null);
+        written += chunks.length;
+        read += batch.length;
+        await writer.write(chunks.join(''));
+      }
+      await reportRowProgress(options, read, page.totalRows);
+    }
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error).catch(() => {});
+    throw error;
+  }
+  return written;
+}
+
+/**
+ * CSV with a UTF-8 BOM (for Excel) and the header line, one line per row
+ */
+function writeCsvExport(
+  fileName: string,
+  headers: string[],
+  source: ExportRowSource,
+  toExportValues: (row: DatasetMergedRow) => any[],
+  options: DatasetExportOptions
+): Promise<number> {
+  const cleanHtml = options.cleanHtml ?? true;
+  return writeExportFile(
+    fileName,
+    CSV_FILE_TYPE,
+    '\uFEFF' + formatCsvValues(headers, false),
+    source,
+    (row) => '\n' + formatCsvValues(toExportValues(row), cleanHtml),
+    options
+  );
+}
+
+/**
+ * File name for an export of a dataset whose name is known: prefix, dataset
+ * name and an IST timestamp
+ */
+export function formatExportFileName(prefix: string, datasetName: string, extension: string): string {
+  const istTime = new Date().toLocaleString('en-CA', { 
+    timeZone: 'Asia/Kolkata',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  }).replace(/[, ]/g, '_').replace(/:/g, '-');
+
+  return `${prefix}_${(datasetName || 'dataset').replace(/[^a-zA-Z0-9_-]/g, '_')}_${istTime}.${extension}`;
+}
+
+/**
+ * File name for an export: prefix, dataset name and an IST timestamp
+ */
+export async function buildExportFileName(
+  prefix: string,
   datasetId: string,
-  rowIndex: number,
-  fieldName: string
+  extension: string,
+  options: DatasetExportOptions = {}
 ): Promise<string> {
+  let datasetName = 'dataset';
   try {
-    // Get all annotations for this specific row
-    const annotations = await AnnotationsAPI.getRowAnnotations(datasetId, rowIndex);
-    
-    // Find the annotation for this specific field
-    const imageAnnotation = annotations.find(ann => ann.fieldName === fieldName);
-    
-    if (!imageAnnotation || !imageAnnotation.images || imageAnnotation.images.length === 0) {
-      return '';
-    }
-    
-    // Filter only selected images and sort by order
-    const selectedImages = imageAnnotation.images
-      .filter(img => img.isSelected)
-      .sort((a, b) => a.order - b.order);
-    
-    // Format each image as: "url,caption" and join with newline
-    const formattedParts = selectedImages.map((img) => [
-      img.url || '',
-      (img.caption || '').replace(/,/g, '\\,').replace(/\n/g, '\\n') // Escape commas and newlines in captions
-    ].join(','));
-    
-    return formattedParts.join('\n');
-    
+    const dataset = await datasetsAPI.getById(datasetId);
+    datasetName = dataset.name;
   } catch (error) {
-    // If error is 404 or similar, just return empty string (no annotation exists yet)
-    return '';
+    // Using fallback dataset name - could notify via options.onError if needed
+    if (options.onError) {
+      options.onError('Using fallback dataset name for export');
+    }
   }
+
+  return formatExportFileName(prefix, datasetName, extension);
 }
 
 /**
  * Export selected columns (metadata + annotation fields) to CSV
  */
 export async function exportSelectedColumnsToCSV(
-  datasetData: DatasetMergedRowsData,
+  source: ExportRowSource,
   annotationConfig: AnnotationConfig,
   datasetId: string,
   options: DatasetExportOptions = {}
 ): Promise<void> {
-  if (!datasetData) {
-    return;
-  }
-
   try {
-    const allRows = datasetData.mergedRows || [];
-
-    const selectedFields = annotationConfig?.annotationFields.filter(
-      (field) => !field.isAnnotationField || field.isAnnotationField || field.isNewColumn
-    ) || [];
+    const columns = options.columns ?? getSelectedExportColumns(annotationConfig);
+    const headers = columns.map((column) => column.header);
 
-    const exportRows: Record<string, any>[] = [];
-    const headers: string[] = [];
-    const metadataHeaders: string[] = [];
+    const annotationIndex = columns.some((column) => column.kind === 'imageMetadata')
+      ? await loadAnnotationIndex(datasetId, options)
+      : new Map<string, AnnotationResponse>();
 
-    // Build headers from selected fields
-    selectedFields.forEach((field) => {
-      // Check if this is an image field (regardless of annotation status)
-      if (field.fieldType === 'image') {
-        // Add original field name to main headers
-        headers.push(field.csvColumnName || field.fieldName);
-        // Add metadata column name to metadata headers (will be added at the end)
-        metadataHeaders.push(`${field.fieldName}_metadata`);
-      } else if (!field.isAnnotationField && !field.isNewColumn) {
-        headers.push(field.csvColumnName);
-      } else if (field.isAnnotationField || field.isNewColumn) {
-        headers.push(field.fieldName);
-      }
-    });
-
-    // Add metadata headers at the end
-    headers.push(...metadataHeaders);
-
-    // Build rows with annotation data
-    for (let rowIndex = 0; rowIndex < allRows.length; rowIndex++) {
-      const row = allRows[rowIndex];
-      const exportedRow: Record<string, any> = {};
-
-      // Process each selected field
-      for (const field of selectedFields) {
-        // Check if this is an image field (regardless of annotation status)
-        if (field.fieldType === 'image') {
-          // Keep original data unchanged
-          const originalColumnName = field.csvColumnName || field.fieldName;
-          if (row.data && row.data.hasOwnProperty(originalColumnName)) {
-            exportedRow[originalColumnName] = row.data[originalColumnName] || '';
-          } else {
-            exportedRow[originalColumnName] = '';
-          }
-          
-          // Add separate metadata column with annotation data
-          const imageMetadata = await getImageMetadataFormatted(datasetId, row.rowIndex, field.fieldName);
-          exportedRow[`${field.fieldName}_metadata`] = imageMetadata;
-        } else if (!field.isAnnotationField && !field.isNewColumn) {
-          // Original CSV column
-          if (row.data && row.data.hasOwnProperty(field.csvColumnName)) {
-            exportedRow[field.csvColumnName] = row.data[field.csvColumnName] || '';
-          } else {
-            exportedRow[field.csvColumnName] = '';
-          }
-        } else if (field.isAnnotationField || field.isNewColumn) {
-          // Regular annotation column
-          if (row.data && row.data.hasOwnProperty(field.fieldName)) {
-            exportedRow[field.fieldName] = row.data[field.fieldName] || '';
-          } else {
-            exportedRow[field.fieldName] = '';
-          }
-        }
-      }
+    // Build each row with annotation data as it is written
+    const toExportValues = (row: DatasetMergedRow) =>
+      columns.map((column) => readExportValue(row, column, annotationIndex));
 
-      exportRows.push(exportedRow);
-    }
+    const cleanFileName = await buildExportFileName('selected_columns', datasetId, 'csv', options);
 
-    const exportData: ExportData = {
-      headers,
-      rows: exportRows,
-    };
+    const written = await writeCsvExport(cleanFileName, headers, source, toExportValues, options);
 
-    const istTime = new Date().toLocaleString('en-CA', { 
-      timeZone: 'Asia/Kolkata',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    }).replace(/[, ]/g, '_').replace(/:/g, '-');
-    
-    let datasetName = 'dataset';
-    try {
-      const dataset = await datasetsAPI.getById(datasetId);
-      datasetName = dataset.name.replace(/[^a-zA-Z0-9_-]/g, '_');
-    } catch (error) {
-      // Using fallback dataset name - could notify via options.onError if needed
-      if (options.onError) {
-        options.onError('Using fallback dataset name for export');
-      }
+    if ((options.showSuccess ?? true) && options.onSuccess) {
+      options.onSuccess(`Exported ${headers.length} columns with ${written} rows successfully`);
     }
-    
-    const cleanFileName = `selected_columns_${datasetName}_${istTime}.csv`;
-
-    const csvContent = generateCsvContent(exportData, { cleanHtml: options.cleanHtml ?? true });
-    
-    downloadCsv(csvContent, cleanFileName, {
-      showSuccess: options.showSuccess ?? true,
-      onSuccess: (message) => {
-        if (options.onSuccess) {
-          options.onSuccess(message);
-        }
-      },
-      onError: (error) => {
-        if (options.onError) {
-          options.onError(error);
-        }
-      },
-      actualRowCount: exportRows.length,
-    });
   } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) {
+      return;
+    }
     if (options.onError) {
       options.onError(`Failed to export selected columns CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -206,19 +365,13 @@ export async function exportSelectedColumnsToCSV(
  * Export all columns (original CSV + annotation fields) to CSV
  */
 export async function exportAllColumnsToCSV(
-  datasetData: DatasetMergedRowsData,
+  source: ExportRowSource,
   annotationConfig: AnnotationConfig,
   datasetId: string,
   options: DatasetExportOptions = {}
 ): Promise<void> {
-  if (!datasetData) {
-    return;
-  }
-
   try {
-    const allRows = datasetData.mergedRows || [];
-
-    // Get all columns from dataset schema or fallback to row data
+    // Get all columns from dataset schema or fallback to the configured fields
     let allColumns: string[] = [];
     try {
       const dataset = await datasetsAPI.getById(datasetId);
@@ -226,19 +379,12 @@ export async function exportAllColumnsToCSV(
         allColumns = (dataset as any).availableColumns.map((col: any) => col.name);
       }
     } catch (error) {
-      // Fallback: get columns from row data
-      allRows.forEach(row => {
-        if (row.data) {
-          Object.keys(row.data).forEach(key => {
-            if (!allColumns.includes(key)) {
-              allColumns.push(key);
-            }
-          });
-        }
-      });
+      // Rows are streamed, so the columns can't be gathered from them up front
+      allColumns = Array.from(new Set(annotationConfig.annotationFields.map(
+        (field) => field.isAnnotationField || field.isNewColumn ? field.fieldName : field.csvColumnName || field.fieldName
+      )));
     }
 
-    const exportRows: Record<string, any>[] = [];
     const headers: string[] = [];
     const metadataHeaders: string[] = [];
 
@@ -261,9 +407,12 @@ export async function exportAllColumnsToCSV(
     // Add metadata headers at the end
     headers.push(...metadataHeaders);
 
-    // Build rows with annotation data
-    for (let rowIndex = 0; rowIndex < allRows.length; rowIndex++) {
-      const row = allRows[rowIndex];
+    const annotationIndex = metadataHeaders.length > 0
+      ? await loadAnnotationIndex(datasetId, options)
+      : new Map<string, AnnotationResponse>();
+
+    // Build each row with annotation data as it is written
+    const toExportRow = (row: DatasetMergedRow) => {
       const exportedRow: Record<string, any> = {};
 
       // Process all columns
@@ -282,11 +431,13 @@ export async function exportAllColumnsToCSV(
           }
           
           // Add separate metadata column with annotation data
-          const imageMetadata = await getImageMetadataFormatted(datasetId, row.rowIndex, columnName);
+          const imageMetadata = formatImageMetadata(annotationIndex.get(annotationKey(row.rowIndex, columnName)));
           exportedRow[`${columnName}_metadata`] = imageMetadata;
         } else {
-          // Regular column
-          if (row.data && row.data.hasOwnProperty(columnName)) {
+          // Regular column; adjudicated annotation values win over the annotator's
+          if (row.adjudicated && row.adjudicated.hasOwnProperty(columnName)) {
+            exportedRow[columnName] = row.adjudicated[columnName] || '';
+          } else if (row.data && row.data.hasOwnProperty(columnName)) {
             exportedRow[columnName] = row.data[columnName] || '';
           } else {
             exportedRow[columnName] = '';
@@ -294,55 +445,23 @@ export async function exportAllColumnsToCSV(
         }
       }
 
-      exportRows.push(exportedRow);
-    }
-
-    const exportData: ExportData = {
-      headers,
-      rows: exportRows,
+      return exportedRow;
     };
 
-    const istTime = new Date().toLocaleString('en-CA', { 
-      timeZone: 'Asia/Kolkata',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    }).replace(/[, ]/g, '_').replace(/:/g, '-');
-    
-    let datasetName = 'dataset';
-    try {
-      const dataset = await datasetsAPI.getById(datasetId);
-      datasetName = dataset.name.replace(/[^a-zA-Z0-9_-]/g, '_');
-    } catch (error) {
-      // Using fallback dataset name - could notify via options.onError if needed
-      if (options.onError) {
-        options.onError('Using fallback dataset name for export');
-      }
+    const cleanFileName = await buildExportFileName('all_columns', datasetId, 'csv', options);
+
+    const written = await writeCsvExport(cleanFileName, headers, source, (row) => {
+      const exportedRow = toExportRow(row);
+      return headers.map((header) => exportedRow[header]);
+    }, options);
+
+    if ((options.showSuccess ?? true) && options.onSuccess) {
+      options.onSuccess(`Exported ${headers.length} columns with ${written} rows successfully`);
     }
-    
-    const cleanFileName = `all_columns_${datasetName}_${istTime}.csv`;
-
-    const csvContent = generateCsvContent(exportData, { cleanHtml: options.cleanHtml ?? true });
-    
-    downloadCsv(csvContent, cleanFileName, {
-      showSuccess: options.showSuccess ?? true,
-      onSuccess: (message) => {
-        if (options.onSuccess) {
-          options.onSuccess(message);
-        }
-      },
-      onError: (error) => {
-        if (options.onError) {
-          options.onError(error);
-        }
-      },
-      actualRowCount: exportRows.length,
-    });
   } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) {
+      return;
+    }
     if (options.onError) {
       options.onError(`Failed to export all columns CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
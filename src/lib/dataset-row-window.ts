@@ -0,0 +1,283 @@
+/**
+ * Dataset Row Window
+ * Sliding window cache over the paginated merged rows endpoint, so the
+ * annotation workbench never has to load every row of a dataset at once.
+ */
+
+import {
+  DatasetMergedRowsAPI,
+  DatasetRowsResponse,
+  ReviewStatus,
+  RowQueryFilter,
+  RowWithCSVInfo,
+} from './api/dataset-merged-rows';
+
+export type RowPageFetcher = (page: number, limit: number) => Promise<DatasetRowsResponse>;
+export type RowFetcher = (rowIndex: number) => Promise<RowWithCSVInfo | null>;
+
+export interface DatasetRowWindowOptions {
+  pageSize?: number;
+  // Number of pages kept (and prefetched) on each side of the current page
+  prefetchPages?: number;
+  // Source of row pages, e.g. an annotator's assigned queue; defaults to all dataset rows
+  fetchRows?: RowPageFetcher;
+  // Single-row lookup returning rows as fetchRows does; defaults to the dataset's row
+  fetchRow?: RowFetcher;
+  // Server-side filter selecting the same rows as fetchRows, used for row lookups
+  scope?: RowQueryFilter;
+}
+
+export type RowDirection = 'prev' | 'next';
+
+/**
+ * Keeps the page holding the current row plus its neighbouring pages in memory,
+ * along with the first and last pages whose rows the footer always shows.
+ * Rows are addressed by position (0-based order in the dataset), not by rowIndex.
+ */
+export class DatasetRowWindow {
+  readonly datasetId: string;
+  readonly pageSize: number;
+  readonly prefetchPages: number;
+  totalRows = 0;
+
+  private fetchRows: RowPageFetcher;
+  private fetchRow: RowFetcher;
+  private scope: RowQueryFilter;
+
+  private pages = new Map<number, RowWithCSVInfo[]>();
+  private inFlight = new Map<number, Promise<RowWithCSVInfo[]>>();
+  private listeners = new Set<() => void>();
+  private anchorPage = 1;
+  // Bumped by reload() so responses to requests made before it are dropped
+  private generation = 0;
+
+  constructor(datasetId: string, options: DatasetRowWindowOptions = {}) {
+    this.datasetId = datasetId;
+    this.pageSize = options.pageSize ?? 50;
+    this.prefetchPages = options.prefetchPages ?? 1;
+    this.fetchRows =
+      options.fetchRows ??
+      ((page, limit) => DatasetMergedRowsAPI.getDatasetRows(datasetId, page, limit));
+    this.fetchRow =
+      options.fetchRow ??
+      ((rowIndex) => DatasetMergedRowsAPI.getRowByIndex(datasetId, rowIndex));
+    this.scope = options.scope ?? {};
+  }
+
+  get totalPages(): number {
+    return Math.ceil(this.totalRows / this.pageSize);
+  }
+
+  /**
+   * Load the first and last pages and return the total number of rows in the dataset
+   */
+  async init(): Promise<number> {
+    await this.fetchPage(1);
+    if (this.totalPages > 1) {
+      await this.fetchPage(this.totalPages);
+    }
+    return this.totalRows;
+  }
+
+  /**
+   * Drop every cached page and load the first and last pages again, for sources
+   * whose rows move, e.g. a review queue rows leave once they are reviewed
+   */
+  async reload(): Promise<number> {
+    this.generation += 1;
+    this.pages.clear();
+    this.inFlight.clear();
+    this.notify();
+    return this.init();
+  }
+
+  /**
+   * Subscribe to cache changes (pages loaded or rows updated)
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read a row from the cache without triggering a request
+   */
+  peek(position: number): RowWithCSVInfo | undefined {
+    const page = this.pageOf(position);
+    return this.pages.get(page)?.[position - (page - 1) * this.pageSize];
+  }
+
+  /**
+   * Load the row at a position, then slide the window around it
+   */
+  async getRow(position: number): Promise<RowWithCSVInfo | undefined> {
+    if (position < 0 || position >= this.totalRows) {
+      return undefined;
+    }
+
+    const page = this.pageOf(position);
+    const rows = await this.fetchPage(page);
+    this.anchorPage = page;
+    this.evictOutsideWindow();
+    this.prefetchAround(page);
+
+    return rows[position - (page - 1) * this.pageSize];
+  }
+
+  /**
+   * Find the position of the row holding a given rowIndex, or -1 when no such row exists
+   */
+  async findPositionByRowIndex(rowIndex: number): Promise<number> {
+    for (const [page, rows] of this.pages) {
+      const offset = rows.findIndex((row) => row.rowIndex === rowIndex);
+      if (offset >= 0) {
+        return (page - 1) * this.pageSize + offset;
+      }
+    }
+
+    // Look the row up directly, then ask the server where it sits in this window's order
+    const row = await this.fetchRow(rowIndex);
+    if (!row) return -1;
+
+    const located = await DatasetMergedRowsAPI.findAdjacentRow(
+      this.datasetId,
+      rowIndex - 1,
+      'next',
+      this.scope,
+    );
+    return located?.row.rowIndex === rowIndex ? located.position : -1;
+  }
+
+  /**
+   * Find the nearest row matching a filter after (or before) a position, returning
+   * its position or -1. The starting position itself is not checked; -1 starts
+   * before the first row.
+   */
+  async findMatchingPosition(
+    from: number,
+    direction: RowDirection,
+    filter: RowQueryFilter,
+  ): Promise<number> {
+    const fromRow = from >= 0 ? this.peek(from) ?? (await this.getRow(from)) : undefined;
+    if (from >= 0 && !fromRow) return -1;
+
+    const located = await DatasetMergedRowsAPI.findAdjacentRow(
+      this.datasetId,
+      fromRow ? fromRow.rowIndex : -1,
+      direction,
+      { ...this.scope, ...filter },
+    );
+    return located ? located.position : -1;
+  }
+
+  /**
+   * Apply a local update to a cached row after it was saved on the server
+   */
+  updateRow(
+    rowIndex: number,
+    updates: {
+      data?: Record<string, any>;
+      completed?: boolean;
+      processed?: boolean;
+      updatedAt?: string;
+      reviewStatus?: ReviewStatus;
+    },
+  ): void {
+    for (const [page, rows] of this.pages) {
+      const offset = rows.findIndex((row) => row.rowIndex === rowIndex);
+      if (offset < 0) continue;
+
+      const row = rows[offset];
+      const updatedRows = [...rows];
+      updatedRows[offset] = {
+        ...row,
+        ...(updates.completed !== undefined && {
+          completed: updates.completed,
+          completedAt: updates.completed ? new Date() : undefined,
+        }),
+        ...(updates.processed !== undefined && { processed: updates.processed }),
+        ...(updates.updatedAt !== undefined && { updatedAt: updates.updatedAt }),
+        ...(updates.reviewStatus !== undefined && { reviewStatus: updates.reviewStatus }),
+        data: updates.data ? { ...row.data, ...updates.data } : row.data,
+      };
+      this.pages.set(page, updatedRows);
+      this.notify();
+      return;
+    }
+  }
+
+  /**
+   * Reload a cached row from the server, discarding any local changes
+   */
+  async refreshRow(rowIndex: number): Promise<RowWithCSVInfo | null> {
+    const row = await this.fetchRow(rowIndex);
+    if (!row) return null;
+
+    for (const [page, rows] of this.pages) {
+      const offset = rows.findIndex((cachedRow) => cachedRow.rowIndex === rowIndex);
+      if (offset < 0) continue;
+
+      const updatedRows = [...rows];
+      updatedRows[offset] = { ...rows[offset], ...row };
+      this.pages.set(page, updatedRows);
+      this.notify();
+      break;
+    }
+
+    return row;
+  }
+
+  private pageOf(position: number): number {
+    return Math.floor(position / this.pageSize) + 1;
+  }
+
+  private async fetchPage(page: number): Promise<RowWithCSVInfo[]> {
+    const cached = this.pages.get(page);
+    if (cached) return cached;
+
+    const pending = this.inFlight.get(page);
+    if (pending) return pending;
+
+    const generation = this.generation;
+    const request = this.fetchRows(page, this.pageSize)
+      .then((response) => {
+        if (generation !== this.generation) return response.rows || [];
+        this.totalRows = response.totalRows;
+        this.pages.set(page, response.rows || []);
+        this.notify();
+        return response.rows || [];
+      })
+      .finally(() => {
+        if (this.inFlight.get(page) === request) this.inFlight.delete(page);
+      });
+
+    this.inFlight.set(page, request);
+    return request;
+  }
+
+  private prefetchAround(page: number): void {
+    for (let distance = 1; distance <= this.prefetchPages; distance++) {
+      [page - distance, page + distance].forEach((neighbour) => {
+        if (neighbour >= 1 && neighbour <= this.totalPages) {
+          // Prefetch failures are retried when the row is actually requested
+          this.fetchPage(neighbour).catch(() => undefined);
+        }
+      });
+    }
+  }
+
+  private evictOutsideWindow(): void {
+    for (const page of Array.from(this.pages.keys())) {
+      const isEdgePage = page === 1 || page === this.totalPages;
+      if (!isEdgePage && Math.abs(page - this.anchorPage) > this.prefetchPages) {
+        this.pages.delete(page);
+      }
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
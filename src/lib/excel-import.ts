@@ -0,0 +1,141 @@
+/**
+ * Excel Import
+ * Reads every worksheet of an uploaded workbook for the sheet picker. Each
+ * sheet is also converted to a CSV file, so sheets can be validated and
+ * imported as separate CSV imports. The CSV keeps the stored values (ISO dates,
+ * full-precision numbers, formula results) rather than the preview's display text.
+ */
+
+import * as ExcelJS from 'exceljs';
+import { formatCsvValues } from './csv-export-helper';
+
+export interface ExcelSheet {
+  name: string;
+  columns: string[];
+  // First data rows keyed by column, for the preview table
+  sampleRows: Record<string, any>[];
+  // Data rows, not counting the header
+  rowCount: number;
+  // The sheet as a UTF-8 CSV file named after the workbook and sheet
+  csvFile: File;
+}
+
+/**
+ * Displayable string for an Excel cell value
+ */
+export function formatExcelValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleDateString();
+  }
+  if (typeof value === 'object') {
+    // Handle arrays by joining with newlines
+    if (Array.isArray(value)) {
+      return value
+        .map(item => String(item))
+        .filter(item => item.trim() !== '')
+        .join('\n');
+    }
+    // Formula cells hold their last computed result, rich text cells their runs
+    if ('result' in value) {
+      return formatExcelValue(value.result);
+    }
+    if (Array.isArray(value.richText)) {
+      return value.richText.map((run: { text: string }) => run.text).join('');
+    }
+    // Handle objects with proper stringification
+    try {
+      const stringified = JSON.stringify(value);
+      // If it's a simple object with URL-like properties, extract them
+      if (stringified.includes('url') || stringified.includes('href') || stringified.includes('src')) {
+        const parsed = JSON.parse(stringified);
+        if (parsed.url) return parsed.url;
+        if (parsed.href) return parsed.href;
+        if (parsed.src) return parsed.src;
+        if (parsed.value) return parsed.value;
+      }
+      if (typeof value.text === 'string') return value.text;
+      return stringified;
+    } catch (e) {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Stored value of an Excel cell as CSV text: dates as ISO 8601 (date only when
+ * there is no time of day), numbers unrounded, formulas as their last result
+ * and rich text or hyperlinks as their text
+ */
+export function toCsvCellValue(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    // Excel dates carry no time zone; ExcelJS reads them as UTC
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace(/(\.000)?Z$/, '');
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+  if ('formula' in value || 'sharedFormula' in value) {
+    return toCsvCellValue(value.result);
+  }
+  if ('error' in value) {
+    return value.error;
+  }
+  if ('richText' in value) {
+    return value.richText.map((run) => run.text).join('');
+  }
+  // Hyperlink text may itself be rich text
+  return toCsvCellValue(value.text as ExcelJS.CellValue);
+}
+
+// ExcelJS row values are 1-based, with an empty first element
+const readRowValues = (row: ExcelJS.Row): ExcelJS.CellValue[] => (row.values as ExcelJS.CellValue[]).slice(1);
+
+// Sheet names may contain characters that are awkward in file names
+const sheetFileName = (workbookName: string, sheetName: string) =>
+  `${workbookName.replace(/\.(xlsx|xls)$/i, '')} - ${sheetName.replace(/[\\/:*?"<>|]/g, '_')}.csv`;
+
+function readWorksheet(worksheet: ExcelJS.Worksheet, workbookName: string, sampleSize: number): ExcelSheet {
+  const columns = readRowValues(worksheet.getRow(1)).map(toCsvCellValue);
+  const lines = [formatCsvValues(columns, false)];
+  const sampleRows: Record<string, any>[] = [];
+
+  for (let i = 2; i <= worksheet.rowCount; i++) {
+    const values = readRowValues(worksheet.getRow(i));
+    lines.push(formatCsvValues(columns.map((_, index) => toCsvCellValue(values[index])), false));
+
+    if (sampleRows.length < sampleSize) {
+      const rowData: Record<string, any> = {};
+      columns.forEach((col, index) => {
+        rowData[col] = formatExcelValue(values[index]);
+      });
+      sampleRows.push(rowData);
+    }
+  }
+
+  return {
+    name: worksheet.name,
+    columns,
+    sampleRows,
+    rowCount: Math.max(worksheet.rowCount - 1, 0), // Subtract header row
+    csvFile: new File([lines.join('\r\n') + '\r\n'], sheetFileName(workbookName, worksheet.name), {
+      type: 'text/csv',
+    }),
+  };
+}
+
+/**
+ * Every worksheet of an Excel file, in workbook order
+ */
+export async function readExcelSheets(file: File, sampleSize: number = 5): Promise<ExcelSheet[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook.worksheets.map((worksheet) => readWorksheet(worksheet, file.name, sampleSize));
+}
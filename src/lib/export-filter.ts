@@ -0,0 +1,156 @@
+/**
+ * Export Filter
+ * Row filters applied before export: completion state, completion date range,
+ * assigned annotator and column value predicates (all must match).
+ */
+
+import { DatasetMergedRow } from './api/dataset-merged-rows';
+import { AnnotationConfig } from './dataset-export-helper';
+import { isEmptyValue } from './row-filter';
+
+export type CompletionFilter = 'all' | 'completed' | 'incomplete';
+
+export type PredicateOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'greaterThan'
+  | 'lessThan';
+
+export interface ColumnPredicate {
+  // Key in the row data: CSV column name for metadata, field name for new columns
+  column: string;
+  operator: PredicateOperator;
+  value?: string;
+}
+
+export interface ExportRowFilter {
+  completion: CompletionFilter;
+  // Inclusive local dates (yyyy-mm-dd) matched against completedAt
+  completedFrom?: string;
+  completedTo?: string;
+  // Assigned annotators; empty means any
+  annotatorIds: string[];
+  predicates: ColumnPredicate[];
+}
+
+export interface FilterColumn {
+  key: string;
+  label: string;
+}
+
+export const DEFAULT_EXPORT_FILTER: ExportRowFilter = {
+  completion: 'all',
+  annotatorIds: [],
+  predicates: [],
+};
+
+export const PREDICATE_OPERATORS: { value: PredicateOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'notEquals', label: 'does not equal', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'isEmpty', label: 'is empty', needsValue: false },
+  { value: 'isNotEmpty', label: 'is not empty', needsValue: false },
+  { value: 'greaterThan', label: 'is greater than', needsValue: true },
+  { value: 'lessThan', label: 'is less than', needsValue: true },
+];
+
+const operatorNeedsValue = (operator: PredicateOperator) =>
+  PREDICATE_OPERATORS.find((item) => item.value === operator)?.needsValue ?? true;
+
+/**
+ * Columns a predicate can test: metadata and annotated fields, not images
+ */
+export function getFilterColumns(annotationConfig: AnnotationConfig | null): FilterColumn[] {
+  return (annotationConfig?.annotationFields || [])
+    .filter((field) => field.fieldType !== 'image')
+    .map((field) =>
+      field.isAnnotationField || field.isNewColumn
+        ? { key: field.fieldName, label: field.fieldName }
+        : { key: field.csvColumnName || field.fieldName, label: field.csvColumnName || field.fieldName }
+    );
+}
+
+// Predicates still missing a column or a value are ignored rather than matching nothing
+function isPredicateComplete(predicate: ColumnPredicate): boolean {
+  return !!predicate.column && (!operatorNeedsValue(predicate.operator) || !!predicate.value?.trim());
+}
+
+export function isExportFilterActive(filter: ExportRowFilter | undefined): boolean {
+  if (!filter) return false;
+  return (
+    filter.completion !== 'all' ||
+    !!filter.completedFrom ||
+    !!filter.completedTo ||
+    filter.annotatorIds.length > 0 ||
+    filter.predicates.some(isPredicateComplete)
+  );
+}
+
+function readColumnValue(row: DatasetMergedRow, column: string): any {
+  if (row.adjudicated && row.adjudicated.hasOwnProperty(column)) {
+    return row.adjudicated[column];
+  }
+  return row.data?.[column];
+}
+
+function matchesPredicate(row: DatasetMergedRow, predicate: ColumnPredicate): boolean {
+  const value = readColumnValue(row, predicate.column);
+  const text = isEmptyValue(value) ? '' : String(value).trim();
+  const expected = (predicate.value || '').trim();
+
+  switch (predicate.operator) {
+    case 'isEmpty':
+      return text === '';
+    case 'isNotEmpty':
+      return text !== '';
+    case 'equals':
+      return text.toLowerCase() === expected.toLowerCase();
+    case 'notEquals':
+      return text.toLowerCase() !== expected.toLowerCase();
+    case 'contains':
+      return text.toLowerCase().includes(expected.toLowerCase());
+    case 'greaterThan':
+    case 'lessThan': {
+      if (text === '') return false;
+      const number = Number(text);
+      const bound = Number(expected);
+      // Non-numeric values compare as text
+      const order = Number.isFinite(number) && Number.isFinite(bound)
+        ? number - bound
+        : text.localeCompare(expected);
+      return predicate.operator === 'greaterThan' ? order > 0 : order < 0;
+    }
+    default:
+      return true;
+  }
+}
+
+// Local midnight of a yyyy-mm-dd date
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export function matchesExportFilter(row: DatasetMergedRow, filter: ExportRowFilter): boolean {
+  if (filter.completion === 'completed' && !row.completed) return false;
+  if (filter.completion === 'incomplete' && row.completed) return false;
+
+  if (filter.completedFrom || filter.completedTo) {
+    if (!row.completedAt) return false;
+    const completedAt = new Date(row.completedAt).getTime();
+    if (filter.completedFrom && completedAt < startOfDay(filter.completedFrom)) return false;
+    // The end date is inclusive, so compare against the following midnight
+    if (filter.completedTo && completedAt >= startOfDay(filter.completedTo) + 24 * 60 * 60 * 1000) return false;
+  }
+
+  if (filter.annotatorIds.length > 0 && (!row.assignedTo || !filter.annotatorIds.includes(row.assignedTo))) {
+    return false;
+  }
+
+  return filter.predicates.filter(isPredicateComplete).every((predicate) => matchesPredicate(row, predicate));
+}
+
+export function filterExportRows(rows: DatasetMergedRow[], filter: ExportRowFilter | undefined): DatasetMergedRow[] {
+  if (!filter || !isExportFilterActive(filter)) return rows;
+  return rows.filter((row) => matchesExportFilter(row, filter));
+}
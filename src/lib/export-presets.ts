@@ -0,0 +1,125 @@
+/**
+ * Export Presets
+ * Saved export settings: format, column order and headers, HTML cleaning,
+ * row filters and, for JSONL, the record template.
+ */
+
+import { ExportPreset, ExportPresetFormat, ExportPresetRequest } from './api/export-presets';
+import {
+  AnnotationConfig,
+  DatasetExportOptions,
+  exportSelectedColumnsToCSV,
+  ExportColumn,
+  ExportRowSource,
+  formatExportFileName,
+  getSelectedExportColumns,
+} from './dataset-export-helper';
+import { DEFAULT_EXPORT_FILTER } from './export-filter';
+import { CSV_FILE_TYPE, ExportSaveFile, JSONL_FILE_TYPE } from './export-stream';
+import { createDefaultJsonlTemplate, exportToJsonl, getTemplateFields } from './jsonl-export';
+import { exportSelectedColumnsToXlsx } from './xlsx-export';
+
+export const PRESET_FORMAT_LABELS: Record<ExportPresetFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  jsonl: 'JSONL (fine-tuning)',
+};
+
+export function createPresetDraft(annotationConfig: AnnotationConfig | null): ExportPresetRequest {
+  return {
+    name: '',
+    format: 'csv',
+    columns: getSelectedExportColumns(annotationConfig),
+    cleanHtml: true,
+    rowFilter: DEFAULT_EXPORT_FILTER,
+    isShared: false,
+  };
+}
+
+const columnId = (column: Pick<ExportColumn, 'key' | 'kind'>) => `${column.kind}:${column.key}`;
+
+/**
+ * Preset columns that still exist in the dataset's field config. Fields removed
+ * since the preset was saved are dropped rather than exported empty.
+ */
+export function resolvePresetColumns(
+  columns: ExportColumn[],
+  annotationConfig: AnnotationConfig | null
+): ExportColumn[] {
+  const available = new Set(getSelectedExportColumns(annotationConfig).map(columnId));
+  return columns.filter((column) => available.has(columnId(column)));
+}
+
+/**
+ * Columns for the preset editor: the preset's columns in their order, then any
+ * configured columns it leaves out (returned separately so they start unchecked)
+ */
+export function getEditorColumns(
+  columns: ExportColumn[],
+  annotationConfig: AnnotationConfig | null
+): { included: ExportColumn[]; excluded: ExportColumn[] } {
+  const included = resolvePresetColumns(columns, annotationConfig);
+  const includedIds = new Set(included.map(columnId));
+  const excluded = getSelectedExportColumns(annotationConfig).filter((column) => !includedIds.has(columnId(column)));
+  return { included, excluded };
+}
+
+/**
+ * Why a preset cannot be exported, or null when it can. A CSV or Excel preset
+ * whose columns were all removed from the field config would export no columns.
+ */
+export function validatePresetColumns(preset: ExportPreset, annotationConfig: AnnotationConfig | null): string | null {
+  if (preset.format === 'jsonl' || resolvePresetColumns(preset.columns, annotationConfig).length > 0) {
+    return null;
+  }
+  return `None of the columns in "${preset.name}" are configured for this dataset anymore. Edit the preset to pick columns.`;
+}
+
+/**
+ * File a preset's export is saved to; null for Excel, which is built whole and downloaded
+ */
+export function getPresetSaveFile(preset: ExportPreset, datasetName: string): ExportSaveFile | null {
+  switch (preset.format) {
+    case 'xlsx':
+      return null;
+    case 'jsonl':
+      return { name: formatExportFileName('finetune', datasetName, 'jsonl'), type: JSONL_FILE_TYPE };
+    default:
+      return { name: formatExportFileName('selected_columns', datasetName, 'csv'), type: CSV_FILE_TYPE };
+  }
+}
+
+/**
+ * Run an export with a preset's settings
+ */
+export async function exportWithPreset(
+  source: ExportRowSource,
+  annotationConfig: AnnotationConfig,
+  preset: ExportPreset,
+  datasetId: string,
+  options: DatasetExportOptions = {}
+): Promise<void> {
+  const problem = validatePresetColumns(preset, annotationConfig);
+  if (problem) {
+    options.onError?.(problem);
+    return;
+  }
+
+  const presetOptions: DatasetExportOptions = {
+    ...options,
+    cleanHtml: preset.cleanHtml,
+    rowFilter: preset.rowFilter,
+    columns: resolvePresetColumns(preset.columns, annotationConfig),
+  };
+
+  switch (preset.format) {
+    case 'xlsx':
+      return exportSelectedColumnsToXlsx(source, annotationConfig, datasetId, presetOptions);
+    case 'jsonl': {
+      const template = preset.jsonlTemplate ?? createDefaultJsonlTemplate(getTemplateFields(annotationConfig));
+      return exportToJsonl(source, annotationConfig, template, datasetId, presetOptions);
+    }
+    default:
+      return exportSelectedColumnsToCSV(source, annotationConfig, datasetId, presetOptions);
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Export Stream
+ * Writes exports to disk incrementally instead of building one string in memory.
+ * Uses the File System Access API when the browser has it; otherwise chunks are
+ * collected as Blobs (which the browser can keep off the JS heap) and downloaded
+ * when the stream closes.
+ */
+
+import { downloadBlob } from './csv-export-helper';
+
+export interface ExportFileType {
+  description: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const CSV_FILE_TYPE: ExportFileType = {
+  description: 'CSV file',
+  mimeType: 'text/csv;charset=utf-8;',
+  extension: '.csv',
+};
+
+export const JSONL_FILE_TYPE: ExportFileType = {
+  description: 'JSON Lines file',
+  mimeType: 'application/jsonl',
+  extension: '.jsonl',
+};
+
+// Pending text is folded into a Blob once it reaches this many characters
+const BLOB_CHUNK_SIZE = 4 * 1024 * 1024;
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+function getSaveFilePicker(): SaveFilePicker | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+}
+
+// File an export is saved to, as offered in the save picker
+export interface ExportSaveFile {
+  name: string;
+  type: ExportFileType;
+}
+
+// Where an export is written: a file the user picked, or a download once the export is done
+export type ExportFileTarget = FileSystemFileHandle | 'download';
+
+/**
+ * Ask the user where to save an export. Call it straight from the click handler,
+ * before anything is awaited: the picker needs the click's user activation, which
+ * expires while the export loads its data. Resolves to null when the user dismisses
+ * the picker, and to 'download' when the picker cannot be used here.
+ */
+export function pickExportFile(suggestedName: string, fileType: ExportFileType): Promise<ExportFileTarget | null> {
+  const showSaveFilePicker = getSaveFilePicker();
+  if (!showSaveFilePicker) return Promise.resolve('download');
+
+  return showSaveFilePicker({
+    suggestedName,
+    types: [{ description: fileType.description, accept: { [fileType.mimeType.split(';')[0]]: [fileType.extension] } }],
+  }).catch((error) => {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    console.warn('⚠️ Save file picker unavailable, falling back to download', error);
+    return 'download' as const;
+  });
+}
+
+/**
+ * Writable stream onto a file picked by the user
+ */
+async function createFileSystemStream(handle: FileSystemFileHandle): Promise<WritableStream<string>> {
+  const file = await handle.createWritable();
+  return new WritableStream<string>({
+    write: (chunk) => file.write(chunk),
+    close: () => file.close(),
+    // Aborting discards the partly written file
+    abort: (reason) => file.abort(reason),
+  });
+}
+
+/**
+ * Writable stream that collects chunked Blobs and downloads them on close
+ */
+function createBlobDownloadStream(filename: string, fileType: ExportFileType): WritableStream<string> {
+  let parts: Blob[] = [];
+  let pending: string[] = [];
+  let pendingLength = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    parts.push(new Blob(pending));
+    pending = [];
+    pendingLength = 0;
+  };
+
+  return new WritableStream<string>({
+    write(chunk) {
+      pending.push(chunk);
+      pendingLength += chunk.length;
+      if (pendingLength >= BLOB_CHUNK_SIZE) flush();
+    },
+    close() {
+      flush();
+      downloadBlob(new Blob(parts, { type: fileType.mimeType }), filename);
+    },
+    abort() {
+      parts = [];
+      pending = [];
+    },
+  });
+}
+
+/**
+ * Open a writable stream for an export file: onto the picked file, or collected
+ * and downloaded under the given name when there is none
+ */
+export async function createExportStream(
+  filename: string,
+  fileType: ExportFileType,
+  target: ExportFileTarget = 'download'
+): Promise<WritableStream<string>> {
+  if (target !== 'download') return createFileSystemStream(target);
+  return createBlobDownloadStream(filename, fileType);
+}
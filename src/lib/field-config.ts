@@ -0,0 +1,34 @@
+/**
+ * Field Config
+ * Helpers over a dataset's field configuration shared by agreement, adjudication
+ * and exports.
+ */
+
+export type NewColumnType = 'text' | 'number' | 'select' | 'selectrange' | 'multiselect';
+
+export interface NewColumnRef {
+  id: string;
+  columnType: NewColumnType;
+}
+
+// The parts of a dataset field config that give new columns their type
+export interface FieldColumnConfig {
+  annotationFields?: { fieldName: string; isNewColumn?: boolean; newColumnId?: string }[];
+  newColumns?: NewColumnRef[];
+}
+
+/**
+ * Column type of each new column, keyed by field name. Columns whose
+ * definition is missing count as text.
+ */
+export function getNewColumnTypes(config: FieldColumnConfig | null | undefined): Map<string, NewColumnType> {
+  const newColumns = config?.newColumns || [];
+  return new Map(
+    (config?.annotationFields || [])
+      .filter((field) => field.isNewColumn)
+      .map((field) => [
+        field.fieldName,
+        newColumns.find((column) => column.id === field.newColumnId)?.columnType || 'text',
+      ])
+  );
+}
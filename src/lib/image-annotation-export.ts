@@ -0,0 +1,319 @@
+/**
+ * Image Annotation Export
+ * Builds COCO JSON and Pascal VOC (one XML per image, zipped) exports from the
+ * dataset's image annotations: selected images, captions and labelled regions.
+ */
+
+import { AnnotationResponse, AnnotationsAPI, ImageRegion } from './api/annotations';
+import { AnnotationLabel } from './api/dataset-annotation-types';
+import { DatasetResponse, datasetsAPI } from './api/datasets';
+import { fieldSelectionAPI } from './api/field-config';
+import { getProxiedImageUrl, hasAuthConfigured } from './api/image-proxy';
+import { downloadBlob } from './csv-export-helper';
+import { buildExportFileName, DatasetExportOptions, ExportCancelledError, throwIfCancelled } from './dataset-export-helper';
+import { regionArea, regionBoundingBox, regionOutline } from './image-regions';
+import { createZip } from './zip-writer';
+
+// One exported image with everything annotated on it
+export interface ExportedImage {
+  url: string;
+  rowIndex: number;
+  fieldName: string;
+  caption: string;
+  width: number;
+  height: number;
+  regions: ImageRegion[];
+}
+
+// Images that fail to load in time have no known size and are left out of the export
+const IMAGE_SIZE_TIMEOUT_MS = 15000;
+const IMAGE_SIZE_CONCURRENCY = 6;
+
+function loadImageSize(src: string): Promise<{ width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const image = new window.Image();
+    const timeout = setTimeout(() => resolve(null), IMAGE_SIZE_TIMEOUT_MS);
+    image.onload = () => {
+      clearTimeout(timeout);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      clearTimeout(timeout);
+      resolve(null);
+    };
+    image.src = src;
+  });
+}
+
+/**
+ * Natural size of an image: from its regions when they recorded it, otherwise
+ * by loading it (through the proxy for private datasets). Null when unknown.
+ */
+async function resolveImageSize(
+  dataset: DatasetResponse,
+  url: string,
+  regions: ImageRegion[],
+): Promise<{ width: number; height: number } | null> {
+  const drawn = regions.find((region) => region.imageWidth && region.imageHeight);
+  if (drawn) return { width: drawn.imageWidth!, height: drawn.imageHeight! };
+
+  const size = (await loadImageSize(url))
+    ?? (hasAuthConfigured(dataset.imageAuthConfig)
+      ? await loadImageSize(getProxiedImageUrl(dataset._id, url))
+      : null);
+  return size && size.width > 0 && size.height > 0 ? size : null;
+}
+
+/**
+ * Selected images plus any image with regions, in row and display order.
+ * Regions are stored as fractions of the image, so images whose size cannot
+ * be read are skipped rather than exported with zero-size annotations.
+ */
+async function collectExportedImages(
+  dataset: DatasetResponse,
+  annotations: AnnotationResponse[],
+  options: DatasetExportOptions,
+): Promise<{ images: ExportedImage[]; skippedImages: number }> {
+  const pending = annotations
+    .slice()
+    .sort((a, b) => a.rowIndex - b.rowIndex || a.fieldName.localeCompare(b.fieldName))
+    .flatMap((annotation) => {
+      const regions = annotation.regions || [];
+      return annotation.images
+        .slice()
+        .sort((a, b) => a.order - b.order)
+        .filter((image) => image.isSelected || regions.some((region) => region.imageUrl === image.url))
+        .map((image) => ({
+          url: image.url,
+          rowIndex: annotation.rowIndex,
+          fieldName: annotation.fieldName,
+          caption: image.caption || '',
+          regions: regions.filter((region) => region.imageUrl === image.url),
+        }));
+    });
+
+  const images: ExportedImage[] = [];
+  let skippedImages = 0;
+  for (let i = 0; i < pending.length; i += IMAGE_SIZE_CONCURRENCY) {
+    throwIfCancelled(options.signal);
+    options.onProgress?.({ phase: 'images', completed: i, total: pending.length });
+    const batch = pending.slice(i, i + IMAGE_SIZE_CONCURRENCY);
+    const sizes = await Promise.all(batch.map((image) => resolveImageSize(dataset, image.url, image.regions)));
+    batch.forEach((image, index) => {
+      const size = sizes[index];
+      if (size) {
+        images.push({ ...image, ...size });
+      } else {
+        skippedImages += 1;
+      }
+    });
+  }
+  return { images, skippedImages };
+}
+
+// Appended to export messages when images had to be left out
+const skippedImagesNote = (skippedImages: number) =>
+  skippedImages > 0 ? `; skipped ${skippedImages} image(s) that could not be loaded to read their size` : '';
+
+// Configured labels first, then any label only found on regions
+function collectCategories(labels: AnnotationLabel[], images: ExportedImage[]): string[] {
+  const names = labels.map((label) => label.name);
+  images.forEach((image) =>
+    image.regions.forEach((region) => {
+      if (!names.includes(region.label)) names.push(region.label);
+    })
+  );
+  return names;
+}
+
+function imageFileName(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || url;
+  } catch {
+    return url;
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * COCO object detection/segmentation format. Captions and the source row are
+ * kept on each image entry.
+ */
+export function buildCocoDataset(
+  datasetName: string,
+  labels: AnnotationLabel[],
+  images: ExportedImage[],
+) {
+  const categories = collectCategories(labels, images);
+  let annotationId = 1;
+
+  return {
+    info: {
+      description: datasetName,
+      date_created: new Date().toISOString(),
+    },
+    images: images.map((image, index) => ({
+      id: index + 1,
+      file_name: imageFileName(image.url),
+      coco_url: image.url,
+      width: image.width,
+      height: image.height,
+      caption: image.caption,
+      row_index: image.rowIndex,
+      field_name: image.fieldName,
+    })),
+    annotations: images.flatMap((image, index) =>
+      image.regions.map((region) => ({
+        id: annotationId++,
+        image_id: index + 1,
+        category_id: categories.indexOf(region.label) + 1,
+        bbox: regionBoundingBox(region, image.width, image.height).map(round),
+        area: round(regionArea(region, image.width, image.height)),
+        segmentation: [regionOutline(region, image.width, image.height).map(round)],
+        iscrowd: 0,
+      }))
+    ),
+    categories: categories.map((name, index) => ({ id: index + 1, name, supercategory: 'label' })),
+  };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Pascal VOC annotation of one image. Polygons keep their points in a
+ * <polygon> element next to the standard bounding box.
+ */
+export function buildVocXml(datasetName: string, image: ExportedImage): string {
+  const objects = image.regions.map((region) => {
+    const [x, y, width, height] = regionBoundingBox(region, image.width, image.height);
+    const outline = regionOutline(region, image.width, image.height);
+    const polygon = region.shape === 'polygon'
+      ? [
+          '    <polygon>',
+          ...Array.from({ length: outline.length / 2 }, (_, i) =>
+            `      <x${i + 1}>${round(outline[i * 2])}</x${i + 1}><y${i + 1}>${round(outline[i * 2 + 1])}</y${i + 1}>`
+          ),
+          '    </polygon>',
+        ]
+      : [];
+
+    return [
+      '  <object>',
+      `    <name>${escapeXml(region.label)}</name>`,
+      '    <pose>Unspecified</pose>',
+      '    <truncated>0</truncated>',
+      '    <difficult>0</difficult>',
+      '    <bndbox>',
+      `      <xmin>${Math.round(x)}</xmin>`,
+      `      <ymin>${Math.round(y)}</ymin>`,
+      `      <xmax>${Math.round(x + width)}</xmax>`,
+      `      <ymax>${Math.round(y + height)}</ymax>`,
+      '    </bndbox>',
+      ...polygon,
+      '  </object>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<annotation>',
+    `  <folder>${escapeXml(datasetName)}</folder>`,
+    `  <filename>${escapeXml(imageFileName(image.url))}</filename>`,
+    `  <path>${escapeXml(image.url)}</path>`,
+    '  <source>',
+    `    <database>${escapeXml(datasetName)}</database>`,
+    `    <row_index>${image.rowIndex}</row_index>`,
+    `    <field_name>${escapeXml(image.fieldName)}</field_name>`,
+    '  </source>',
+    '  <size>',
+    `    <width>${image.width}</width>`,
+    `    <height>${image.height}</height>`,
+    '    <depth>3</depth>',
+    '  </size>',
+    '  <segmented>0</segmented>',
+    ...(image.caption ? [`  <caption>${escapeXml(image.caption)}</caption>`] : []),
+    ...objects,
+    '</annotation>',
+    '',
+  ].join('\n');
+}
+
+async function loadExportSource(datasetId: string, options: DatasetExportOptions) {
+  options.onProgress?.({ phase: 'annotations', completed: 0, total: 1 });
+  const [dataset, annotations, config] = await Promise.all([
+    datasetsAPI.getById(datasetId),
+    AnnotationsAPI.getDatasetAnnotations(datasetId, options.signal),
+    fieldSelectionAPI.getDatasetFieldConfig(datasetId).catch(() => null),
+  ]);
+  const labels: AnnotationLabel[] = config?.annotationLabels || [];
+  const { images, skippedImages } = await collectExportedImages(dataset, annotations, options);
+  throwIfCancelled(options.signal);
+  return { dataset, labels, images, skippedImages };
+}
+
+/**
+ * Export image annotations as a COCO JSON file
+ */
+export async function exportCocoJson(datasetId: string, options: DatasetExportOptions = {}): Promise<void> {
+  try {
+    const { dataset, labels, images, skippedImages } = await loadExportSource(datasetId, options);
+    if (images.length === 0) {
+      options.onError?.(`No selected or region-annotated images to export${skippedImagesNote(skippedImages)}`);
+      return;
+    }
+
+    const coco = buildCocoDataset(dataset.name, labels, images);
+    const fileName = await buildExportFileName('coco', datasetId, 'json', options);
+    downloadBlob(new Blob([JSON.stringify(coco, null, 2)], { type: 'application/json' }), fileName);
+
+    if (options.showSuccess ?? true) {
+      options.onSuccess?.(
+        `Exported ${coco.images.length} images with ${coco.annotations.length} regions${skippedImagesNote(skippedImages)}`
+      );
+    } else if (skippedImages > 0) {
+      options.onError?.(`COCO JSON exported${skippedImagesNote(skippedImages)}`);
+    }
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) return;
+    options.onError?.(`Failed to export COCO JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Export image annotations as a Pascal VOC zip: one XML per image plus labels.txt
+ */
+export async function exportPascalVocZip(datasetId: string, options: DatasetExportOptions = {}): Promise<void> {
+  try {
+    const { dataset, labels, images, skippedImages } = await loadExportSource(datasetId, options);
+    if (images.length === 0) {
+      options.onError?.(`No selected or region-annotated images to export${skippedImagesNote(skippedImages)}`);
+      return;
+    }
+
+    const entries = images.map((image, index) => ({
+      name: `Annotations/row${image.rowIndex}_${image.fieldName.replace(/[^a-zA-Z0-9_-]/g, '_')}_${index + 1}.xml`,
+      content: buildVocXml(dataset.name, image),
+    }));
+    entries.push({ name: 'labels.txt', content: collectCategories(labels, images).join('\n') + '\n' });
+
+    const fileName = await buildExportFileName('pascal_voc', datasetId, 'zip', options);
+    downloadBlob(createZip(entries), fileName);
+
+    if (options.showSuccess ?? true) {
+      const regionCount = images.reduce((count, image) => count + image.regions.length, 0);
+      options.onSuccess?.(`Exported ${images.length} images with ${regionCount} regions${skippedImagesNote(skippedImages)}`);
+    } else if (skippedImages > 0) {
+      options.onError?.(`Pascal VOC zip exported${skippedImagesNote(skippedImages)}`);
+    }
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) return;
+    options.onError?.(`Failed to export Pascal VOC zip: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Image Regions
+ * Geometry helpers for rectangles and polygons drawn on image fields.
+ * Points are stored as fractions of the image size so regions line up at any
+ * display size; SVG overlays scale them back with a viewBox of the natural size.
+ */
+
+import { ImageRegion, RegionPoint } from './api/annotations';
+import { AnnotationLabel } from './api/dataset-annotation-types';
+import { createLocalId } from './utils';
+
+export const DEFAULT_REGION_COLOR = '#3b82f6';
+
+// Rectangles smaller than this share of the image are treated as stray clicks
+const MIN_RECTANGLE_SIZE = 0.005;
+
+export function getLabelColor(labels: AnnotationLabel[], labelName: string): string {
+  return labels.find((label) => label.name === labelName)?.color || DEFAULT_REGION_COLOR;
+}
+
+export function clampPoint(point: RegionPoint): RegionPoint {
+  return {
+    x: Math.max(0, Math.min(1, point.x)),
+    y: Math.max(0, Math.min(1, point.y)),
+  };
+}
+
+/**
+ * Rectangle from two opposite corners, or null when it is too small to keep
+ */
+export function rectangleFromCorners(a: RegionPoint, b: RegionPoint): RegionPoint[] | null {
+  const topLeft = { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) };
+  const bottomRight = { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) };
+  if (bottomRight.x - topLeft.x < MIN_RECTANGLE_SIZE || bottomRight.y - topLeft.y < MIN_RECTANGLE_SIZE) {
+    return null;
+  }
+  return [topLeft, bottomRight];
+}
+
+/**
+ * SVG points attribute for a region, in the coordinates of a width x height viewBox
+ */
+export function toSvgPoints(region: Pick<ImageRegion, 'shape' | 'points'>, width: number, height: number): string {
+  return outlinePoints(region).map((point) => `${point.x * width},${point.y * height}`).join(' ');
+}
+
+export function createRegion(
+  imageUrl: string,
+  shape: ImageRegion['shape'],
+  label: string,
+  points: RegionPoint[],
+  imageSize?: { width: number; height: number },
+): ImageRegion {
+  return {
+    id: createLocalId(),
+    imageUrl,
+    shape,
+    label,
+    points,
+    imageWidth: imageSize?.width,
+    imageHeight: imageSize?.height,
+  };
+}
+
+/**
+ * Pixel bounding box [x, y, width, height] of a region in a width x height image
+ */
+export function regionBoundingBox(region: ImageRegion, width: number, height: number): [number, number, number, number] {
+  const xs = region.points.map((point) => point.x * width);
+  const ys = region.points.map((point) => point.y * height);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return [minX, minY, Math.max(...xs) - minX, Math.max(...ys) - minY];
+}
+
+/**
+ * Pixel outline of a region as [x1, y1, x2, y2, ...]; rectangles give their four corners
+ */
+export function regionOutline(region: ImageRegion, width: number, height: number): number[] {
+  return outlinePoints(region).flatMap((point) => [point.x * width, point.y * height]);
+}
+
+/**
+ * Area of a region in pixels (shoelace formula)
+ */
+export function regionArea(region: ImageRegion, width: number, height: number): number {
+  const outline = regionOutline(region, width, height);
+  let twiceArea = 0;
+  for (let i = 0; i < outline.length; i += 2) {
+    const j = (i + 2) % outline.length;
+    twiceArea += outline[i] * outline[j + 1] - outline[j] * outline[i + 1];
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+// Corners of a rectangle in drawing order; polygons are already an outline
+function outlinePoints(region: Pick<ImageRegion, 'shape' | 'points'>): RegionPoint[] {
+  if (region.shape !== 'rectangle' || region.points.length !== 2) return region.points;
+  const [topLeft, bottomRight] = region.points;
+  return [
+    topLeft,
+    { x: bottomRight.x, y: topLeft.y },
+    bottomRight,
+    { x: topLeft.x, y: bottomRight.y },
+  ];
+}
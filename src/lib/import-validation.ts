@@ -0,0 +1,110 @@
+/**
+ * Import Validation Report
+ * Groups the row errors recorded on a CSV import by error type, with the values
+ * each error is about, and writes the report as a CSV file.
+ */
+
+import { CSVImport, CSVRowData } from './api/csv-imports';
+import { downloadCsv, formatCsvValues } from './csv-export-helper';
+
+// Import status once rows have been checked and the import is finished
+export const IMPORT_COMPLETED_STATUS = 'completed';
+
+export interface RowIssue {
+  rowIndex: number;
+  message: string;
+  // Values of the columns the error names; every value when it names none
+  values: Record<string, any>;
+  excluded: boolean;
+}
+
+export interface ErrorTypeGroup {
+  type: string;
+  issues: RowIssue[];
+}
+
+/**
+ * Error type of a row error: the text before the first colon, without quoted
+ * values, so "Invalid date: '31/02'" and "Invalid date: 'soon'" group together
+ */
+export function getErrorType(message: string): string {
+  const colon = message.indexOf(':');
+  const head = colon > 0 ? message.slice(0, colon) : message;
+  return head.replace(/"[^"]*"|'[^']*'/g, '…').trim() || 'Other';
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Columns named in an error message, matched as whole words
+ */
+export function getOffendingColumns(message: string, columns: string[]): string[] {
+  return columns.filter((column) =>
+    column !== '' && new RegExp(`(^|[^\\w])${escapeRegExp(column)}($|[^\\w])`).test(message)
+  );
+}
+
+/**
+ * Columns of an import: the header when stored, otherwise the keys of the first row
+ */
+export function getImportColumns(csvImport: CSVImport): string[] {
+  return csvImport.columns?.length ? csvImport.columns : Object.keys(csvImport.rowData[0]?.data ?? {});
+}
+
+/**
+ * Rows with errors grouped by error type, largest group first; a row with
+ * several errors appears in each of their groups
+ */
+export function groupRowErrors(rows: CSVRowData[], columns: string[]): ErrorTypeGroup[] {
+  const groups = new Map<string, RowIssue[]>();
+
+  rows.forEach((row) => {
+    (row.errors || []).forEach((message) => {
+      const offending = getOffendingColumns(message, columns);
+      const values = Object.fromEntries(
+        (offending.length > 0 ? offending : columns).map((column) => [column, row.data[column] ?? ''])
+      );
+      const type = getErrorType(message);
+      groups.set(type, [
+        ...(groups.get(type) || []),
+        { rowIndex: row.rowIndex, message, values, excluded: !!row.excluded },
+      ]);
+    });
+  });
+
+  return Array.from(groups, ([type, issues]) => ({ type, issues })).sort(
+    (a, b) => b.issues.length - a.issues.length
+  );
+}
+
+/**
+ * Rows that still fail validation and are not excluded; the import cannot be completed while any remain
+ */
+export function getUnresolvedRows(rows: CSVRowData[]): CSVRowData[] {
+  return rows.filter((row) => (row.errors?.length ?? 0) > 0 && !row.excluded);
+}
+
+/**
+ * Download the report as CSV, one line per offending value
+ */
+export function exportValidationReport(
+  groups: ErrorTypeGroup[],
+  fileName: string,
+  options: { onSuccess?: (message: string) => void; onError?: (error: string) => void } = {}
+): void {
+  const lines = [formatCsvValues(['Error type', 'Row', 'Error', 'Column', 'Value', 'Excluded'], false)];
+  groups.forEach(({ type, issues }) => {
+    issues.forEach((issue) => {
+      Object.entries(issue.values).forEach(([column, value]) => {
+        lines.push(
+          formatCsvValues([type, issue.rowIndex, issue.message, column, value, issue.excluded ? 'yes' : 'no'], false)
+        );
+      });
+    });
+  });
+
+  downloadCsv(lines.join('\n'), `${fileName.replace(/\.[^.]+$/, '')}-validation-report.csv`, {
+    actualRowCount: lines.length - 1,
+    ...options,
+  });
+}
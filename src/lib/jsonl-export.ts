@@ -0,0 +1,184 @@
+/**
+ * JSONL Export
+ * Turns annotated rows into fine-tuning records, either chat format
+ * ({"messages": [...]}) or {"prompt", "completion"} pairs. Templates reference
+ * dataset fields as {{fieldName}}.
+ */
+
+import { DatasetMergedRow } from './api/dataset-merged-rows';
+import { cleanHtmlContent } from './csv-export-helper';
+import {
+  AnnotationConfig,
+  AnnotationField,
+  buildExportFileName,
+  DatasetExportOptions,
+  ExportCancelledError,
+  ExportRowSource,
+  writeExportFile,
+} from './dataset-export-helper';
+import { JSONL_FILE_TYPE } from './export-stream';
+
+export type JsonlFormat = 'messages' | 'prompt-completion';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface JsonlMessageTemplate {
+  role: ChatRole;
+  content: string;
+}
+
+export interface JsonlTemplate {
+  format: JsonlFormat;
+  messages: JsonlMessageTemplate[];
+  prompt: string;
+  completion: string;
+  completedOnly: boolean;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+export const fieldPlaceholder = (fieldName: string) => `{{${fieldName}}}`;
+
+/**
+ * Fields a template can reference; image fields hold URLs, not text
+ */
+export function getTemplateFields(annotationConfig: AnnotationConfig | null): AnnotationField[] {
+  return (annotationConfig?.annotationFields || []).filter((field) => field.fieldType !== 'image');
+}
+
+/**
+ * Starting template: the first metadata field asks, the first new column answers
+ */
+export function createDefaultJsonlTemplate(fields: AnnotationField[]): JsonlTemplate {
+  const question = fields.find((field) => !field.isAnnotationField && !field.isNewColumn);
+  const answer = fields.find((field) => field.isNewColumn) || fields.find((field) => field.isAnnotationField);
+  const prompt = question ? fieldPlaceholder(question.fieldName) : '';
+  const completion = answer ? fieldPlaceholder(answer.fieldName) : '';
+
+  return {
+    format: 'messages',
+    messages: [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: completion },
+    ],
+    prompt,
+    completion,
+    completedOnly: true,
+  };
+}
+
+/**
+ * Value of a field in a row. Metadata lives under its CSV column name; annotated
+ * columns prefer the adjudicated value.
+ */
+function readFieldValue(row: DatasetMergedRow, fieldName: string, fields: AnnotationField[]): any {
+  const field = fields.find((candidate) => candidate.fieldName === fieldName);
+  if (field && !field.isAnnotationField && !field.isNewColumn) {
+    return row.data?.[field.csvColumnName || fieldName];
+  }
+  if (row.adjudicated && row.adjudicated.hasOwnProperty(fieldName)) {
+    return row.adjudicated[fieldName];
+  }
+  return row.data?.[fieldName];
+}
+
+export function renderTemplate(
+  template: string,
+  row: DatasetMergedRow,
+  fields: AnnotationField[],
+  cleanHtml: boolean = true
+): string {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (_, fieldName: string) => {
+      const value = readFieldValue(row, fieldName, fields);
+      return cleanHtml ? cleanHtmlContent(value) : String(value ?? '');
+    })
+    .trim();
+}
+
+/**
+ * One JSONL record for a row, or null when any templated part renders empty.
+ * Dropping only the empty message would leave turns of the same role back to
+ * back or an answer with no question, so the whole row is skipped instead.
+ * Messages left blank in the template itself are not part of the record.
+ */
+export function buildJsonlRecord(
+  template: JsonlTemplate,
+  row: DatasetMergedRow,
+  fields: AnnotationField[],
+  cleanHtml: boolean = true
+): Record<string, unknown> | null {
+  if (template.format === 'prompt-completion') {
+    const prompt = renderTemplate(template.prompt, row, fields, cleanHtml);
+    const completion = renderTemplate(template.completion, row, fields, cleanHtml);
+    if (!prompt || !completion) return null;
+    return { prompt, completion };
+  }
+
+  const messages = template.messages
+    .filter((message) => message.content.trim() !== '')
+    .map((message) => ({ role: message.role, content: renderTemplate(message.content, row, fields, cleanHtml) }));
+  if (messages.some((message) => message.content === '')) return null;
+  const answer = messages[messages.length - 1];
+  if (!answer || answer.role !== 'assistant') return null;
+  return { messages };
+}
+
+/**
+ * Problems that make a template unusable, for the mapping UI
+ */
+export function validateJsonlTemplate(template: JsonlTemplate): string[] {
+  const issues: string[] = [];
+  if (template.format === 'prompt-completion') {
+    if (!template.prompt.trim()) issues.push('Prompt is empty');
+    if (!template.completion.trim()) issues.push('Completion is empty');
+  } else {
+    if (!template.messages.some((message) => message.role === 'user' && message.content.trim())) {
+      issues.push('Add at least one user message');
+    }
+    const last = template.messages[template.messages.length - 1];
+    if (!last || last.role !== 'assistant' || !last.content.trim()) {
+      issues.push('The last message must be a non-empty assistant message');
+    }
+  }
+  return issues;
+}
+
+/**
+ * Export rows as JSONL using a template. Rows with a message that renders empty are skipped.
+ */
+export async function exportToJsonl(
+  source: ExportRowSource,
+  annotationConfig: AnnotationConfig,
+  template: JsonlTemplate,
+  datasetId: string,
+  options: DatasetExportOptions = {}
+): Promise<void> {
+  try {
+    const fields = annotationConfig.annotationFields;
+    const cleanHtml = options.cleanHtml ?? true;
+    let matched = 0;
+
+    const fileName = await buildExportFileName('finetune', datasetId, 'jsonl', options);
+    const written = await writeExportFile(fileName, JSONL_FILE_TYPE, '', source, (row) => {
+      if (template.completedOnly && !row.completed) return null;
+      matched++;
+      const record = buildJsonlRecord(template, row, fields, cleanHtml);
+      return record ? JSON.stringify(record) + '\n' : null;
+    }, options);
+
+    if ((options.showSuccess ?? true) && options.onSuccess) {
+      const skipped = matched - written;
+      options.onSuccess(
+        `Exported ${written} records${skipped > 0 ? ` (${skipped} rows skipped with an empty message)` : ''}`
+      );
+    }
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) {
+      return;
+    }
+    if (options.onError) {
+      options.onError(`Failed to export JSONL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
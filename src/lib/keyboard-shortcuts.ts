@@ -0,0 +1,354 @@
+/**
+ * Keyboard Shortcuts
+ * Central registry of the annotation workbench shortcuts. Every shortcut has a
+ * default key combination that users can override from their profile.
+ */
+
+export type ShortcutId =
+  | 'prevRow'
+  | 'nextRow'
+  | 'nextIncomplete'
+  | 'saveAndContinue'
+  | 'markComplete'
+  | 'undo'
+  | 'redo'
+  | 'focusField'
+  | 'pickOption'
+  | 'toggleImage'
+  | 'showCheatSheet';
+
+export type ShortcutGroup = 'Navigation' | 'Annotation' | 'Images' | 'Help';
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  description: string;
+  group: ShortcutGroup;
+  defaultKeys: string;
+  // Numbered shortcuts use a `{n}` placeholder that matches the digits 1-9
+  numbered?: boolean;
+}
+
+export type ShortcutOverrides = Partial<Record<ShortcutId, string>>;
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['Navigation', 'Annotation', 'Images', 'Help'];
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  {
+    id: 'prevRow',
+    label: 'Previous row',
+    description: 'Go to the previous row',
+    group: 'Navigation',
+    defaultKeys: 'Ctrl+ArrowLeft',
+  },
+  {
+    id: 'nextRow',
+    label: 'Next row',
+    description: 'Go to the next row',
+    group: 'Navigation',
+    defaultKeys: 'Ctrl+ArrowRight',
+  },
+  {
+    id: 'nextIncomplete',
+    label: 'Next incomplete row',
+    description: 'Jump to the next row that is not completed',
+    group: 'Navigation',
+    defaultKeys: 'Ctrl+Shift+ArrowRight',
+  },
+  {
+    id: 'saveAndContinue',
+    label: 'Save and continue',
+    description: 'Save all annotation values and move to the next row',
+    group: 'Annotation',
+    defaultKeys: 'Ctrl+Enter',
+  },
+  {
+    id: 'markComplete',
+    label: 'Mark complete',
+    description: 'Mark the current row as completed without saving',
+    group: 'Annotation',
+    defaultKeys: 'Ctrl+Shift+Enter',
+  },
+  {
+    id: 'undo',
+    label: 'Undo',
+    description: 'Undo the last edit on the current row',
+    group: 'Annotation',
+    defaultKeys: 'Ctrl+Z',
+  },
+  {
+    id: 'redo',
+    label: 'Redo',
+    description: 'Redo the last undone edit on the current row',
+    group: 'Annotation',
+    defaultKeys: 'Ctrl+Shift+Z',
+  },
+  {
+    id: 'focusField',
+    label: 'Focus annotation field',
+    description: 'Focus the Nth new column input',
+    group: 'Annotation',
+    defaultKeys: 'Alt+{n}',
+    numbered: true,
+  },
+  {
+    id: 'pickOption',
+    label: 'Pick option',
+    description: 'Pick the Nth option of the focused select field',
+    group: 'Annotation',
+    defaultKeys: '{n}',
+    numbered: true,
+  },
+  {
+    id: 'toggleImage',
+    label: 'Toggle image',
+    description: 'Toggle selection of the Nth image in the focused image field',
+    group: 'Images',
+    defaultKeys: 'Shift+{n}',
+    numbered: true,
+  },
+  {
+    id: 'showCheatSheet',
+    label: 'Show shortcuts',
+    description: 'Open this list of keyboard shortcuts',
+    group: 'Help',
+    defaultKeys: '?',
+  },
+];
+
+export const NUMBER_PLACEHOLDER = '{n}';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+interface ParsedShortcut {
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  key: string;
+}
+
+export interface ShortcutMatch {
+  // Digit pressed for numbered shortcuts (1-9), otherwise undefined
+  number?: number;
+  // Whether the combination uses Ctrl/Cmd or Alt, which keeps it active while typing
+  hasModifier: boolean;
+}
+
+/**
+ * Merge user overrides over the default bindings, ignoring invalid entries
+ */
+export function resolveShortcutBindings(overrides?: ShortcutOverrides | null): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  SHORTCUT_DEFINITIONS.forEach((definition) => {
+    const override = overrides?.[definition.id];
+    bindings[definition.id] =
+      override && isValidShortcut(override, definition.numbered)
+        ? normalizeShortcut(override)
+        : definition.defaultKeys;
+  });
+  return bindings;
+}
+
+export function parseShortcut(keys: string): ParsedShortcut | null {
+  const parts = keys.split('+').map((part) => part.trim());
+  // A literal "+" key leaves an empty trailing part
+  if (keys.endsWith('++') || keys === '+') {
+    parts.splice(parts.length - 2, 2, '+');
+  }
+
+  const key = parts.pop();
+  if (!key) return null;
+
+  const parsed: ParsedShortcut = { ctrl: false, alt: false, shift: false, key };
+  for (const modifier of parts) {
+    switch (modifier.toLowerCase()) {
+      case 'ctrl':
+      case 'cmd':
+      case 'meta':
+        parsed.ctrl = true;
+        break;
+      case 'alt':
+      case 'option':
+        parsed.alt = true;
+        break;
+      case 'shift':
+        parsed.shift = true;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return parsed;
+}
+
+export function isValidShortcut(keys: string, numbered = false): boolean {
+  const parsed = parseShortcut(keys);
+  if (!parsed || MODIFIER_KEYS.includes(parsed.key)) return false;
+  return (parsed.key === NUMBER_PLACEHOLDER) === numbered;
+}
+
+/**
+ * Canonical form of a key combination, used for display and conflict checks
+ */
+export function normalizeShortcut(keys: string): string {
+  const parsed = parseShortcut(keys);
+  if (!parsed) return keys;
+
+  const key = parsed.key.length === 1 ? parsed.key.toUpperCase() : parsed.key;
+  return [
+    parsed.ctrl && 'Ctrl',
+    parsed.alt && 'Alt',
+    parsed.shift && !isPunctuation(parsed.key) && 'Shift',
+    key,
+  ]
+    .filter(Boolean)
+    .join('+');
+}
+
+/**
+ * Human readable label for a binding, e.g. "Ctrl+→" or "Alt+1…9"
+ */
+export function formatShortcut(keys: string): string {
+  const labels: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    [NUMBER_PLACEHOLDER]: '1…9',
+    ' ': 'Space',
+  };
+
+  return normalizeShortcut(keys)
+    .split('+')
+    .map((part) => labels[part] || part)
+    .join('+');
+}
+
+/**
+ * Group shortcut ids that share the same key combination
+ */
+export function findShortcutConflicts(bindings: ShortcutBindings): ShortcutId[][] {
+  const byKeys = new Map<string, ShortcutId[]>();
+  (Object.keys(bindings) as ShortcutId[]).forEach((id) => {
+    const keys = normalizeShortcut(bindings[id]);
+    byKeys.set(keys, [...(byKeys.get(keys) || []), id]);
+  });
+  return Array.from(byKeys.values()).filter((ids) => ids.length > 1);
+}
+
+/**
+ * Check a keyboard event against a binding
+ */
+export function matchShortcut(event: KeyboardEvent, keys: string): ShortcutMatch | null {
+  const parsed = parseShortcut(keys);
+  if (!parsed) return null;
+
+  const ctrl = event.ctrlKey || event.metaKey;
+  if (ctrl !== parsed.ctrl || event.altKey !== parsed.alt) return null;
+  // Punctuation such as "?" already implies Shift on most layouts
+  if (!isPunctuation(parsed.key) && event.shiftKey !== parsed.shift) return null;
+
+  const hasModifier = parsed.ctrl || parsed.alt;
+
+  if (parsed.key === NUMBER_PLACEHOLDER) {
+    const digit = digitFromEvent(event);
+    return digit ? { number: digit, hasModifier } : null;
+  }
+
+  // Match letters and digits by physical key, since Alt/Shift change event.key
+  if (/^[a-z]$/i.test(parsed.key)) {
+    return event.code === `Key${parsed.key.toUpperCase()}` ? { hasModifier } : null;
+  }
+  if (/^[0-9]$/.test(parsed.key)) {
+    return digitFromEvent(event, true) === Number(parsed.key) ? { hasModifier } : null;
+  }
+
+  const eventKey = event.key === ' ' ? 'Space' : event.key;
+  const bindingKey = parsed.key === ' ' ? 'Space' : parsed.key;
+  return eventKey.toLowerCase() === bindingKey.toLowerCase() ? { hasModifier } : null;
+}
+
+/**
+ * Build a binding from a key press, for recording overrides
+ */
+export function shortcutFromEvent(event: KeyboardEvent, numbered = false): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  let key: string;
+  const digit = digitFromEvent(event, true);
+  if (numbered) {
+    if (!digit) return null;
+    key = NUMBER_PLACEHOLDER;
+  } else if (digit !== null) {
+    key = String(digit);
+  } else if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else {
+    key = event.key === ' ' ? 'Space' : event.key;
+  }
+
+  return normalizeShortcut(
+    [
+      (event.ctrlKey || event.metaKey) && 'Ctrl',
+      event.altKey && 'Alt',
+      event.shiftKey && 'Shift',
+      key,
+    ]
+      .filter(Boolean)
+      .join('+'),
+  );
+}
+
+/**
+ * Whether the event comes from a text field, where unmodified keys must keep typing
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    return !['checkbox', 'radio', 'button', 'submit', 'reset'].includes(target.type);
+  }
+  return false;
+}
+
+// Text of each field when it gained focus, to tell whether it has been edited since
+const focusedFieldText = new WeakMap<EventTarget, string>();
+
+function getEditableText(target: EventTarget | null): string | null {
+  if (target instanceof HTMLTextAreaElement) return target.value;
+  if (target instanceof HTMLInputElement && isTypingTarget(target)) return target.value;
+  if (target instanceof HTMLElement && target.isContentEditable) return target.textContent ?? '';
+  return null;
+}
+
+/**
+ * Remember a field's text as it gains focus; call from a focusin listener
+ */
+export function rememberFocusedField(target: EventTarget | null): void {
+  const text = getEditableText(target);
+  if (target && text !== null) focusedFieldText.set(target, text);
+}
+
+/**
+ * Whether the event comes from a text field edited since it gained focus. Such a
+ * field has its own undo stack, which Ctrl+Z should use before any app-level undo.
+ */
+export function hasNativeUndo(target: EventTarget | null): boolean {
+  const text = getEditableText(target);
+  if (!target || text === null) return false;
+  return focusedFieldText.has(target) && focusedFieldText.get(target) !== text;
+}
+
+function isPunctuation(key: string): boolean {
+  return key.length === 1 && !/[a-z0-9\s]/i.test(key);
+}
+
+function digitFromEvent(event: KeyboardEvent, allowZero = false): number | null {
+  const match = /^(?:Digit|Numpad)([0-9])$/.exec(event.code);
+  if (!match) return null;
+  const digit = Number(match[1]);
+  return digit === 0 && !allowZero ? null : digit;
+}
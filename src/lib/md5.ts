@@ -0,0 +1,108 @@
+/**
+ * MD5
+ * Incremental MD5 (RFC 1321) for hashing large files chunk by chunk. Web
+ * Crypto has no MD5, and the upload protocol identifies files by it.
+ */
+
+// Per-round shift amounts
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+// floor(abs(sin(i + 1)) * 2^32)
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+const BLOCK_SIZE = 64;
+
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private buffer = new Uint8Array(BLOCK_SIZE);
+  private bufferLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(16);
+
+  /**
+   * Add bytes to the hash
+   */
+  update(bytes: Uint8Array): this {
+    this.totalLength += bytes.length;
+    let offset = 0;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(BLOCK_SIZE - this.bufferLength, bytes.length);
+      this.buffer.set(bytes.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength < BLOCK_SIZE) return this;
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + BLOCK_SIZE <= bytes.length; offset += BLOCK_SIZE) {
+      this.processBlock(bytes, offset);
+    }
+    this.buffer.set(bytes.subarray(offset), 0);
+    this.bufferLength = bytes.length - offset;
+    return this;
+  }
+
+  /**
+   * Finish the hash and return it as lowercase hex
+   */
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(((this.bufferLength < 56 ? 56 : 120) - this.bufferLength) + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    // Length in bits as a 64-bit little-endian number
+    view.setUint32(padding.length - 8, bitLength >>> 0, true);
+    view.setUint32(padding.length - 4, Math.floor(bitLength / 0x100000000), true);
+    this.update(padding);
+
+    // Each state word is written little-endian
+    return Array.from(this.state)
+      .flatMap((word) => [word, word >>> 8, word >>> 16, word >>> 24])
+      .map((byte) => (byte & 0xff).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private processBlock(bytes: Uint8Array, offset: number) {
+    const words = this.words;
+    for (let i = 0; i < 16; i++) {
+      const at = offset + i * 4;
+      words[i] = bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24);
+    }
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const sum = (a + f + CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Row Filter
+ * Filters applied to workbench navigation. Rows keep their dataset positions;
+ * the filter only decides which rows prev/next navigation stops on.
+ */
+
+import { RowQueryFilter, RowWithCSVInfo } from './api/dataset-merged-rows';
+
+export type RowFilterMode = 'all' | 'incomplete' | 'completed' | 'emptyField' | 'search';
+
+export interface RowFilter {
+  mode: RowFilterMode;
+  // New column checked by the 'emptyField' mode
+  fieldName?: string;
+  // Text matched against metadata fields by the 'search' mode
+  query?: string;
+}
+
+export const DEFAULT_ROW_FILTER: RowFilter = { mode: 'all' };
+
+/**
+ * Whether the filter narrows the rows at all (an empty search or unselected column does not)
+ */
+export function isRowFilterActive(filter: RowFilter): boolean {
+  switch (filter.mode) {
+    case 'incomplete':
+    case 'completed':
+      return true;
+    case 'emptyField':
+      return !!filter.fieldName;
+    case 'search':
+      return !!filter.query?.trim();
+    default:
+      return false;
+  }
+}
+
+/**
+ * The filter as query parameters for the server-side row count and lookup
+ */
+export function toRowQuery(filter: RowFilter, searchFields?: string[]): RowQueryFilter {
+  switch (filter.mode) {
+    case 'incomplete':
+    case 'completed':
+      return { status: filter.mode };
+    case 'emptyField':
+      return { emptyField: filter.fieldName };
+    case 'search':
+      return { search: filter.query?.trim(), searchFields };
+    default:
+      return {};
+  }
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Check a row against the filter. `searchFields` lists the metadata columns
+ * searched in 'search' mode; all row data is searched when omitted.
+ */
+export function matchesRowFilter(
+  row: RowWithCSVInfo,
+  filter: RowFilter,
+  searchFields?: string[],
+): boolean {
+  switch (filter.mode) {
+    case 'incomplete':
+      return !row.completed;
+    case 'completed':
+      return !!row.completed;
+    case 'emptyField':
+      return !filter.fieldName || isEmptyValue(row.data?.[filter.fieldName]);
+    case 'search': {
+      const query = filter.query?.trim().toLowerCase();
+      if (!query) return true;
+
+      const fields = searchFields || Object.keys(row.data || {});
+      return fields.some((field) => {
+        const value = row.data?.[field];
+        return !isEmptyValue(value) && String(value).toLowerCase().includes(query);
+      });
+    }
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Row Status
+ * Lifecycle of a dataset row through annotation and review:
+ * pending → in_progress → completed → needs_review → approved / rejected.
+ */
+
+import { RowWithCSVInfo } from './api/dataset-merged-rows';
+
+export type RowStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'needs_review'
+  | 'approved'
+  | 'rejected';
+
+export const ROW_STATUS_LABELS: Record<RowStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  needs_review: 'Needs review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export function getRowStatus(
+  row: Pick<RowWithCSVInfo, 'completed' | 'processed' | 'reviewStatus'>,
+): RowStatus {
+  if (row.reviewStatus === 'approved') return 'approved';
+
+  if (!row.completed) {
+    // Rejected rows are back with the annotator until they complete them again
+    if (row.reviewStatus === 'rejected') return 'rejected';
+    return row.processed ? 'in_progress' : 'pending';
+  }
+
+  // A rejected row completed again is waiting for another review
+  return row.reviewStatus ? 'needs_review' : 'completed';
+}
+
+/**
+ * Whether a user may approve or reject rows
+ */
+export function canReviewRows(user?: { role?: string } | null): boolean {
+  return user?.role === 'admin' || user?.role === 'reviewer';
+}
@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Id for records created in the browser. crypto.randomUUID is only available
+// in secure contexts, which plain-HTTP deployments are not.
+export function createLocalId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+}
@@ -0,0 +1,239 @@
+/**
+ * Excel Export
+ * Writes the configured columns to an .xlsx workbook: number columns as numeric
+ * cells, multiselect values one option per line and image URLs as hyperlinks.
+ * A Summary sheet holds dataset progress and per-column completion.
+ */
+
+import * as ExcelJS from 'exceljs';
+import { AnnotationResponse } from './api/annotations';
+import { AnnotationProgress, DatasetMergedRow, DatasetMergedRowsAPI } from './api/dataset-merged-rows';
+import { cleanHtmlContent, downloadBlob } from './csv-export-helper';
+import {
+  annotationKey,
+  AnnotationConfig,
+  buildExportFileName,
+  collectExportRows,
+  DatasetExportOptions,
+  ExportCancelledError,
+  ExportColumn,
+  ExportRowSource,
+  getSelectedExportColumns,
+  loadAnnotationIndex,
+  readExportValue,
+  throwIfCancelled,
+} from './dataset-export-helper';
+import { getNewColumnTypes, NewColumnType } from './field-config';
+
+type XlsxColumnKind = 'text' | NewColumnType | 'image' | 'imageMetadata';
+
+interface XlsxColumn extends ExportColumn {
+  type: XlsxColumnKind;
+}
+
+// Rows between progress reports
+const PROGRESS_INTERVAL = 250;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Cell type of each export column: image fields link, new columns keep their type
+ */
+function typeColumns(
+  columns: ExportColumn[],
+  annotationConfig: AnnotationConfig,
+  columnTypes: Map<string, NewColumnType>
+): XlsxColumn[] {
+  const imageColumns = new Set(
+    annotationConfig.annotationFields
+      .filter((field) => field.fieldType === 'image')
+      .map((field) => field.csvColumnName || field.fieldName)
+  );
+
+  return columns.map((column) => {
+    if (column.kind === 'imageMetadata') return { ...column, type: 'imageMetadata' };
+    if (imageColumns.has(column.key)) return { ...column, type: 'image' };
+    return { ...column, type: columnTypes.get(column.key) || 'text' };
+  });
+}
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+/**
+ * Cell value for one column of a row
+ */
+function toCellValue(
+  row: DatasetMergedRow,
+  column: XlsxColumn,
+  annotation: AnnotationResponse | undefined,
+  cleanHtml: boolean,
+): ExcelJS.CellValue {
+  if (column.type === 'imageMetadata') {
+    const images = (annotation?.images || [])
+      .filter((image) => image.isSelected)
+      .sort((a, b) => a.order - b.order);
+    if (images.length === 0) return null;
+    const text = images.map((image) => (image.caption ? `${image.caption} (${image.url})` : image.url)).join('\n');
+    return { text, hyperlink: images[0].url };
+  }
+
+  const raw = readExportValue(row, column, new Map());
+  const text = cleanHtml ? cleanHtmlContent(raw) : String(raw ?? '');
+  if (text === '') return null;
+
+  switch (column.type) {
+    case 'number': {
+      const number = Number(text);
+      return Number.isFinite(number) ? number : text;
+    }
+    case 'multiselect':
+      return text.split(',').map((option) => option.trim()).filter(Boolean).join('\n');
+    case 'image': {
+      // Multi-image cells link to the first image
+      const firstUrl = text.split(/[\s,]+/).find(isUrl);
+      return firstUrl ? { text, hyperlink: firstUrl } : text;
+    }
+    default:
+      return text;
+  }
+}
+
+function isFilled(value: ExcelJS.CellValue): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+/**
+ * Summary sheet: progress from the API, per-file breakdown and how many rows
+ * have a value in each column
+ */
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  progress: AnnotationProgress | null,
+  columns: XlsxColumn[],
+  filledCounts: number[],
+  rowCount: number,
+) {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [{ width: 36 }, { width: 16 }, { width: 14 }, { width: 14 }, { width: 14 }];
+
+  const addHeading = (title: string) => {
+    if (sheet.rowCount > 0) sheet.addRow([]);
+    sheet.addRow([title]).font = { bold: true, size: 13 };
+  };
+  const addHeaderRow = (values: string[]) => {
+    sheet.addRow(values).font = { bold: true };
+  };
+
+  if (progress) {
+    addHeading('Progress');
+    sheet.addRow(['Total rows', progress.totalRows]);
+    sheet.addRow(['Completed rows', progress.completedRows]);
+    sheet.addRow(['Pending rows', progress.pendingRows]);
+    sheet.addRow(['Completed', progress.progressPercentage / 100]).getCell(2).numFmt = '0.0%';
+
+    if (progress.csvBreakdown.length > 0) {
+      addHeading('By file');
+      addHeaderRow(['File', 'Total rows', 'Completed', 'Completed %']);
+      progress.csvBreakdown.forEach((file) => {
+        sheet.addRow([file.fileName, file.totalRows, file.completedRows, file.progressPercentage / 100])
+          .getCell(4).numFmt = '0.0%';
+      });
+    }
+  }
+
+  addHeading('By column');
+  addHeaderRow(['Column', 'Type', 'Filled', 'Empty', 'Filled %']);
+  columns.forEach((column, index) => {
+    const filled = filledCounts[index];
+    sheet.addRow([
+      column.header,
+      column.type === 'imageMetadata' ? 'image metadata' : column.type,
+      filled,
+      rowCount - filled,
+      rowCount > 0 ? filled / rowCount : 0,
+    ]).getCell(5).numFmt = '0.0%';
+  });
+}
+
+/**
+ * Export selected columns (metadata + annotation fields) to an Excel workbook
+ */
+export async function exportSelectedColumnsToXlsx(
+  source: ExportRowSource,
+  annotationConfig: AnnotationConfig,
+  datasetId: string,
+  options: DatasetExportOptions = {}
+): Promise<void> {
+  try {
+    const allRows = await collectExportRows(source, options);
+    const cleanHtml = options.cleanHtml ?? true;
+
+    const progress = await DatasetMergedRowsAPI.getAnnotationProgress(datasetId).catch(() => null);
+    const columns = typeColumns(
+      options.columns ?? getSelectedExportColumns(annotationConfig),
+      annotationConfig,
+      getNewColumnTypes(annotationConfig)
+    );
+
+    const annotationIndex = columns.some((column) => column.type === 'imageMetadata')
+      ? await loadAnnotationIndex(datasetId, options)
+      : new Map<string, AnnotationResponse>();
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+    const sheet = workbook.addWorksheet('Annotations', { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      key: column.header,
+      width: Math.min(Math.max(column.header.length + 2, 12), 50),
+      style: column.type === 'multiselect' || column.type === 'imageMetadata'
+        ? { alignment: { wrapText: true, vertical: 'top' } }
+        : { alignment: { vertical: 'top' } },
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    const filledCounts = columns.map(() => 0);
+    for (let index = 0; index < allRows.length; index++) {
+      if (index % PROGRESS_INTERVAL === 0) {
+        throwIfCancelled(options.signal);
+        options.onProgress?.({ phase: 'rows', completed: index, total: allRows.length });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      const row = allRows[index];
+      const values = columns.map((column) =>
+        toCellValue(row, column, annotationIndex.get(annotationKey(row.rowIndex, column.key)), cleanHtml)
+      );
+      values.forEach((value, columnIndex) => {
+        if (isFilled(value)) filledCounts[columnIndex]++;
+      });
+
+      const sheetRow = sheet.addRow(values);
+      values.forEach((value, columnIndex) => {
+        if (value && typeof value === 'object' && 'hyperlink' in value) {
+          sheetRow.getCell(columnIndex + 1).font = { color: { argb: 'FF2563EB' }, underline: true };
+        }
+      });
+    }
+    throwIfCancelled(options.signal);
+    options.onProgress?.({ phase: 'rows', completed: allRows.length, total: allRows.length });
+
+    addSummarySheet(workbook, progress, columns, filledCounts, allRows.length);
+
+    const fileName = await buildExportFileName('selected_columns', datasetId, 'xlsx', options);
+    const buffer = await workbook.xlsx.writeBuffer();
+    throwIfCancelled(options.signal);
+    downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), fileName);
+
+    if ((options.showSuccess ?? true) && options.onSuccess) {
+      options.onSuccess(`Exported ${columns.length} columns with ${allRows.length} rows to Excel`);
+    }
+  } catch (error) {
+    if (options.signal?.aborted || error instanceof ExportCancelledError) {
+      return;
+    }
+    if (options.onError) {
+      options.onError(`Failed to export Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}